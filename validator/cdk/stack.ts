@@ -72,10 +72,31 @@ export class LmwfValidatorStack extends cdk.Stack {
       };
     }
 
+    const validatorIntegration = new integrations.HttpLambdaIntegration('ValidatorIntegration', validatorFn);
     httpApi.addRoutes({
       path: '/validate',
       methods: [apigw.HttpMethod.POST],
-      integration: new integrations.HttpLambdaIntegration('ValidatorIntegration', validatorFn),
+      integration: validatorIntegration,
+    });
+    httpApi.addRoutes({
+      path: '/validate-program',
+      methods: [apigw.HttpMethod.POST],
+      integration: validatorIntegration,
+    });
+    httpApi.addRoutes({
+      path: '/analyze',
+      methods: [apigw.HttpMethod.POST],
+      integration: validatorIntegration,
+    });
+    httpApi.addRoutes({
+      path: '/diff',
+      methods: [apigw.HttpMethod.POST],
+      integration: validatorIntegration,
+    });
+    httpApi.addRoutes({
+      path: '/convert',
+      methods: [apigw.HttpMethod.POST],
+      integration: validatorIntegration,
     });
 
     // Synth-time hostname for the HTTP API default execute-api URL. Used as
@@ -124,6 +145,17 @@ function handler(event) {
       protocolPolicy: cloudfront.OriginProtocolPolicy.HTTPS_ONLY,
     });
 
+    const apiBehavior: cloudfront.BehaviorOptions = {
+      origin: apiOrigin,
+      viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+      cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+      // API Gateway rejects requests where Host header doesn't match its
+      // own domain — this policy forwards everything except Host.
+      originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+      allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
+      compress: false,
+    };
+
     const distribution = new cloudfront.Distribution(this, 'SiteDistribution', {
       defaultRootObject: 'index.html',
       domainNames: [domainName],
@@ -145,16 +177,11 @@ function handler(event) {
         }],
       },
       additionalBehaviors: {
-        '/validate': {
-          origin: apiOrigin,
-          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
-          // API Gateway rejects requests where Host header doesn't match its
-          // own domain — this policy forwards everything except Host.
-          originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
-          allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
-          compress: false,
-        },
+        '/validate': apiBehavior,
+        '/validate-program': apiBehavior,
+        '/analyze': apiBehavior,
+        '/diff': apiBehavior,
+        '/convert': apiBehavior,
       },
     });
 
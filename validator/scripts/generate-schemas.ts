@@ -0,0 +1,215 @@
+/**
+ * JSON Schema Generator
+ *
+ * Generates JSON Schemas (draft 2020-12) for the parser's data types and the
+ * /validate response from their TypeScript declarations, and writes them to
+ * spec/data/schemas next to the export schemas.
+ *
+ * Usage:
+ *   npm run schemas            # Regenerate the schemas
+ *   npm run schemas -- --check # Fail if a schema is out of date
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import type { JsonSchema } from '../src/schema/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const PACKAGE_DIR = resolve(__dirname, '..');
+export const SCHEMAS_DIR = resolve(PACKAGE_DIR, '../spec/data/schemas');
+const SCHEMA_BASE_URL = 'https://workoutformat.liftmark.app/schemas';
+
+interface SchemaRoot {
+  fileName: string;
+  source: string;
+  typeName: string;
+  title: string;
+  description: string;
+}
+
+const ROOTS: SchemaRoot[] = [
+  {
+    fileName: 'lmwf-workout-plan.schema.json',
+    source: 'src/parser/types.ts',
+    typeName: 'WorkoutPlan',
+    title: 'LMWF Workout Plan',
+    description: 'A workout parsed from LMWF markdown: the `data` of a successful `parseWorkout`.',
+  },
+  {
+    fileName: 'lmwf-planned-exercise.schema.json',
+    source: 'src/parser/types.ts',
+    typeName: 'PlannedExercise',
+    title: 'LMWF Planned Exercise',
+    description: 'One exercise of a parsed workout, or a superset or section containing exercises.',
+  },
+  {
+    fileName: 'lmwf-planned-set.schema.json',
+    source: 'src/parser/types.ts',
+    typeName: 'PlannedSet',
+    title: 'LMWF Planned Set',
+    description: 'One set of a parsed exercise, with its targets and modifiers.',
+  },
+  {
+    fileName: 'lmwf-validate-response.schema.json',
+    source: 'src/handler.ts',
+    typeName: 'ValidateResponse',
+    title: 'LMWF Validate Response',
+    description: 'The JSON body returned by POST /validate.',
+  },
+];
+
+// MARK: - Generation
+
+/// Every generated schema, keyed by file name.
+export function generateSchemas(): Map<string, JsonSchema> {
+  const configPath = join(PACKAGE_DIR, 'tsconfig.json');
+  const config = ts.parseJsonConfigFileContent(ts.readConfigFile(configPath, ts.sys.readFile).config, ts.sys, PACKAGE_DIR);
+  const program = ts.createProgram(ROOTS.map((root) => join(PACKAGE_DIR, root.source)), { ...config.options, noEmit: true });
+  const checker = program.getTypeChecker();
+
+  return new Map(ROOTS.map((root) => [root.fileName, generateSchema(root, program, checker)]));
+}
+
+function generateSchema(root: SchemaRoot, program: ts.Program, checker: ts.TypeChecker): JsonSchema {
+  const sourceFile = program.getSourceFile(join(PACKAGE_DIR, root.source));
+  const declaration = sourceFile?.statements.find(
+    (statement): statement is ts.InterfaceDeclaration =>
+      ts.isInterfaceDeclaration(statement) && statement.name.text === root.typeName
+  );
+  if (!declaration) throw new Error(`${root.typeName} is not declared in ${root.source}`);
+
+  const definitions = new Map<string, JsonSchema>();
+  const body = objectSchema(checker.getTypeAtLocation(declaration), checker, definitions, root.typeName);
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `${SCHEMA_BASE_URL}/${root.fileName}`,
+    title: root.title,
+    description: root.description,
+    ...body,
+    ...(definitions.size > 0 && { $defs: Object.fromEntries([...definitions].sort(([a], [b]) => a.localeCompare(b))) }),
+  };
+}
+
+/// Named interfaces become `$defs` entries; everything else is inlined.
+function typeSchema(type: ts.Type, checker: ts.TypeChecker, definitions: Map<string, JsonSchema>, rootName: string): JsonSchema {
+  if (type.isUnion()) return unionSchema(type.types, checker, definitions, rootName);
+  if (type.flags & ts.TypeFlags.String) return { type: 'string' };
+  if (type.flags & ts.TypeFlags.Number) return { type: 'number' };
+  if (type.flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+  if (type.flags & ts.TypeFlags.Null) return { type: 'null' };
+  if (type.isStringLiteral()) return { type: 'string', const: type.value };
+  if (type.isNumberLiteral()) return { type: 'number', const: type.value };
+  if (checker.isArrayType(type)) {
+    return { type: 'array', items: typeSchema(checker.getTypeArguments(type as ts.TypeReference)[0], checker, definitions, rootName) };
+  }
+  if (type.flags & ts.TypeFlags.Object) {
+    const symbol = type.getSymbol();
+    const name = symbol && symbol.flags & ts.SymbolFlags.Interface ? symbol.getName() : null;
+    if (!name) return objectSchema(type, checker, definitions, rootName);
+    if (name === rootName) return { $ref: '#' };
+    if (!definitions.has(name)) {
+      definitions.set(name, {});
+      definitions.set(name, objectSchema(type, checker, definitions, rootName));
+    }
+    return { $ref: `#/$defs/${name}` };
+  }
+  throw new Error(`Cannot express ${checker.typeToString(type)} in JSON Schema`);
+}
+
+function unionSchema(members: ts.Type[], checker: ts.TypeChecker, definitions: Map<string, JsonSchema>, rootName: string): JsonSchema {
+  // Optional properties include undefined, which JSON leaves out; `boolean` is `true | false`
+  const types = members.filter((member) => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.BooleanLiteral)));
+  const schemas = types.map((member) => typeSchema(member, checker, definitions, rootName));
+  if (members.some((member) => member.flags & ts.TypeFlags.BooleanLiteral)) schemas.push({ type: 'boolean' });
+  if (schemas.length === 1) return schemas[0];
+  // Null last, as in the export schemas
+  schemas.sort((a, b) => Number(a.type === 'null') - Number(b.type === 'null'));
+
+  // Literal and primitive unions take the form the export schemas use: `"type": [...]` with an `enum`
+  if (schemas.every((schema) => Object.keys(schema).every((key) => key === 'type' || key === 'const'))) {
+    const typeNames = [...new Set(schemas.map((schema) => schema.type as string))];
+    const hasLiterals = schemas.some((schema) => schema.const !== undefined);
+    return {
+      type: typeNames.length === 1 ? typeNames[0] : typeNames,
+      ...(hasLiterals && {
+        enum: schemas.map((schema) => (schema.type === 'null' ? null : schema.const)).filter((value) => value !== undefined),
+      }),
+    };
+  }
+  return { anyOf: schemas };
+}
+
+function objectSchema(type: ts.Type, checker: ts.TypeChecker, definitions: Map<string, JsonSchema>, rootName: string): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration ?? property.declarations?.[0];
+    const propertyType = declaration
+      ? checker.getTypeOfSymbolAtLocation(property, declaration)
+      : checker.getDeclaredTypeOfSymbol(property);
+    const description = ts.displayPartsToString(property.getDocumentationComment(checker));
+
+    properties[property.getName()] = {
+      ...(description && { description }),
+      ...typeSchema(propertyType, checker, definitions, rootName),
+    };
+    if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.getName());
+  }
+
+  return { type: 'object', required, additionalProperties: false, properties };
+}
+
+/// JSON.stringify with two-space indents, but arrays of strings, numbers and nulls on one line like the export schemas.
+function formatJson(value: unknown, indent = ''): string {
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.every((item) => item === null || typeof item !== 'object')) {
+      return `[${value.map((item) => JSON.stringify(item)).join(', ')}]`;
+    }
+    return `[\n${value.map((item) => `${inner}${formatJson(item, inner)}`).join(',\n')}\n${indent}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${formatJson(item, inner)}`).join(',\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// MARK: - CLI
+
+function main(): number {
+  const check = process.argv.includes('--check');
+  let stale = 0;
+
+  for (const [fileName, schema] of generateSchemas()) {
+    const path = join(SCHEMAS_DIR, fileName);
+    const content = `${formatJson(schema)}\n`;
+    let current: string | null = null;
+    try {
+      current = readFileSync(path, 'utf-8');
+    } catch {
+      // Written below
+    }
+    if (current === content) continue;
+
+    if (check) {
+      console.error(`❌ ${fileName} is out of date; run npm run schemas`);
+      stale += 1;
+    } else {
+      writeFileSync(path, content);
+      console.log(`✅ Generated ${path}`);
+    }
+  }
+
+  return stale > 0 ? 1 : 0;
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  process.exitCode = main();
+}
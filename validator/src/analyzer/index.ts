@@ -0,0 +1,117 @@
+import type { WorkoutPlan, PlannedExercise, WeightUnit } from '../parser/types.js';
+import { exerciseDictionary, resolveExerciseName } from '../dictionary/index.js';
+import type { ExerciseDictionary } from '../dictionary/index.js';
+
+export interface AnalyzeOptions {
+  /** Used for muscle groups of exercises parsed without a dictionary; defaults to the bundled one */
+  dictionary?: ExerciseDictionary;
+}
+
+/** Weight x reps, kept separate per unit rather than converted */
+export type Tonnage = Record<WeightUnit, number>;
+
+export interface ExerciseAnalysis {
+  name: string;
+  setCount: number;
+  /** Planned reps; ranges count their minimum and AMRAP sets count nothing */
+  reps: number;
+  tonnage: Tonnage;
+  timeUnderLoadSeconds: number;
+  restSeconds: number;
+  muscleGroups: string[];
+}
+
+export interface WorkoutAnalysis {
+  exerciseCount: number;
+  totalSetCount: number;
+  totalReps: number;
+  tonnage: Tonnage;
+  timeUnderLoadSeconds: number;
+  totalRestSeconds: number;
+  /** Each set counts once for every muscle group its exercise works */
+  setsPerMuscleGroup: Record<string, number>;
+  /** Exercises with sets that the dictionary does not know, so have no muscle groups */
+  unknownExercises: string[];
+  exercises: ExerciseAnalysis[];
+}
+
+// MARK: - Public API
+
+/**
+ * Computes training volume for a plan.
+ *
+ * Tonnage only includes sets with both a weight and a rep count. Sets without a
+ * unit use the plan's `@units`; if that is missing too they are left out.
+ * Percentage loads contribute once resolved (see `resolvePercentages`). Time
+ * under load is the total of timed sets, with per-side sets counted for both sides.
+ */
+export function analyzeWorkout(plan: WorkoutPlan, options: AnalyzeOptions = {}): WorkoutAnalysis {
+  const dictionary = options.dictionary ?? exerciseDictionary;
+  const parentIds = new Set(plan.exercises.map((e) => e.parentExerciseId).filter((id) => id != null));
+
+  // Superset and section containers hold no sets of their own
+  const exercises = plan.exercises
+    .filter((exercise) => !parentIds.has(exercise.id))
+    .map((exercise) => analyzeExercise(exercise, plan.defaultWeightUnit, dictionary));
+
+  const setsPerMuscleGroup: Record<string, number> = {};
+  const unknownExercises: string[] = [];
+  for (const exercise of exercises) {
+    if (exercise.muscleGroups.length === 0 && exercise.setCount > 0) {
+      if (!unknownExercises.includes(exercise.name)) unknownExercises.push(exercise.name);
+    }
+    for (const group of exercise.muscleGroups) {
+      setsPerMuscleGroup[group] = (setsPerMuscleGroup[group] ?? 0) + exercise.setCount;
+    }
+  }
+
+  return {
+    exerciseCount: exercises.length,
+    totalSetCount: sum(exercises, (e) => e.setCount),
+    totalReps: sum(exercises, (e) => e.reps),
+    tonnage: {
+      lbs: sum(exercises, (e) => e.tonnage.lbs),
+      kg: sum(exercises, (e) => e.tonnage.kg),
+    },
+    timeUnderLoadSeconds: sum(exercises, (e) => e.timeUnderLoadSeconds),
+    totalRestSeconds: sum(exercises, (e) => e.restSeconds),
+    setsPerMuscleGroup,
+    unknownExercises,
+    exercises,
+  };
+}
+
+// MARK: - Helpers
+
+function analyzeExercise(
+  exercise: PlannedExercise,
+  defaultWeightUnit: WeightUnit | null,
+  dictionary: ExerciseDictionary
+): ExerciseAnalysis {
+  const tonnage: Tonnage = { lbs: 0, kg: 0 };
+  for (const set of exercise.sets) {
+    const unit = set.targetWeightUnit ?? defaultWeightUnit;
+    if (set.targetWeight != null && set.targetReps != null && unit != null) {
+      tonnage[unit] += set.targetWeight * set.targetReps;
+    }
+  }
+
+  return {
+    name: exercise.exerciseName,
+    setCount: exercise.sets.length,
+    reps: sum(exercise.sets, (s) => (s.isAmrap ? 0 : s.targetReps ?? 0)),
+    tonnage,
+    timeUnderLoadSeconds: sum(exercise.sets, (s) => (s.targetTime ?? 0) * (s.isPerSide ? 2 : 1)),
+    restSeconds: sum(exercise.sets, (s) => s.restSeconds ?? 0),
+    muscleGroups: muscleGroupsFor(exercise, dictionary),
+  };
+}
+
+function muscleGroupsFor(exercise: PlannedExercise, dictionary: ExerciseDictionary): string[] {
+  if (exercise.muscleGroups != null) return exercise.muscleGroups;
+  return resolveExerciseName(dictionary, exercise.exerciseName)?.definition.muscleGroups ?? [];
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
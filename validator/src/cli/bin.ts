@@ -0,0 +1,3 @@
+import { runCli } from './index.js';
+
+process.exitCode = runCli(process.argv.slice(2));
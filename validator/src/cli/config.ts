@@ -0,0 +1,43 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { parseRulesConfig } from '../rules/index.js';
+import type { RulesConfig } from '../rules/index.js';
+
+const CONFIG_FILE_NAME = '.lmwfrc';
+
+/**
+ * Rule settings for a workout file from the nearest `.lmwfrc` in its directory
+ * or above, a JSON file like `{ "rules": { "HIGH_REPS": ["warning", { "max": 200 }] } }`.
+ * Returns no settings when there is no config file, or an error message naming
+ * the file when it is malformed.
+ */
+export function loadRulesConfig(file: string): RulesConfig | string {
+  for (let dir = resolve(dirname(file)); ; dir = dirname(dir)) {
+    const path = join(dir, CONFIG_FILE_NAME);
+    let text: string | null = null;
+    try {
+      text = readFileSync(path, 'utf-8');
+    } catch {
+      // Keep looking in the parent directory
+    }
+    if (text != null) return parseConfigFile(path, text);
+    if (dirname(dir) === dir) return {};
+  }
+}
+
+function parseConfigFile(path: string, text: string): RulesConfig | string {
+  let config: unknown;
+  try {
+    config = JSON.parse(text);
+  } catch {
+    return `${path}: not valid JSON`;
+  }
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) return `${path}: must be a JSON object`;
+
+  const { rules, ...rest } = config as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) return `${path}: unknown setting "${unknown[0]}"`;
+  if (rules === undefined) return {};
+  const parsed = parseRulesConfig(rules);
+  return typeof parsed === 'string' ? `${path}: ${parsed}` : parsed;
+}
@@ -0,0 +1,72 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { convertExport } from '../importer/index.js';
+import type { ExportFormat } from '../importer/index.js';
+import type { CliIO } from './index.js';
+
+const USAGE = `Usage: lmwf convert [options] <export.json>
+
+Converts a LiftMark JSON export into one LMWF workout log per session.
+  --out-dir <dir>      Write each log to <dir>/workout-<name>-<date>.md instead of printing them
+  --single, --multi, --unified
+                       Validate against this export schema instead of detecting it
+`;
+
+const FORMAT_FLAGS: Record<string, ExportFormat> = { '--single': 'single', '--multi': 'multi', '--unified': 'unified' };
+
+export function runConvert(args: string[], io: CliIO): number {
+  const files: string[] = [];
+  let outDir: string | null = null;
+  let format: ExportFormat | undefined;
+  let problem: string | null = null;
+
+  for (let i = 0; i < args.length && !problem; i++) {
+    const arg = args[i];
+    if (arg in FORMAT_FLAGS) {
+      if (format) problem = 'choose one of --single, --multi and --unified';
+      format = FORMAT_FLAGS[arg];
+    } else if (arg === '--out-dir') {
+      outDir = args[++i] ?? null;
+      if (outDir == null) problem = '--out-dir needs a value';
+    } else if (arg.startsWith('-')) {
+      problem = `unknown option ${arg}`;
+    } else {
+      files.push(arg);
+    }
+  }
+
+  if (problem || files.length !== 1) {
+    if (problem) io.stderr(`lmwf convert: ${problem}\n`);
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(files[0], 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof SyntaxError ? 'is not valid JSON' : 'cannot be read';
+    io.stderr(`lmwf convert: ${files[0]} ${reason}\n`);
+    return 2;
+  }
+
+  const result = convertExport(data, { format });
+  io.stderr(result.warnings.map((warning) => `${files[0]}: warning: ${warning}\n`).join(''));
+  if (!result.success) {
+    io.stderr(result.errors.map((error) => `${files[0]}: ${error}\n`).join(''));
+    return 1;
+  }
+
+  if (outDir == null) {
+    io.stdout(result.sessions.map((session) => session.markdown).join('\n'));
+    return 0;
+  }
+
+  mkdirSync(outDir, { recursive: true });
+  for (const session of result.sessions) {
+    const path = join(outDir, session.fileName);
+    writeFileSync(path, session.markdown);
+    io.stdout(`${path}\n`);
+  }
+  return 0;
+}
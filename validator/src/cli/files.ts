@@ -0,0 +1,114 @@
+import { readdirSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+
+const GLOB_CHARS = /[*?{]/;
+
+export interface ExpandedFiles {
+  files: string[];
+  /** Arguments that matched no files */
+  unmatched: string[];
+}
+
+/**
+ * Expands file arguments for commands that take many files. Globs (`*`, `?`,
+ * `**` and `{a,b}`) are expanded here so quoted patterns work the same in every
+ * shell and in CI; directories stand for the `.md` files under them. Dot
+ * directories and `node_modules` are not searched. Plain file paths are kept
+ * as given, whether or not they exist, so the caller can report them.
+ */
+export function expandFileArgs(args: string[]): ExpandedFiles {
+  const files = new Set<string>();
+  const unmatched: string[] = [];
+
+  for (const arg of args) {
+    let matches: string[];
+    if (GLOB_CHARS.test(arg)) {
+      matches = expandGlob(arg);
+    } else if (isDirectory(arg)) {
+      matches = walk(arg).filter((file) => file.endsWith('.md'));
+    } else {
+      matches = [arg];
+    }
+    if (matches.length === 0) unmatched.push(arg);
+    for (const match of matches) files.add(match);
+  }
+
+  return { files: [...files], unmatched };
+}
+
+// MARK: - Globs
+
+function expandGlob(pattern: string): string[] {
+  const segments = pattern.split('/');
+  const firstMagic = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstMagic).join('/');
+  const matcher = globToRegExp(segments.slice(firstMagic).join('/'));
+  const root = base === '' && pattern.startsWith('/') ? '/' : base || '.';
+
+  if (!isDirectory(root)) return [];
+  return walk(root)
+    .filter((file) => matcher.test(relativeTo(root, file)))
+    .map((file) => (base === '' && !pattern.startsWith('/') ? relativeTo('.', file) : file));
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end < 0) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// MARK: - File System
+
+/// Every file under a directory, depth first in name order.
+function walk(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.') && entry.name !== 'node_modules') files.push(...walk(path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function relativeTo(root: string, file: string): string {
+  if (root === '.') return file.replace(/^\.\//, '');
+  return file.slice(root.replace(/\/$/, '').length + 1);
+}
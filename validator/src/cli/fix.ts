@@ -0,0 +1,69 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fixWorkout } from '../fixer/index.js';
+import { loadRulesConfig } from './config.js';
+import { expandFileArgs } from './files.js';
+import type { CliIO } from './index.js';
+import { formatDiagnostic } from './validate.js';
+
+const USAGE = `Usage: lmwf fix [--write] <files/globs...>
+
+Applies the fixes lmwf knows for common mistakes (unit spellings, sets without
+reps, standalone AMRAP, deprecated @rpe and @tempo). Without --write, prints the
+fixed file to stdout (single file only). Errors left after fixing are listed on
+stderr and exit 1.
+  --write   Rewrite files in place
+`;
+
+export function runFix(args: string[], io: CliIO): number {
+  const write = args.includes('--write');
+  const unknown = args.filter((a) => a.startsWith('-') && a !== '--write');
+  const patterns = args.filter((a) => !a.startsWith('-'));
+
+  if (unknown.length > 0 || patterns.length === 0) {
+    if (unknown.length > 0) io.stderr(`lmwf fix: unknown option ${unknown[0]}\n`);
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  const { files, unmatched } = expandFileArgs(patterns);
+  if (unmatched.length > 0) {
+    io.stderr(`lmwf fix: no files match ${unmatched[0]}\n`);
+    return 2;
+  }
+  if (!write && files.length > 1) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  let errorCount = 0;
+  for (const file of files) {
+    let source: string;
+    try {
+      source = readFileSync(file, 'utf-8');
+    } catch {
+      io.stderr(`lmwf fix: cannot read ${file}\n`);
+      return 2;
+    }
+    const rules = loadRulesConfig(file);
+    if (typeof rules === 'string') {
+      io.stderr(`lmwf fix: ${rules}\n`);
+      return 2;
+    }
+
+    const result = fixWorkout(source, { rules });
+    if (!write) {
+      io.stdout(result.markdown);
+    } else if (result.applied.length > 0) {
+      writeFileSync(file, result.markdown);
+      io.stdout(`fixed ${file} (${result.applied.length} fix${result.applied.length === 1 ? '' : 'es'})\n`);
+    }
+
+    for (const diagnostic of result.diagnostics) {
+      if (diagnostic.severity !== 'error') continue;
+      io.stderr(`${formatDiagnostic(file, diagnostic)}\n`);
+      errorCount += 1;
+    }
+  }
+
+  return errorCount > 0 ? 1 : 0;
+}
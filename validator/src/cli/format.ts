@@ -0,0 +1,66 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { formatWorkout } from '../formatter/index.js';
+import { expandFileArgs } from './files.js';
+import type { CliIO } from './index.js';
+
+const USAGE = `Usage: lmwf format [--write | --check] <files/globs...>
+
+Without flags, prints the formatted file to stdout (single file only).
+  --write   Rewrite files in place
+  --check   Exit 1 if any file is not formatted
+`;
+
+export function runFormat(args: string[], io: CliIO): number {
+  const write = args.includes('--write');
+  const check = args.includes('--check');
+  const unknown = args.filter((a) => a.startsWith('-') && a !== '--write' && a !== '--check');
+  const patterns = args.filter((a) => !a.startsWith('-'));
+
+  if (unknown.length > 0 || patterns.length === 0 || (write && check)) {
+    if (unknown.length > 0) io.stderr(`lmwf format: unknown option ${unknown[0]}\n`);
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  const { files, unmatched } = expandFileArgs(patterns);
+  if (unmatched.length > 0) {
+    io.stderr(`lmwf format: no files match ${unmatched[0]}\n`);
+    return 2;
+  }
+  if (!write && !check && files.length > 1) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  let unformatted = 0;
+  for (const file of files) {
+    let source: string;
+    try {
+      source = readFileSync(file, 'utf-8');
+    } catch {
+      io.stderr(`lmwf format: cannot read ${file}\n`);
+      return 2;
+    }
+
+    const formatted = formatWorkout(source);
+    if (write) {
+      if (formatted !== source) {
+        writeFileSync(file, formatted);
+        io.stdout(`formatted ${file}\n`);
+      }
+    } else if (check) {
+      if (formatted !== source) {
+        io.stdout(`${file}\n`);
+        unformatted += 1;
+      }
+    } else {
+      io.stdout(formatted);
+    }
+  }
+
+  if (check && unformatted > 0) {
+    io.stderr(`${unformatted} file${unformatted === 1 ? '' : 's'} not formatted. Run "lmwf format --write" to fix.\n`);
+    return 1;
+  }
+  return 0;
+}
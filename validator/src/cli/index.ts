@@ -0,0 +1,57 @@
+import { runConvert } from './convert.js';
+import { runFix } from './fix.js';
+import { runFormat } from './format.js';
+import { runLsp } from './lsp.js';
+import { runPeriodize } from './periodize.js';
+import { runValidate } from './validate.js';
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const USAGE = `Usage: lmwf <command> [options] <files...>
+
+Commands:
+  convert   Convert a LiftMark JSON export into LMWF workout logs
+  fix       Correct common mistakes in LMWF workout files (--write to rewrite)
+  format    Normalize LMWF workout files (--write to rewrite, --check to verify)
+  lsp       Run the language server over stdio
+  periodize Build a multi-week program from a workout template
+  validate  Check LMWF workout files offline (human, JSON, JUnit or SARIF output)
+`;
+
+export const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Runs the `lmwf` command line and returns the process exit code.
+ */
+export function runCli(argv: string[], io: CliIO = defaultIO): number {
+  const [command, ...args] = argv;
+
+  switch (command) {
+    case 'convert':
+      return runConvert(args, io);
+    case 'fix':
+      return runFix(args, io);
+    case 'format':
+      return runFormat(args, io);
+    case 'lsp':
+      return runLsp(args, io);
+    case 'periodize':
+      return runPeriodize(args, io);
+    case 'validate':
+      return runValidate(args, io);
+    case undefined:
+    case '-h':
+    case '--help':
+      io.stdout(USAGE);
+      return command === undefined ? 2 : 0;
+    default:
+      io.stderr(`lmwf: unknown command "${command}"\n\n${USAGE}`);
+      return 2;
+  }
+}
@@ -0,0 +1,24 @@
+import { startStdioServer } from '../lsp/index.js';
+import type { CliIO } from './index.js';
+
+const USAGE = `Usage: lmwf lsp [--stdio]
+
+Runs the LMWF language server over stdin/stdout.
+`;
+
+export function runLsp(args: string[], io: CliIO): number {
+  // Editors commonly pass --stdio; it is the only transport
+  const unknown = args.filter((a) => a !== '--stdio');
+  if (unknown.length > 0) {
+    io.stderr(`lmwf lsp: unknown option ${unknown[0]}\n`);
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  // Let pending output flush rather than calling process.exit
+  startStdioServer(process.stdin, process.stdout, (code) => {
+    process.exitCode = code;
+    process.stdin.destroy();
+  });
+  return 0;
+}
@@ -0,0 +1,71 @@
+import { readFileSync } from 'node:fs';
+import { parseWorkout } from '../parser/index.js';
+import { periodizeWorkout } from '../periodization/index.js';
+import type { PeriodizationScheme } from '../periodization/index.js';
+import type { CliIO } from './index.js';
+
+const USAGE = `Usage: lmwf periodize --scheme <linear|undulating|531|block> [options] <file>
+
+Prints a multi-week program built from the workout in <file>.
+  --scheme <name>      Periodization scheme (required)
+  --weeks <n>          Weeks in the program, deloads included (default 4)
+  --deload-every <n>   Every nth week is a deload, 0 for none (default 4)
+  --json               Print the parsed program as JSON instead of markdown
+`;
+
+const SCHEMES: PeriodizationScheme[] = ['linear', 'undulating', '531', 'block'];
+
+export function runPeriodize(args: string[], io: CliIO): number {
+  const values = new Map<string, string>();
+  const files: string[] = [];
+  let json = false;
+  let problem: string | null = null;
+
+  for (let i = 0; i < args.length && !problem; i++) {
+    const arg = args[i];
+    if (arg === '--json') {
+      json = true;
+    } else if (arg === '--scheme' || arg === '--weeks' || arg === '--deload-every') {
+      const value = args[++i];
+      if (value == null) problem = `${arg} needs a value`;
+      else values.set(arg, value);
+    } else if (arg.startsWith('-')) {
+      problem = `unknown option ${arg}`;
+    } else {
+      files.push(arg);
+    }
+  }
+
+  const scheme = values.get('--scheme') as PeriodizationScheme | undefined;
+  const weeks = values.has('--weeks') ? Number(values.get('--weeks')) : undefined;
+  const deloadEvery = values.has('--deload-every') ? Number(values.get('--deload-every')) : undefined;
+  if (!problem && scheme != null && !SCHEMES.includes(scheme)) problem = `unknown scheme "${scheme}"`;
+  if (!problem && weeks != null && !(Number.isInteger(weeks) && weeks > 0)) problem = '--weeks must be a positive whole number';
+  if (!problem && deloadEvery != null && !(Number.isInteger(deloadEvery) && deloadEvery >= 0)) {
+    problem = '--deload-every must be a whole number';
+  }
+
+  if (problem || scheme == null || files.length !== 1) {
+    if (problem) io.stderr(`lmwf periodize: ${problem}\n`);
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(files[0], 'utf-8');
+  } catch {
+    io.stderr(`lmwf periodize: cannot read ${files[0]}\n`);
+    return 2;
+  }
+
+  const parsed = parseWorkout(source);
+  if (!parsed.data) {
+    io.stderr(parsed.errors.map((error) => `${files[0]}: ${error}\n`).join(''));
+    return 1;
+  }
+
+  const { program, markdown } = periodizeWorkout(parsed.data, { scheme, weeks, deloadEvery });
+  io.stdout(json ? `${JSON.stringify(program, null, 2)}\n` : markdown);
+  return 0;
+}
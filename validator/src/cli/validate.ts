@@ -0,0 +1,240 @@
+import { readFileSync } from 'node:fs';
+import { parseWorkout } from '../parser/index.js';
+import type { Diagnostic } from '../parser/types.js';
+import { RULES } from '../rules/index.js';
+import { loadRulesConfig } from './config.js';
+import { expandFileArgs } from './files.js';
+import type { CliIO } from './index.js';
+
+const USAGE = `Usage: lmwf validate [options] <files/globs...>
+
+Validates LMWF workout files offline. Quote globs ("workouts/**/*.md") to have
+lmwf expand them; directories stand for the .md files under them. Rule
+settings come from the nearest .lmwfrc above each file.
+  --format <name>       Output format: human (default), json, junit or sarif
+  --warnings-as-errors  Report warnings as errors
+  --max-warnings <n>    Exit 1 when there are more than n warnings
+`;
+
+type OutputFormat = 'human' | 'json' | 'junit' | 'sarif';
+
+const FORMATS: OutputFormat[] = ['human', 'json', 'junit', 'sarif'];
+
+const INFORMATION_URI = 'https://workoutformat.liftmark.app';
+
+interface FileReport {
+  file: string;
+  diagnostics: Diagnostic[];
+}
+
+export function runValidate(args: string[], io: CliIO): number {
+  const patterns: string[] = [];
+  let format: OutputFormat = 'human';
+  let warningsAsErrors = false;
+  let maxWarnings: number | null = null;
+  let problem: string | null = null;
+
+  for (let i = 0; i < args.length && !problem; i++) {
+    const arg = args[i];
+    if (arg === '--warnings-as-errors') {
+      warningsAsErrors = true;
+    } else if (arg === '--format' || arg === '--max-warnings') {
+      const value = args[++i];
+      if (value == null) {
+        problem = `${arg} needs a value`;
+      } else if (arg === '--format') {
+        if (FORMATS.includes(value as OutputFormat)) format = value as OutputFormat;
+        else problem = `unknown format "${value}"`;
+      } else {
+        maxWarnings = Number(value);
+        if (!(Number.isInteger(maxWarnings) && maxWarnings >= 0)) problem = '--max-warnings must be a whole number';
+      }
+    } else if (arg.startsWith('-')) {
+      problem = `unknown option ${arg}`;
+    } else {
+      patterns.push(arg);
+    }
+  }
+
+  if (problem || patterns.length === 0) {
+    if (problem) io.stderr(`lmwf validate: ${problem}\n`);
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  const { files, unmatched } = expandFileArgs(patterns);
+  if (unmatched.length > 0) {
+    io.stderr(`lmwf validate: no files match ${unmatched[0]}\n`);
+    return 2;
+  }
+
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    let source: string;
+    try {
+      source = readFileSync(file, 'utf-8');
+    } catch {
+      io.stderr(`lmwf validate: cannot read ${file}\n`);
+      return 2;
+    }
+
+    const rules = loadRulesConfig(file);
+    if (typeof rules === 'string') {
+      io.stderr(`lmwf validate: ${rules}\n`);
+      return 2;
+    }
+
+    const diagnostics = parseWorkout(source, { rules }).diagnostics;
+    reports.push({
+      file,
+      diagnostics: warningsAsErrors ? diagnostics.map((d) => ({ ...d, severity: 'error' as const })) : diagnostics,
+    });
+  }
+
+  const errorCount = count(reports, 'error');
+  const warningCount = count(reports, 'warning');
+  switch (format) {
+    case 'human': io.stdout(formatHuman(reports, errorCount, warningCount)); break;
+    case 'json': io.stdout(`${JSON.stringify({ errorCount, warningCount, files: reports.map(toJsonReport) }, null, 2)}\n`); break;
+    case 'junit': io.stdout(formatJUnit(reports)); break;
+    case 'sarif': io.stdout(`${JSON.stringify(toSarif(reports), null, 2)}\n`); break;
+  }
+
+  if (maxWarnings != null && warningCount > maxWarnings) {
+    io.stderr(`lmwf validate: too many warnings (${warningCount}, max ${maxWarnings})\n`);
+    return 1;
+  }
+  return errorCount > 0 ? 1 : 0;
+}
+
+function count(reports: FileReport[], severity: Diagnostic['severity']): number {
+  return reports.reduce((total, report) => total + report.diagnostics.filter((d) => d.severity === severity).length, 0);
+}
+
+function plural(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? '' : 's'}`;
+}
+
+/// `file:line:column` as compilers print it; issues not tied to a line point at the file.
+function location(file: string, diagnostic: Diagnostic): string {
+  if (diagnostic.line === 0) return file;
+  return diagnostic.startColumn > 0 ? `${file}:${diagnostic.line}:${diagnostic.startColumn}` : `${file}:${diagnostic.line}`;
+}
+
+// MARK: - Human
+
+/// One line per diagnostic: `file:line:column: severity: message [CODE]`.
+export function formatDiagnostic(file: string, diagnostic: Diagnostic): string {
+  return `${location(file, diagnostic)}: ${diagnostic.severity}: ${diagnostic.message} [${diagnostic.code}]`;
+}
+
+function formatHuman(reports: FileReport[], errorCount: number, warningCount: number): string {
+  let output = '';
+  for (const { file, diagnostics } of reports) {
+    for (const d of diagnostics) output += `${formatDiagnostic(file, d)}\n`;
+  }
+
+  const fileCount = plural(reports.length, 'file');
+  if (errorCount === 0 && warningCount === 0) return `${output}${fileCount} valid\n`;
+  return `${output}${plural(errorCount, 'error')} and ${plural(warningCount, 'warning')} in ${fileCount}\n`;
+}
+
+// MARK: - JSON
+
+function toJsonReport({ file, diagnostics }: FileReport) {
+  return {
+    file,
+    success: diagnostics.every((d) => d.severity !== 'error'),
+    diagnostics: diagnostics.map(({ code, severity, line, startColumn, endColumn, message }) => (
+      { code, severity, line, startColumn, endColumn, message }
+    )),
+  };
+}
+
+// MARK: - JUnit
+
+/// One test case per file, failing when the file has errors; warnings are listed in its output.
+function formatJUnit(reports: FileReport[]): string {
+  const failures = reports.filter((report) => report.diagnostics.some((d) => d.severity === 'error')).length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="lmwf" tests="${reports.length}" failures="${failures}">`,
+    `  <testsuite name="lmwf validate" tests="${reports.length}" failures="${failures}">`,
+  ];
+
+  for (const { file, diagnostics } of reports) {
+    const errors = diagnostics.filter((d) => d.severity === 'error');
+    const warnings = diagnostics.filter((d) => d.severity === 'warning');
+    const describe = (d: Diagnostic) => escapeXml(`${location(file, d)}: ${d.message} [${d.code}]`);
+
+    if (errors.length === 0 && warnings.length === 0) {
+      lines.push(`    <testcase classname="lmwf" name="${escapeXml(file)}"/>`);
+      continue;
+    }
+    lines.push(`    <testcase classname="lmwf" name="${escapeXml(file)}">`);
+    if (errors.length > 0) {
+      lines.push(`      <failure message="${escapeXml(`${plural(errors.length, 'error')}: ${errors[0].message}`)}" type="${errors[0].code}">`);
+      lines.push(...errors.map(describe), '      </failure>');
+    }
+    if (warnings.length > 0) {
+      lines.push('      <system-out>', ...warnings.map((d) => `warning: ${describe(d)}`), '      </system-out>');
+    }
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// MARK: - SARIF
+
+/// A SARIF 2.1.0 log, the format GitHub code scanning and most CI annotators read.
+function toSarif(reports: FileReport[]) {
+  const codes = [...new Set(reports.flatMap((report) => report.diagnostics.map((d) => d.code)))].sort();
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'lmwf',
+            informationUri: INFORMATION_URI,
+            rules: codes.map((id) => {
+              const rule = RULES.find((r) => r.id === id);
+              return { id, ...(rule && { shortDescription: { text: rule.description } }) };
+            }),
+          },
+        },
+        results: reports.flatMap(({ file, diagnostics }) => diagnostics.map((d) => ({
+          ruleId: d.code,
+          level: d.severity,
+          message: { text: d.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: file.replace(/\\/g, '/') },
+                ...(d.line > 0 && {
+                  region: {
+                    startLine: d.line,
+                    ...(d.startColumn > 0 && { startColumn: d.startColumn, endColumn: d.endColumn }),
+                  },
+                }),
+              },
+            },
+          ],
+        }))),
+      },
+    ],
+  };
+}
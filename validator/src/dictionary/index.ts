@@ -0,0 +1,106 @@
+import definitions from '../data/exercise-dictionary.json' with { type: 'json' };
+
+export type ExerciseCategory = 'compound' | 'isolation' | 'bodyweight' | 'cardio';
+
+/** One entry of spec/data/exercise-dictionary.json */
+export interface ExerciseDefinition {
+  canonical: string;
+  /** Lowercase naming variants */
+  aliases: string[];
+  muscleGroups: string[];
+  category: ExerciseCategory;
+}
+
+export interface ExerciseDictionary {
+  definitions: ExerciseDefinition[];
+  /** Finds the definition whose canonical name or alias matches, ignoring case and spacing */
+  lookup(name: string): ExerciseDefinition | null;
+  /** Canonical names within a small edit distance of `name`, closest first */
+  suggest(name: string, limit?: number): string[];
+}
+
+// Bracketed qualifiers such as "Bench Press [barbell]" or "Squat (paused)" are kept but not looked up
+const QUALIFIER_PATTERN = /^(.*?)\s*([[(][^\])]*[\])])$/;
+
+// MARK: - Public API
+
+/// Builds lookup tables for a set of definitions; defaults to the bundled dictionary.
+export function createExerciseDictionary(entries: ExerciseDefinition[] = definitions as ExerciseDefinition[]): ExerciseDictionary {
+  const byName = new Map<string, ExerciseDefinition>();
+  for (const definition of entries) {
+    byName.set(normalizeName(definition.canonical), definition);
+    for (const alias of definition.aliases) {
+      const key = normalizeName(alias);
+      // The first definition to claim a name wins, matching the app's lookup
+      if (!byName.has(key)) byName.set(key, definition);
+    }
+  }
+
+  return {
+    definitions: entries,
+    lookup: (name) => byName.get(normalizeName(name)) ?? null,
+    suggest: (name, limit = 3) => suggestNames(normalizeName(name), byName, limit),
+  };
+}
+
+/** The bundled exercise dictionary */
+export const exerciseDictionary = createExerciseDictionary();
+
+/**
+ * Resolves an exercise name to its definition, keeping a trailing bracketed
+ * qualifier: "bb rdl (paused)" resolves to "Romanian Deadlift (paused)".
+ */
+export function resolveExerciseName(
+  dictionary: ExerciseDictionary,
+  name: string
+): { definition: ExerciseDefinition; name: string } | null {
+  const exact = dictionary.lookup(name);
+  if (exact) return { definition: exact, name: exact.canonical };
+
+  const qualified = name.trim().match(QUALIFIER_PATTERN);
+  if (!qualified || qualified[1].length === 0) return null;
+  const base = dictionary.lookup(qualified[1]);
+  return base ? { definition: base, name: `${base.canonical} ${qualified[2]}` } : null;
+}
+
+/// Stable id derived from the canonical name, e.g. "Romanian Deadlift" -> "romanian-deadlift".
+export function canonicalIdFor(definition: ExerciseDefinition): string {
+  return definition.canonical.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// MARK: - Helpers
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function suggestNames(name: string, byName: Map<string, ExerciseDefinition>, limit: number): string[] {
+  // Allow roughly one typo per three characters, but at least two
+  const maxDistance = Math.max(2, Math.floor(name.length * 0.3));
+  const best = new Map<string, number>();
+  for (const [key, definition] of byName) {
+    const distance = editDistance(name, key);
+    if (distance > maxDistance) continue;
+    const previous = best.get(definition.canonical);
+    if (previous == null || distance < previous) best.set(definition.canonical, distance);
+  }
+  return [...best.entries()]
+    .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([canonical]) => canonical);
+}
+
+/// Levenshtein distance with a single rolling row.
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = a[i - 1] === b[j - 1] ? diagonal : 1 + Math.min(diagonal, above, row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
@@ -0,0 +1,280 @@
+import type { OneRepMax, PlannedExercise, PlannedSet, WorkoutPlan } from '../parser/types.js';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type SetChange =
+  | { change: 'added'; index: number; after: PlannedSet }
+  | { change: 'removed'; index: number; before: PlannedSet }
+  | { change: 'modified'; index: number; before: PlannedSet; after: PlannedSet; fields: FieldChange[] };
+
+/** `path` is the names of enclosing groups and the exercise, as in the newer workout when it has one */
+export type ExerciseChange =
+  | { change: 'added'; path: string[]; after: PlannedExercise }
+  | { change: 'removed'; path: string[]; before: PlannedExercise }
+  | {
+      change: 'modified';
+      path: string[];
+      before: PlannedExercise;
+      after: PlannedExercise;
+      fields: FieldChange[];
+      sets: SetChange[];
+    };
+
+export interface WorkoutDiff {
+  hasChanges: boolean;
+  /** Workout name, description, tags, units and one-rep maxes */
+  metadata: FieldChange[];
+  /** Changed exercises only, in workout order with removals where they used to be */
+  exercises: ExerciseChange[];
+  /** One line per change, e.g. "Bench Press set 3: 225×5 → 235×5, rest 120s → 180s" */
+  summary: string[];
+}
+
+interface ExerciseNode {
+  exercise: PlannedExercise;
+  children: ExerciseNode[];
+}
+
+const METADATA_FIELDS = ['name', 'description', 'tags', 'defaultWeightUnit'] as const;
+
+const EXERCISE_FIELDS = ['exerciseName', 'notes', 'equipmentType', 'groupType'] as const;
+
+// Shown together as the set's load, e.g. "225×5"
+const LOAD_FIELDS = [
+  'targetWeight', 'targetWeightUnit', 'targetPercentage', 'percentageOf', 'targetReps', 'targetRepsMin',
+  'targetRepsMax', 'isAmrap', 'targetTime', 'targetDistance', 'targetDistanceUnit',
+] as const;
+
+const SET_FIELDS = [...LOAD_FIELDS, 'targetRpe', 'restSeconds', 'tempo', 'isDropset', 'isPerSide', 'notes'] as const;
+
+// MARK: - Public API
+
+/**
+ * Compares two versions of a workout. Exercises are matched among their
+ * siblings (top level, or within the same superset or section): first by name,
+ * case-insensitively and in order, then by position, which reads as a rename.
+ * Sets are compared by position. Ids and timestamps are ignored.
+ */
+export function diffWorkouts(a: WorkoutPlan, b: WorkoutPlan): WorkoutDiff {
+  const metadata = [
+    ...METADATA_FIELDS.flatMap((field) => fieldChange(field, a[field], b[field])),
+    ...oneRepMaxChanges(a.oneRepMaxes, b.oneRepMaxes),
+  ];
+  const exercises = diffSiblings(buildTree(a.exercises), buildTree(b.exercises), []);
+  const summary = [
+    ...metadata.map(describeMetadataChange),
+    ...exercises.flatMap(describeExerciseChange),
+  ];
+  return { hasChanges: summary.length > 0, metadata, exercises, summary };
+}
+
+// MARK: - Matching
+
+function buildTree(exercises: PlannedExercise[]): ExerciseNode[] {
+  const nodes = new Map(exercises.map((exercise) => [exercise.id, { exercise, children: [] as ExerciseNode[] }]));
+  const roots: ExerciseNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.exercise.parentExerciseId == null ? undefined : nodes.get(node.exercise.parentExerciseId);
+    (parent?.children ?? roots).push(node);
+  }
+  return roots;
+}
+
+function diffSiblings(before: ExerciseNode[], after: ExerciseNode[], parentPath: string[]): ExerciseChange[] {
+  const matchOf = new Map<ExerciseNode, ExerciseNode>();
+  const matched = new Set<ExerciseNode>();
+  const pair = (b: ExerciseNode, a: ExerciseNode): void => {
+    matchOf.set(a, b);
+    matched.add(b);
+  };
+
+  for (const node of after) {
+    const name = node.exercise.exerciseName.toLowerCase();
+    const candidate = before.find((b) => !matched.has(b) && b.exercise.exerciseName.toLowerCase() === name);
+    if (candidate) pair(candidate, node);
+  }
+  after.forEach((node, index) => {
+    const candidate = before[index];
+    if (!matchOf.has(node) && candidate && !matched.has(candidate)) pair(candidate, node);
+  });
+
+  const changes: ExerciseChange[] = [];
+  let nextBefore = 0;
+  const flushRemoved = (upTo: number): void => {
+    for (; nextBefore < upTo; nextBefore++) {
+      const node = before[nextBefore];
+      if (!matched.has(node)) changes.push(...removed(node, parentPath));
+    }
+  };
+
+  for (const node of after) {
+    const previous = matchOf.get(node);
+    if (!previous) {
+      changes.push(...added(node, parentPath));
+      continue;
+    }
+    const previousIndex = before.indexOf(previous);
+    flushRemoved(previousIndex);
+    nextBefore = Math.max(nextBefore, previousIndex + 1);
+    changes.push(...diffMatched(previous, node, parentPath));
+  }
+  flushRemoved(before.length);
+
+  return changes;
+}
+
+function diffMatched(before: ExerciseNode, after: ExerciseNode, parentPath: string[]): ExerciseChange[] {
+  const path = [...parentPath, after.exercise.exerciseName];
+  const fields = EXERCISE_FIELDS.flatMap((field) => fieldChange(field, before.exercise[field], after.exercise[field]));
+  const sets = diffSets(before.exercise.sets, after.exercise.sets);
+  const changes: ExerciseChange[] = fields.length > 0 || sets.length > 0
+    ? [{ change: 'modified', path, before: before.exercise, after: after.exercise, fields, sets }]
+    : [];
+  return [...changes, ...diffSiblings(before.children, after.children, path)];
+}
+
+function added(node: ExerciseNode, parentPath: string[]): ExerciseChange[] {
+  const path = [...parentPath, node.exercise.exerciseName];
+  return [{ change: 'added', path, after: node.exercise }, ...node.children.flatMap((child) => added(child, path))];
+}
+
+function removed(node: ExerciseNode, parentPath: string[]): ExerciseChange[] {
+  const path = [...parentPath, node.exercise.exerciseName];
+  return [{ change: 'removed', path, before: node.exercise }, ...node.children.flatMap((child) => removed(child, path))];
+}
+
+function diffSets(before: PlannedSet[], after: PlannedSet[]): SetChange[] {
+  const changes: SetChange[] = [];
+  for (let index = 0; index < Math.max(before.length, after.length); index++) {
+    const a = before[index];
+    const b = after[index];
+    if (!a) {
+      changes.push({ change: 'added', index, after: b });
+    } else if (!b) {
+      changes.push({ change: 'removed', index, before: a });
+    } else {
+      const fields = SET_FIELDS.flatMap((field) => fieldChange(field, a[field], b[field]));
+      if (fields.length > 0) changes.push({ change: 'modified', index, before: a, after: b, fields });
+    }
+  }
+  return changes;
+}
+
+function oneRepMaxChanges(before: OneRepMax[], after: OneRepMax[]): FieldChange[] {
+  const key = (max: OneRepMax): string => max.exerciseName.toLowerCase();
+  const afterByName = new Map(after.map((max) => [key(max), max]));
+  const beforeByName = new Map(before.map((max) => [key(max), max]));
+  const names = [...new Set([...beforeByName.keys(), ...afterByName.keys()])];
+  return names.flatMap((name) => {
+    const a = beforeByName.get(name) ?? null;
+    const b = afterByName.get(name) ?? null;
+    return fieldChange(`oneRepMax:${(b ?? a)!.exerciseName}`, a && { weight: a.weight, unit: a.unit }, b && { weight: b.weight, unit: b.unit });
+  });
+}
+
+function fieldChange(field: string, before: unknown, after: unknown): FieldChange[] {
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ field, before, after }];
+}
+
+// MARK: - Summary
+
+function describeMetadataChange({ field, before, after }: FieldChange): string {
+  switch (field) {
+    case 'name':
+      return `Name: ${before} → ${after}`;
+    case 'description':
+      return 'Notes changed';
+    case 'tags':
+      return `Tags: ${(before as string[]).join(', ') || 'none'} → ${(after as string[]).join(', ') || 'none'}`;
+    case 'defaultWeightUnit':
+      return `Units: ${before ?? 'none'} → ${after ?? 'none'}`;
+    default: {
+      const max = (value: unknown): string => {
+        const m = value as Pick<OneRepMax, 'weight' | 'unit'> | null;
+        return m ? `${m.weight}${m.unit ? ` ${m.unit}` : ''}` : 'none';
+      };
+      return `1RM ${field.slice('oneRepMax:'.length)}: ${max(before)} → ${max(after)}`;
+    }
+  }
+}
+
+function describeExerciseChange(change: ExerciseChange): string[] {
+  const name = change.path.join(' > ');
+  switch (change.change) {
+    case 'added':
+      return [`Added ${name}`];
+    case 'removed':
+      return [`Removed ${name}`];
+    case 'modified': {
+      const lines = change.fields.map((field) => {
+        if (field.field === 'exerciseName') return `Renamed ${field.before} → ${field.after}`;
+        if (field.field === 'notes') return `${name}: notes changed`;
+        if (field.field === 'equipmentType') return `${name}: equipment ${field.before ?? 'none'} → ${field.after ?? 'none'}`;
+        return `${name}: group type ${field.before ?? 'none'} → ${field.after ?? 'none'}`;
+      });
+      for (const set of change.sets) {
+        const label = `set ${set.index + 1}`;
+        if (set.change === 'added') lines.push(`${name}: added ${label} (${describeLoad(set.after, false)})`);
+        else if (set.change === 'removed') lines.push(`${name}: removed ${label} (${describeLoad(set.before, false)})`);
+        else lines.push(`${name} ${label}: ${describeSetChange(set.before, set.after, set.fields).join(', ')}`);
+      }
+      return lines;
+    }
+  }
+}
+
+function describeSetChange(before: PlannedSet, after: PlannedSet, fields: FieldChange[]): string[] {
+  const parts: string[] = [];
+  if (fields.some((f) => (LOAD_FIELDS as readonly string[]).includes(f.field))) {
+    const showUnit = before.targetWeightUnit !== after.targetWeightUnit;
+    parts.push(`${describeLoad(before, showUnit)} → ${describeLoad(after, showUnit)}`);
+  }
+  for (const { field, before: a, after: b } of fields) {
+    switch (field) {
+      case 'targetRpe':
+        parts.push(`RPE ${a ?? 'none'} → ${b ?? 'none'}`);
+        break;
+      case 'restSeconds':
+        parts.push(`rest ${a != null ? `${a}s` : 'none'} → ${b != null ? `${b}s` : 'none'}`);
+        break;
+      case 'tempo':
+        parts.push(`tempo ${a ?? 'none'} → ${b ?? 'none'}`);
+        break;
+      case 'isDropset':
+        parts.push(b ? 'now a drop set' : 'no longer a drop set');
+        break;
+      case 'isPerSide':
+        parts.push(b ? 'now per side' : 'no longer per side');
+        break;
+      case 'notes':
+        parts.push('notes changed');
+        break;
+    }
+  }
+  return parts;
+}
+
+/// A set's load and amount, e.g. "225×5", "75%×3", "bw×AMRAP", "60s" or "135×8-12".
+function describeLoad(set: PlannedSet, showUnit: boolean): string {
+  const load = set.targetWeight != null
+    ? `${set.targetWeight}${showUnit && set.targetWeightUnit ? ` ${set.targetWeightUnit}` : ''}`
+    : set.targetPercentage != null
+      ? `${set.targetPercentage}%${set.percentageOf ? ` of ${set.percentageOf}` : ''}`
+      : null;
+  const reps = set.isAmrap
+    ? 'AMRAP'
+    : set.targetRepsMax != null
+      ? `${set.targetRepsMin ?? set.targetReps}-${set.targetRepsMax}`
+      : set.targetReps != null ? `${set.targetReps}` : null;
+  const extent = set.targetTime != null
+    ? `${set.targetTime}s`
+    : set.targetDistance != null ? `${set.targetDistance} ${set.targetDistanceUnit ?? 'meters'}` : null;
+
+  if (reps != null) return `${load ?? 'bw'}×${reps}${extent ? ` ${extent}` : ''}`;
+  if (extent != null) return load ? `${load} ${extent}` : extent;
+  return load ?? 'bw';
+}
@@ -0,0 +1,101 @@
+import type { WorkoutPlan, PlannedExercise, PlannedSet } from '../parser/types.js';
+
+export interface EstimateOptions {
+  /** Execution time per rep when a set has no tempo; defaults to 3 seconds */
+  secondsPerRep?: number;
+  /** Reps assumed for AMRAP sets; defaults to 10 */
+  amrapReps?: number;
+}
+
+export interface ExerciseDuration {
+  exerciseId: string;
+  name: string;
+  /** Work plus counted rest; a group's duration is the total of its children */
+  seconds: number;
+}
+
+export interface DurationEstimate {
+  totalSeconds: number;
+  exercises: ExerciseDuration[];
+}
+
+const DEFAULT_SECONDS_PER_REP = 3;
+const DEFAULT_AMRAP_REPS = 10;
+
+// MARK: - Public API
+
+/**
+ * Estimates how long a plan takes to perform.
+ *
+ * Each set contributes its `targetTime`, or its reps times the tempo (or
+ * `secondsPerRep`), doubled for per-side sets, plus its `restSeconds`. Rep
+ * ranges use their midpoint. Superset children are performed round by round, so
+ * only the last exercise in each round rests. Distance sets have no pace and
+ * contribute only their rest.
+ */
+export function estimateDuration(plan: WorkoutPlan, options: EstimateOptions = {}): DurationEstimate {
+  const secondsPerRep = options.secondsPerRep ?? DEFAULT_SECONDS_PER_REP;
+  const amrapReps = options.amrapReps ?? DEFAULT_AMRAP_REPS;
+
+  const byId = new Map(plan.exercises.map((e) => [e.id, e]));
+  const children = new Map<string, PlannedExercise[]>();
+  for (const exercise of plan.exercises) {
+    if (exercise.parentExerciseId == null || !byId.has(exercise.parentExerciseId)) continue;
+    const siblings = children.get(exercise.parentExerciseId) ?? [];
+    siblings.push(exercise);
+    children.set(exercise.parentExerciseId, siblings);
+  }
+
+  const seconds = new Map<string, number>();
+  for (const exercise of plan.exercises) {
+    const parent = exercise.parentExerciseId != null ? byId.get(exercise.parentExerciseId) : undefined;
+    const siblings = parent?.groupType === 'superset' ? children.get(parent.id)! : null;
+    seconds.set(exercise.id, exercise.sets.reduce((total, set, index) => {
+      const rests = siblings == null || restsAfterRound(exercise, siblings, index);
+      return total + workSeconds(set, secondsPerRep, amrapReps) + (rests ? set.restSeconds ?? 0 : 0);
+    }, 0));
+  }
+
+  // Groups take the time of their children, deepest first
+  for (const exercise of [...plan.exercises].reverse()) {
+    const groupChildren = children.get(exercise.id);
+    if (!groupChildren) continue;
+    seconds.set(exercise.id, seconds.get(exercise.id)! + groupChildren.reduce((total, c) => total + seconds.get(c.id)!, 0));
+  }
+
+  return {
+    totalSeconds: plan.exercises
+      .filter((e) => e.parentExerciseId == null || !byId.has(e.parentExerciseId))
+      .reduce((total, e) => total + seconds.get(e.id)!, 0),
+    exercises: plan.exercises.map((e) => ({ exerciseId: e.id, name: e.exerciseName, seconds: seconds.get(e.id)! })),
+  };
+}
+
+// MARK: - Helpers
+
+function workSeconds(set: PlannedSet, secondsPerRep: number, amrapReps: number): number {
+  let seconds = 0;
+  if (set.targetTime != null) {
+    seconds = set.targetTime;
+  } else {
+    const reps = set.isAmrap
+      ? amrapReps
+      : set.targetRepsMax != null
+        ? ((set.targetRepsMin ?? set.targetReps ?? 0) + set.targetRepsMax) / 2
+        : set.targetReps ?? 0;
+    seconds = reps * (tempoSeconds(set.tempo) ?? secondsPerRep);
+  }
+  return set.isPerSide ? seconds * 2 : seconds;
+}
+
+/// Seconds per rep for a tempo such as "3-1-1-0".
+function tempoSeconds(tempo: string | null): number | null {
+  if (tempo == null) return null;
+  return tempo.split('-').reduce((total, phase) => total + Number(phase), 0);
+}
+
+/// Whether `exercise` is the last superset member with a set in round `round`.
+function restsAfterRound(exercise: PlannedExercise, siblings: PlannedExercise[], round: number): boolean {
+  const inRound = siblings.filter((s) => s.sets.length > round);
+  return inRound[inRound.length - 1] === exercise;
+}
@@ -0,0 +1,68 @@
+import { parseWorkout } from '../parser/index.js';
+import type { Diagnostic, DiagnosticEdit, ParseOptions } from '../parser/index.js';
+
+export interface FixResult {
+  /** The markdown with every fix applied */
+  markdown: string;
+  /** Titles of the fixes applied, in order */
+  applied: string[];
+  /** Diagnostics of the fixed markdown */
+  diagnostics: Diagnostic[];
+}
+
+/// Fixes can uncover or replace each other's issues, so the markdown is re-parsed a few times at most.
+const MAX_PASSES = 10;
+
+// MARK: - Public API
+
+/**
+ * Applies the fixes attached to a workout's diagnostics (see `Diagnostic.fix`)
+ * and returns the corrected markdown. Each pass applies the fixes whose edits do
+ * not overlap an earlier fix, then parses again, until no fixes remain.
+ * `options` are passed to the parser, so rules that are off are not fixed.
+ */
+export function fixWorkout(markdown: string, options: ParseOptions = {}): FixResult {
+  const applied: string[] = [];
+  let current = markdown;
+  let diagnostics = parseWorkout(current, options).diagnostics;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const accepted: DiagnosticEdit[] = [];
+    for (const { fix } of diagnostics) {
+      if (!fix || fix.edits.some((edit) => accepted.some((other) => overlaps(edit, other)))) continue;
+      accepted.push(...fix.edits);
+      applied.push(fix.title);
+    }
+    if (accepted.length === 0) break;
+
+    current = applyEdits(current, accepted);
+    diagnostics = parseWorkout(current, options).diagnostics;
+  }
+
+  return { markdown: current, applied, diagnostics };
+}
+
+/**
+ * Applies non-overlapping edits to `markdown`, keeping its line endings. Lines
+ * and columns are 1-based as in diagnostics.
+ */
+export function applyEdits(markdown: string, edits: DiagnosticEdit[]): string {
+  // Line contents at even indices, their line breaks at odd ones
+  const parts = markdown.split(/(\r\n|\r|\n)/);
+  const sorted = [...edits].sort((a, b) => b.line - a.line || b.startColumn - a.startColumn);
+
+  for (const edit of sorted) {
+    const index = (edit.line - 1) * 2;
+    const line = parts[index];
+    if (line == null) continue;
+    parts[index] = line.slice(0, edit.startColumn - 1) + edit.newText + line.slice(edit.endColumn - 1);
+  }
+  return parts.join('');
+}
+
+function overlaps(a: DiagnosticEdit, b: DiagnosticEdit): boolean {
+  if (a.line !== b.line) return false;
+  // Insertions at the same point would be applied in an arbitrary order
+  if (a.startColumn === b.startColumn) return true;
+  return a.startColumn < b.endColumn && b.startColumn < a.endColumn;
+}
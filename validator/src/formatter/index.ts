@@ -0,0 +1,299 @@
+import { preprocessLines, normalizeWeightUnit, normalizeDistanceUnit } from '../parser/index.js';
+import type { ParsedLine } from '../parser/index.js';
+import {
+  WEIGHTED_SET_PATTERN,
+  BODYWEIGHT_SET_PATTERN,
+  DISTANCE_SET_PATTERN,
+  SINGLE_VALUE_SET_PATTERN,
+  PERCENTAGE_SET_PATTERN,
+  REPS_PERCENTAGE_SET_PATTERN,
+  ONE_REP_MAX_PATTERN,
+  SET_SHORTHAND_PATTERN,
+  SHORTHAND_LOAD_PATTERN,
+  SHORTHAND_PERCENTAGE_PATTERN,
+  SHORTHAND_RPE_PATTERN,
+  MAX_SHORTHAND_SETS,
+  MODIFIER_PATTERN,
+  RPE_VALUE_PATTERN,
+  REST_VALUE_PATTERN,
+  TEMPO_VALUE_PATTERN,
+} from '../parser/patterns.js';
+
+// Known modifiers are emitted in this order; anything else keeps its original position after them
+const MODIFIER_ORDER = ['rest', 'dropset', 'perside', 'rpe', 'tempo'];
+
+// MARK: - Public API
+
+/**
+ * Normalizes LMWF markdown without changing what it parses to.
+ *
+ * Headers are shifted so the shallowest one is `#` (structure is relative, so
+ * nesting is unchanged), metadata and set lines get canonical spacing and unit
+ * spellings, and known modifiers are reordered. Freeform notes, unrecognized lines, HTML comments and fenced code blocks are
+ * preserved verbatim apart from trailing whitespace.
+ */
+export function formatWorkout(markdown: string): string {
+  const lines = preprocessLines(markdown);
+  const output: string[] = [];
+  const headerLevels = lines.filter((l) => l.headerLevel != null).map((l) => l.headerLevel!);
+  const levelShift = headerLevels.length > 0 ? Math.min(...headerLevels) - 1 : 0;
+  let inComment = false;
+  let inFence = false;
+
+  for (const line of lines) {
+    const verbatim = line.raw.trimEnd();
+
+    // Comments and code fences are passed through untouched
+    if (inFence || inComment) {
+      output.push(verbatim);
+      if (inFence && line.trimmed.startsWith('```')) inFence = false;
+      if (inComment && line.trimmed.includes('-->')) inComment = false;
+      continue;
+    }
+    if (line.trimmed.startsWith('```')) {
+      inFence = true;
+      output.push(verbatim);
+      continue;
+    }
+    if (line.trimmed.startsWith('<!--')) {
+      inComment = !line.trimmed.includes('-->');
+      output.push(verbatim);
+      continue;
+    }
+
+    if (line.trimmed.length === 0) {
+      // Collapse runs of blank lines and drop leading ones
+      if (output.length > 0 && output[output.length - 1] !== '') output.push('');
+      continue;
+    }
+
+    if (line.headerLevel != null && line.headerText != null) {
+      if (output.length > 0 && output[output.length - 1] !== '') output.push('');
+      output.push(`${'#'.repeat(line.headerLevel - levelShift)} ${line.headerText}`);
+      continue;
+    }
+
+    output.push(formatLine(line));
+  }
+
+  while (output.length > 0 && output[output.length - 1] === '') output.pop();
+  return output.length === 0 ? '' : `${output.join('\n')}\n`;
+}
+
+/**
+ * Normalizes the content of a single set line (without the leading `- `).
+ * Unparseable content is returned unchanged so the parser can still report it.
+ */
+export function formatSetLine(content: string): string {
+  const parts = content.split('@');
+  // Shorthand keeps its load directly after the set count
+  const shorthand = formatShorthand(parts[0].trim(), parts[1]);
+  const main = shorthand ?? formatMainSetContent(parts[0].trim());
+
+  const known = new Map<string, string>();
+  const rest: string[] = [];
+  for (const part of parts.slice(shorthand ? 2 : 1)) {
+    const trimmed = part.trim();
+    if (trimmed.length === 0) continue;
+    const modifier = formatModifier(trimmed);
+    if (modifier && !known.has(modifier.key)) {
+      known.set(modifier.key, modifier.text);
+      if (modifier.remaining) rest.push(modifier.remaining);
+    } else {
+      rest.push(`@${trimmed}`);
+    }
+  }
+
+  const ordered = MODIFIER_ORDER.filter((key) => known.has(key)).map((key) => known.get(key)!);
+  return [main, ...ordered, ...rest].filter((p) => p.length > 0).join(' ');
+}
+
+// MARK: - Lines
+
+function formatLine(line: ParsedLine): string {
+  if (line.isList && line.listContent) {
+    return `- ${formatSetLine(line.listContent)}`;
+  }
+  if (line.isMetadata && line.metadataKey) {
+    return `@${line.metadataKey}: ${formatMetadataValue(line.metadataKey, line.metadataValue ?? '')}`;
+  }
+  return line.trimmed;
+}
+
+function formatMetadataValue(key: string, value: string): string {
+  switch (key) {
+    case 'units':
+      return normalizeWeightUnit(value) ?? value;
+    case 'tags':
+      return value
+        .split(',')
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0)
+        .join(', ');
+    case '1rm': {
+      const match = value.match(ONE_REP_MAX_PATTERN);
+      if (!match) return value;
+      const unit = normalizeWeightUnit(match[3] ?? null);
+      return `${match[1].trim()} = ${formatNumber(match[2])}${unit ? ` ${unit}` : ''}`;
+    }
+    default:
+      return value;
+  }
+}
+
+// MARK: - Set Content
+
+function formatMainSetContent(content: string): string {
+  if (content.toLowerCase() === 'amrap') return content;
+
+  let match = content.match(PERCENTAGE_SET_PATTERN);
+  if (match) {
+    const target = match[2].match(BODYWEIGHT_SET_PATTERN);
+    if (!target) return content;
+    return joinTrailing(`${formatNumber(match[1])}% x ${formatPercentageTarget(target[2], target[3] ?? null)}`, target[4]);
+  }
+
+  match = content.match(REPS_PERCENTAGE_SET_PATTERN);
+  if (match) {
+    return joinTrailing(`${formatNumber(match[2])}% x ${formatPercentageTarget(match[1], null)}`, match[3]);
+  }
+
+  match = content.match(DISTANCE_SET_PATTERN);
+  if (match) {
+    return joinTrailing(`${formatNumber(match[1])} ${normalizeDistanceUnit(match[2])}`, match[3]);
+  }
+
+  match = content.match(WEIGHTED_SET_PATTERN);
+  if (match) {
+    const isBodyweight = match[2]?.toLowerCase() === 'bw';
+    const unit = isBodyweight ? null : normalizeWeightUnit(match[2] ?? null);
+    const load = isBodyweight ? null : `${formatNumber(match[1])}${unit ? ` ${unit}` : ''}`;
+    return joinTrailing(formatTarget(load, match[3], match[4] ?? null, match[5]), match[5]);
+  }
+
+  match = content.match(BODYWEIGHT_SET_PATTERN);
+  if (match) {
+    return joinTrailing(formatTarget(null, match[2], match[3] ?? null, match[4]), match[4]);
+  }
+
+  match = content.match(SINGLE_VALUE_SET_PATTERN);
+  if (match && !(match[2] == null && /^(lbs?|kgs?|kg)\b/i.test(match[3] ?? ''))) {
+    const time = formatTimeUnit(match[2] ?? null);
+    return joinTrailing(`${formatCount(match[1])}${time ?? ''}`, match[3]);
+  }
+
+  return content;
+}
+
+function formatShorthand(mainPart: string, loadPart: string | undefined): string | null {
+  if (loadPart == null) return null;
+  const sets = mainPart.match(SET_SHORTHAND_PATTERN);
+  if (!sets) return null;
+
+  const count = sets[1] != null ? parseInt(sets[1], 10) : 1;
+  if (count < 1 || count > MAX_SHORTHAND_SETS) return null;
+
+  const load = formatShorthandLoad(loadPart.trim());
+  if (load == null) return null;
+  const reps = sets[2].toLowerCase() === 'amrap' ? 'AMRAP' : formatCount(sets[2]);
+  return `${sets[1] != null ? `${count} x ` : ''}${reps} @ ${load}`;
+}
+
+function formatShorthandLoad(load: string): string | null {
+  let match = load.match(SHORTHAND_LOAD_PATTERN);
+  if (match) {
+    const unit = normalizeWeightUnit(match[2] ?? null);
+    const weight = match[3] != null ? 'bw' : `${formatNumber(match[1])}${unit ? ` ${unit}` : ''}`;
+    return joinTrailing(weight, match[4]);
+  }
+
+  match = load.match(SHORTHAND_PERCENTAGE_PATTERN);
+  if (match) {
+    const percentage = `${formatNumber(match[1])}%`;
+    return match[2] != null ? `${percentage} of ${match[2].trim()}` : joinTrailing(percentage, match[3]);
+  }
+
+  match = load.match(SHORTHAND_RPE_PATTERN);
+  if (match) {
+    return joinTrailing(`RPE ${formatNumber(match[1])}`, match[2]);
+  }
+
+  return null;
+}
+
+function formatPercentageTarget(value: string, unit: string | null): string {
+  if (value.toLowerCase() === 'amrap') return 'AMRAP';
+  return `${formatCount(value)}${formatTimeUnit(unit) ?? ''}`;
+}
+
+function formatTarget(load: string | null, value: string, unit: string | null, trailing: string | undefined): string {
+  if (value.toLowerCase() === 'amrap') {
+    return `${load ?? 'bw'} x AMRAP`;
+  }
+  const count = formatCount(value);
+  const time = formatTimeUnit(unit);
+  if (time) {
+    return load ? `${load} x ${count}${time}` : `${count}${time}`;
+  }
+  if (load) return `${load} x ${count}`;
+  // Bare counts would read trailing weight units as an incomplete set
+  return /^(lbs?|kgs?)\b/i.test(trailing ?? '') ? `bw x ${count}` : `${count}`;
+}
+
+function formatModifier(part: string): { key: string; text: string; remaining: string | null } | null {
+  const lower = part.toLowerCase();
+  for (const flag of ['dropset', 'perside']) {
+    if (lower.startsWith(flag)) {
+      return { key: flag, text: `@${flag}`, remaining: part.slice(flag.length).trim() || null };
+    }
+  }
+
+  const match = part.match(MODIFIER_PATTERN);
+  if (!match) return null;
+  const key = match[1].toLowerCase();
+  const value = match[2].trim();
+
+  switch (key) {
+    case 'rest': {
+      const rest = value.match(REST_VALUE_PATTERN);
+      if (!rest) return null;
+      return { key, text: `@rest: ${parseInt(rest[1], 10)}${formatTimeUnit(rest[2] ?? null) ?? 's'}`, remaining: rest[3]?.trim() || null };
+    }
+    case 'rpe': {
+      const rpe = value.match(RPE_VALUE_PATTERN);
+      if (!rpe) return null;
+      return { key, text: `@rpe: ${formatNumber(rpe[1])}`, remaining: rpe[2]?.trim() || null };
+    }
+    case 'tempo': {
+      const tempo = value.match(TEMPO_VALUE_PATTERN);
+      if (!tempo) return null;
+      return { key, text: `@tempo: ${tempo[1]}`, remaining: tempo[2]?.trim() || null };
+    }
+    default:
+      return null;
+  }
+}
+
+// MARK: - Helpers
+
+function formatTimeUnit(unit: string | null): 's' | 'm' | null {
+  if (!unit) return null;
+  const lower = unit.toLowerCase();
+  if (lower.startsWith('s')) return 's';
+  if (lower.startsWith('m')) return 'm';
+  return null;
+}
+
+/// Normalizes a rep/time count or range, e.g. "08-12" to "8-12".
+function formatCount(value: string): string {
+  return value.split('-').map((n) => parseInt(n, 10)).join('-');
+}
+
+function formatNumber(value: string): string {
+  return String(parseFloat(value));
+}
+
+function joinTrailing(target: string, trailing: string | undefined): string {
+  const text = trailing?.trim();
+  return text ? `${target} ${text}` : target;
+}
@@ -1,8 +1,46 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import { parseWorkout } from './parser/index.js';
+import { parseWorkout, parseProgram } from './parser/index.js';
+import type { Diagnostic, WorkoutPlan } from './parser/index.js';
+import { analyzeWorkout } from './analyzer/index.js';
+import { estimateDuration } from './estimator/index.js';
+import { serializeWorkout } from './serializer/index.js';
+import { convertWorkout, WEIGHT_UNITS, DISTANCE_UNITS } from './units/index.js';
+import type { ConvertOptions } from './units/index.js';
+import { MAX_PLATE_TYPES, PLATE_INCREMENT, calculatePlates, formatPlateBreakdown, isBarbellExercise } from './plates/index.js';
+import type { PlateBreakdown, PlateInventory } from './plates/index.js';
+import { diffWorkouts } from './differ/index.js';
+import { resolvePercentages } from './resolver/index.js';
+import { convertExport } from './importer/index.js';
+import { fixWorkout } from './fixer/index.js';
+import { parseRulesConfig } from './rules/index.js';
+import type { ExerciseSource, PlannedExercise, ParseOptions, ParseResult, SourceRange, WeightUnit } from './parser/index.js';
+import type { WorkoutAnalysis } from './analyzer/index.js';
+import type { WorkoutDiff } from './differ/index.js';
+import type { ExportConversion } from './importer/index.js';
 
 interface ValidateRequest {
   markdown: string;
+  targetUnits?: unknown;
+  plates?: unknown;
+  rules?: unknown;
+  fix?: unknown;
+  lenient?: unknown;
+  sourceMap?: unknown;
+}
+
+interface DiffRequest {
+  before: string;
+  after: string;
+}
+
+/** Bar and plates per unit for `plates` annotations; omitted units use the standard set */
+type PlateConfig = Partial<Record<WeightUnit, { barWeight?: number; plates?: PlateInventory }>>;
+
+interface SetPlateLoading extends PlateBreakdown {
+  orderIndex: number;
+  targetWeight: number;
+  /** Per-side plates as text, e.g. "2×45lbs + 10lbs" */
+  perSide: string;
 }
 
 interface ExerciseSummary {
@@ -11,9 +49,19 @@ interface ExerciseSummary {
   groupType: string | null;
   groupName: string | null;
   parentExerciseId: string | null;
+  estimatedDurationSeconds: number;
+  /** Barbell sets with a weight, present when `plates` was requested */
+  plateLoading?: SetPlateLoading[];
+  /** Present when `sourceMap` was requested: where the exercise and each of its sets are written */
+  source?: ExerciseSummarySource;
 }
 
-interface ValidateResponse {
+interface ExerciseSummarySource extends ExerciseSource {
+  /** One range per set, in set order */
+  sets: SourceRange[];
+}
+
+export interface ValidateResponse {
   success: boolean;
   summary: {
     workoutName: string;
@@ -21,13 +69,93 @@ interface ValidateResponse {
     tags: string[];
     exerciseCount: number;
     totalSetCount: number;
+    estimatedDurationSeconds: number;
     exercises: ExerciseSummary[];
   } | null;
   errors: string[];
   warnings: string[];
+  diagnostics: Diagnostic[];
+  /** Present when `targetUnits` was requested; null if there is no workout to convert */
+  convertedMarkdown?: string | null;
+  /** Present when `fix` was requested: the markdown with every diagnostic fix applied */
+  fixedMarkdown?: string;
+  /** Present when `lenient` was requested: true when the workout has errors but still has a summary */
+  partial?: boolean;
+}
+
+interface ProgramWorkoutSummary {
+  name: string;
+  week: string | null;
+  exerciseCount: number;
+  setCount: number;
+}
+
+interface ValidateProgramResponse {
+  success: boolean;
+  summary: {
+    programName: string;
+    defaultWeightUnit: string | null;
+    tags: string[];
+    weekCount: number;
+    workoutCount: number;
+    totalSetCount: number;
+    workouts: ProgramWorkoutSummary[];
+  } | null;
+  errors: string[];
+  warnings: string[];
+  diagnostics: Diagnostic[];
+  /** Present when `lenient` was requested: true when the program has errors but still has a summary */
+  partial?: boolean;
+}
+
+interface AnalyzeResponse {
+  success: boolean;
+  summary: (WorkoutAnalysis & {
+    workoutName: string;
+    defaultWeightUnit: string | null;
+    /** Lifts named by percentage sets without a `@1rm`; those sets add no tonnage */
+    unresolvedLifts: string[];
+  }) | null;
+  errors: string[];
+  warnings: string[];
+  diagnostics: Diagnostic[];
+  /** Present when `lenient` was requested: true when the workout has errors but is still analyzed */
+  partial?: boolean;
+}
+
+interface ParseReport {
+  success: boolean;
+  errors: string[];
+  warnings: string[];
+  diagnostics: Diagnostic[];
 }
 
-function makeResponse(statusCode: number, body: ValidateResponse | { error: string }): APIGatewayProxyResultV2 {
+interface DiffResponse {
+  success: boolean;
+  /** Null unless both workouts are valid */
+  diff: WorkoutDiff | null;
+  before: ParseReport;
+  after: ParseReport;
+}
+
+// Input size limits to prevent DoS
+const MAX_INPUT_BYTES = 1_048_576; // 1MB
+const MAX_INPUT_LINES = 50_000;
+const MAX_EXERCISES = 500;
+const MAX_TOTAL_SETS = 10_000;
+
+/** Request options only some routes support, by route; `rules` and `lenient` work everywhere */
+const OPTION_ROUTES: Partial<Record<keyof ValidateRequest, string[]>> = {
+  targetUnits: ['/validate', '/analyze'],
+  plates: ['/validate'],
+  fix: ['/validate'],
+  sourceMap: ['/validate'],
+};
+
+function makeResponse(
+  statusCode: number,
+  body: ValidateResponse | ValidateProgramResponse | AnalyzeResponse | DiffResponse | ExportConversion | { error: string }
+): APIGatewayProxyResultV2 {
   return {
     statusCode,
     headers: {
@@ -41,24 +169,185 @@ function log(entry: Record<string, unknown>): void {
   console.log(JSON.stringify(entry));
 }
 
+/// Checks the optional `targetUnits` request field, returning an error message if it is malformed.
+function parseTargetUnits(value: unknown): ConvertOptions | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'targetUnits must be an object';
+  }
+  const { weight, distance, rounding } = value as Record<string, unknown>;
+  if (weight !== undefined && !WEIGHT_UNITS.includes(weight as never)) {
+    return `targetUnits.weight must be one of: ${WEIGHT_UNITS.join(', ')}`;
+  }
+  if (distance !== undefined && !DISTANCE_UNITS.includes(distance as never)) {
+    return `targetUnits.distance must be one of: ${DISTANCE_UNITS.join(', ')}`;
+  }
+  if (rounding !== undefined && (typeof rounding !== 'number' || !(rounding > 0))) {
+    return 'targetUnits.rounding must be a positive number';
+  }
+  return value as ConvertOptions;
+}
+
+/// Checks the optional `plates` request field: `true` for standard plates, or a bar and inventory per unit.
+function parsePlateConfig(value: unknown): PlateConfig | string {
+  if (value === true) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'plates must be true or an object keyed by unit';
+  }
+  for (const [unit, config] of Object.entries(value)) {
+    if (!WEIGHT_UNITS.includes(unit as WeightUnit)) {
+      return `plates keys must be one of: ${WEIGHT_UNITS.join(', ')}`;
+    }
+    if (typeof config !== 'object' || config === null) {
+      return `plates.${unit} must be an object`;
+    }
+    const { barWeight, plates } = config as Record<string, unknown>;
+    if (barWeight !== undefined && (typeof barWeight !== 'number' || barWeight < 0)) {
+      return `plates.${unit}.barWeight must be a non-negative number`;
+    }
+    const validPlate = (plate: unknown): boolean => {
+      if (typeof plate !== 'object' || plate === null) return false;
+      const { weight, count } = plate as Record<string, unknown>;
+      return typeof weight === 'number' && weight >= PLATE_INCREMENT && Number.isInteger(weight / PLATE_INCREMENT) &&
+        (count === undefined || (typeof count === 'number' && Number.isInteger(count) && count >= 0));
+    };
+    if (plates !== undefined && (!Array.isArray(plates) || !plates.every(validPlate))) {
+      return `plates.${unit}.plates must be a list of { weight, count? } with weights in steps of ${PLATE_INCREMENT}`;
+    }
+    if (Array.isArray(plates) && plates.length > MAX_PLATE_TYPES) {
+      return `plates.${unit}.plates may list at most ${MAX_PLATE_TYPES} plates`;
+    }
+  }
+  return value as PlateConfig;
+}
+
+/// Per-side plates for each weighted set of a barbell exercise.
+function plateLoadingFor(
+  exercise: PlannedExercise,
+  defaultWeightUnit: WeightUnit | null,
+  config: PlateConfig
+): SetPlateLoading[] {
+  if (!isBarbellExercise(exercise.exerciseName, exercise.equipmentType)) return [];
+  return exercise.sets.flatMap((set) => {
+    if (set.targetWeight == null) return [];
+    const unit = set.targetWeightUnit ?? defaultWeightUnit ?? 'lbs';
+    const breakdown = calculatePlates(set.targetWeight, { unit, ...config[unit] });
+    return [{ orderIndex: set.orderIndex, targetWeight: set.targetWeight, ...breakdown, perSide: formatPlateBreakdown(breakdown) }];
+  });
+}
+
+/// The markdown route a request is for; any path not ending in another route is /validate.
+function routeOf(rawPath: string | undefined): string {
+  if (rawPath?.endsWith('/validate-program')) return '/validate-program';
+  if (rawPath?.endsWith('/analyze')) return '/analyze';
+  return '/validate';
+}
+
+function readBody(event: APIGatewayProxyEventV2): string | undefined {
+  return event.isBase64Encoded && event.body
+    ? Buffer.from(event.body, 'base64').toString('utf-8')
+    : event.body ?? undefined;
+}
+
+/// Returns a 413 response when markdown exceeds the size or line limits.
+function checkInputLimits(markdown: string, requestId: string, startTime: number): APIGatewayProxyResultV2 | null {
+  const inputBytes = Buffer.byteLength(markdown, 'utf-8');
+  const lineCount = markdown.split('\n').length;
+
+  if (inputBytes > MAX_INPUT_BYTES) {
+    log({ level: 'warn', requestId, event: 'request_error', status: 413, error: 'Input exceeds maximum size of 1MB', inputBytes, durationMs: Date.now() - startTime });
+    return makeResponse(413, {
+      success: false,
+      summary: null,
+      errors: ['Input exceeds maximum size of 1MB'],
+      warnings: [],
+      diagnostics: [],
+    });
+  }
+
+  if (lineCount > MAX_INPUT_LINES) {
+    log({ level: 'warn', requestId, event: 'request_error', status: 413, error: 'Input exceeds maximum of 50,000 lines', lineCount, durationMs: Date.now() - startTime });
+    return makeResponse(413, {
+      success: false,
+      summary: null,
+      errors: ['Input exceeds maximum of 50,000 lines'],
+      warnings: [],
+      diagnostics: [],
+    });
+  }
+
+  return null;
+}
+
+function countSets(workouts: WorkoutPlan[]): number {
+  return workouts.reduce(
+    (sum, w) => sum + w.exercises.reduce((exerciseSum, ex) => exerciseSum + ex.sets.length, 0),
+    0
+  );
+}
+
+/// Returns a 413 response when parsed workouts exceed the exercise or set limits.
+function checkParsedLimits(
+  subject: 'Workout' | 'Program',
+  workouts: WorkoutPlan[],
+  requestId: string,
+  startTime: number
+): APIGatewayProxyResultV2 | null {
+  const exerciseCount = workouts.reduce((sum, w) => sum + w.exercises.length, 0);
+  const setCount = countSets(workouts);
+
+  if (exerciseCount > MAX_EXERCISES) {
+    log({ level: 'warn', requestId, event: 'request_error', status: 413, error: `${subject} exceeds maximum of ${MAX_EXERCISES} exercises`, exerciseCount, durationMs: Date.now() - startTime });
+    return makeResponse(413, {
+      success: false,
+      summary: null,
+      errors: [`${subject} exceeds maximum of ${MAX_EXERCISES} exercises (found ${exerciseCount})`],
+      warnings: [],
+      diagnostics: [],
+    });
+  }
+
+  if (setCount > MAX_TOTAL_SETS) {
+    log({ level: 'warn', requestId, event: 'request_error', status: 413, error: `${subject} exceeds maximum of ${MAX_TOTAL_SETS} total sets`, setCount, durationMs: Date.now() - startTime });
+    return makeResponse(413, {
+      success: false,
+      summary: null,
+      errors: [`${subject} exceeds maximum of ${MAX_TOTAL_SETS} total sets (found ${setCount})`],
+      warnings: [],
+      diagnostics: [],
+    });
+  }
+
+  return null;
+}
+
 export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
   const startTime = Date.now();
   const requestId = event.requestContext?.requestId ?? 'unknown';
   let markdown: string | undefined;
+  let targetUnits: ConvertOptions | null = null;
+  let plateConfig: PlateConfig | null = null;
+  let parseOptions: ParseOptions = {};
+  let fix = false;
+  let lenient = false;
+  let sourceMap = false;
 
   const contentType = event.headers?.['content-type'] ?? event.headers?.['Content-Type'] ?? '';
 
+  if (event.rawPath?.endsWith('/diff')) {
+    return diff(event, contentType, requestId, startTime);
+  }
+  if (event.rawPath?.endsWith('/convert')) {
+    return convert(event, contentType, requestId, startTime);
+  }
+  const route = routeOf(event.rawPath);
+
   if (contentType.includes('text/markdown')) {
     // Raw markdown body
-    markdown = event.isBase64Encoded && event.body
-      ? Buffer.from(event.body, 'base64').toString('utf-8')
-      : event.body ?? undefined;
+    markdown = readBody(event);
   } else {
     // JSON body
     try {
-      const bodyStr = event.isBase64Encoded && event.body
-        ? Buffer.from(event.body, 'base64').toString('utf-8')
-        : event.body;
+      const bodyStr = readBody(event);
 
       if (!bodyStr) {
         log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'Missing request body', durationMs: Date.now() - startTime });
@@ -71,6 +360,65 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return makeResponse(400, { error: 'markdown field must be a string' });
       }
       markdown = parsed.markdown;
+
+      const unsupported = (Object.keys(OPTION_ROUTES) as (keyof ValidateRequest)[])
+        .find((option) => parsed[option] !== undefined && !OPTION_ROUTES[option]!.includes(route));
+      if (unsupported) {
+        const error = `${unsupported} is not supported by ${route}`;
+        log({ level: 'warn', requestId, event: 'request_error', status: 400, error, durationMs: Date.now() - startTime });
+        return makeResponse(400, { error });
+      }
+
+      if (parsed.targetUnits !== undefined) {
+        const units = parseTargetUnits(parsed.targetUnits);
+        if (typeof units === 'string') {
+          log({ level: 'warn', requestId, event: 'request_error', status: 400, error: units, durationMs: Date.now() - startTime });
+          return makeResponse(400, { error: units });
+        }
+        targetUnits = units;
+      }
+
+      if (parsed.plates !== undefined && parsed.plates !== false) {
+        const config = parsePlateConfig(parsed.plates);
+        if (typeof config === 'string') {
+          log({ level: 'warn', requestId, event: 'request_error', status: 400, error: config, durationMs: Date.now() - startTime });
+          return makeResponse(400, { error: config });
+        }
+        plateConfig = config;
+      }
+
+      if (parsed.rules !== undefined) {
+        const rules = parseRulesConfig(parsed.rules);
+        if (typeof rules === 'string') {
+          log({ level: 'warn', requestId, event: 'request_error', status: 400, error: rules, durationMs: Date.now() - startTime });
+          return makeResponse(400, { error: rules });
+        }
+        parseOptions = { rules };
+      }
+
+      if (parsed.fix !== undefined) {
+        if (typeof parsed.fix !== 'boolean') {
+          log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'fix must be true or false', durationMs: Date.now() - startTime });
+          return makeResponse(400, { error: 'fix must be true or false' });
+        }
+        fix = parsed.fix;
+      }
+
+      if (parsed.lenient !== undefined) {
+        if (typeof parsed.lenient !== 'boolean') {
+          log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'lenient must be true or false', durationMs: Date.now() - startTime });
+          return makeResponse(400, { error: 'lenient must be true or false' });
+        }
+        lenient = parsed.lenient;
+      }
+
+      if (parsed.sourceMap !== undefined) {
+        if (typeof parsed.sourceMap !== 'boolean') {
+          log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'sourceMap must be true or false', durationMs: Date.now() - startTime });
+          return makeResponse(400, { error: 'sourceMap must be true or false' });
+        }
+        sourceMap = parsed.sourceMap;
+      }
     } catch {
       log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'Invalid JSON body', durationMs: Date.now() - startTime });
       return makeResponse(400, { error: 'Invalid JSON body' });
@@ -87,92 +435,134 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
 
   log({ level: 'info', requestId, event: 'request_received', method: event.requestContext?.http?.method ?? 'unknown', contentType, inputBytes, lineCount });
 
-  // Input size limits to prevent DoS
-  const MAX_INPUT_BYTES = 1_048_576; // 1MB
-  const MAX_INPUT_LINES = 50_000;
-  const MAX_EXERCISES = 500;
-  const MAX_TOTAL_SETS = 10_000;
+  const inputLimitResponse = checkInputLimits(markdown, requestId, startTime);
+  if (inputLimitResponse) return inputLimitResponse;
 
-  if (inputBytes > MAX_INPUT_BYTES) {
-    log({ level: 'warn', requestId, event: 'request_error', status: 413, error: 'Input exceeds maximum size of 1MB', inputBytes, durationMs: Date.now() - startTime });
-    return makeResponse(413, {
-      success: false,
-      summary: null,
-      errors: ['Input exceeds maximum size of 1MB'],
-      warnings: [],
-    });
+  if (route === '/validate-program') {
+    return validateProgram(markdown, { ...parseOptions, lenient }, requestId, startTime);
   }
-
-  if (lineCount > MAX_INPUT_LINES) {
-    log({ level: 'warn', requestId, event: 'request_error', status: 413, error: 'Input exceeds maximum of 50,000 lines', lineCount, durationMs: Date.now() - startTime });
-    return makeResponse(413, {
-      success: false,
-      summary: null,
-      errors: ['Input exceeds maximum of 50,000 lines'],
-      warnings: [],
-    });
+  if (route === '/analyze') {
+    return analyze(markdown, targetUnits, { ...parseOptions, lenient }, requestId, startTime);
   }
 
-  const result = parseWorkout(markdown);
+  const result = parseWorkout(markdown, { ...parseOptions, lenient, sourceMap });
 
   if (result.data) {
-    const exerciseCount = result.data.exercises.length;
-    const setCount = result.data.exercises.reduce((sum, ex) => sum + ex.sets.length, 0);
-
-    if (exerciseCount > MAX_EXERCISES) {
-      log({ level: 'warn', requestId, event: 'request_error', status: 413, error: `Workout exceeds maximum of ${MAX_EXERCISES} exercises`, exerciseCount, durationMs: Date.now() - startTime });
-      return makeResponse(413, {
-        success: false,
-        summary: null,
-        errors: [`Workout exceeds maximum of ${MAX_EXERCISES} exercises (found ${exerciseCount})`],
-        warnings: [],
-      });
-    }
-
-    if (setCount > MAX_TOTAL_SETS) {
-      log({ level: 'warn', requestId, event: 'request_error', status: 413, error: `Workout exceeds maximum of ${MAX_TOTAL_SETS} total sets`, setCount, durationMs: Date.now() - startTime });
-      return makeResponse(413, {
-        success: false,
-        summary: null,
-        errors: [`Workout exceeds maximum of ${MAX_TOTAL_SETS} total sets (found ${setCount})`],
-        warnings: [],
-      });
-    }
+    const limitResponse = checkParsedLimits('Workout', [result.data], requestId, startTime);
+    if (limitResponse) return limitResponse;
   }
 
-  const exercises: ExerciseSummary[] = result.data?.exercises.map((ex) => ({
+  const plan = result.data && targetUnits ? convertWorkout(result.data, targetUnits) : result.data;
+  const duration = plan ? estimateDuration(plan) : null;
+
+  const exercises: ExerciseSummary[] = plan?.exercises.map((ex, index) => ({
     name: ex.exerciseName,
     setCount: ex.sets.length,
     groupType: ex.groupType,
     groupName: ex.groupName,
     parentExerciseId: ex.parentExerciseId,
+    estimatedDurationSeconds: duration!.exercises[index].seconds,
+    ...(plateConfig && { plateLoading: plateLoadingFor(ex, plan.defaultWeightUnit, plateConfig) }),
+    ...(sourceMap && ex.source && { source: { ...ex.source, sets: ex.sets.map((set) => set.source!) } }),
   })) ?? [];
 
   const totalSetCount = exercises.reduce((sum, ex) => sum + ex.setCount, 0);
 
   const response: ValidateResponse = {
+    success: result.success,
+    summary: plan
+      ? {
+          workoutName: plan.name,
+          defaultWeightUnit: plan.defaultWeightUnit,
+          tags: plan.tags,
+          exerciseCount: plan.exercises.length,
+          totalSetCount,
+          estimatedDurationSeconds: duration!.totalSeconds,
+          exercises,
+        }
+      : null,
+    errors: result.errors,
+    warnings: result.warnings,
+    diagnostics: result.diagnostics,
+  };
+  if (targetUnits) {
+    response.convertedMarkdown = plan ? serializeWorkout(plan) : null;
+  }
+  if (fix) {
+    response.fixedMarkdown = fixWorkout(markdown, parseOptions).markdown;
+  }
+  if (lenient) {
+    response.partial = result.partial ?? false;
+  }
+
+  log({
+    level: 'info',
+    requestId,
+    event: 'request_complete',
+    status: 200,
+    success: result.success,
+    exerciseCount: exercises.length,
+    totalSetCount,
+    errorCount: result.errors.length,
+    warningCount: result.warnings.length,
+    durationMs: Date.now() - startTime,
+  });
+
+  return makeResponse(200, response);
+}
+
+/// Handles POST /validate-program: the same checks as /validate, applied across every workout.
+function validateProgram(markdown: string, parseOptions: ParseOptions, requestId: string, startTime: number): APIGatewayProxyResultV2 {
+  const result = parseProgram(markdown, parseOptions);
+
+  if (result.data) {
+    const limitResponse = checkParsedLimits('Program', result.data.workouts, requestId, startTime);
+    if (limitResponse) return limitResponse;
+  }
+
+  const weekByWorkoutId = new Map<string, string>();
+  for (const week of result.data?.weeks ?? []) {
+    for (const id of week.workoutIds) weekByWorkoutId.set(id, week.name);
+  }
+
+  const workouts: ProgramWorkoutSummary[] = result.data?.workouts.map((w) => ({
+    name: w.name,
+    week: weekByWorkoutId.get(w.id) ?? null,
+    exerciseCount: w.exercises.length,
+    setCount: countSets([w]),
+  })) ?? [];
+
+  const totalSetCount = workouts.reduce((sum, w) => sum + w.setCount, 0);
+
+  const response: ValidateProgramResponse = {
     success: result.success,
     summary: result.data
       ? {
-          workoutName: result.data.name,
+          programName: result.data.name,
           defaultWeightUnit: result.data.defaultWeightUnit,
           tags: result.data.tags,
-          exerciseCount: result.data.exercises.length,
+          weekCount: result.data.weeks.length,
+          workoutCount: workouts.length,
           totalSetCount,
-          exercises,
+          workouts,
         }
       : null,
     errors: result.errors,
     warnings: result.warnings,
+    diagnostics: result.diagnostics,
   };
+  if (parseOptions.lenient) {
+    response.partial = result.partial ?? false;
+  }
 
   log({
     level: 'info',
     requestId,
     event: 'request_complete',
+    route: 'validate-program',
     status: 200,
     success: result.success,
-    exerciseCount: exercises.length,
+    workoutCount: workouts.length,
     totalSetCount,
     errorCount: result.errors.length,
     warningCount: result.warnings.length,
@@ -181,3 +571,176 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
 
   return makeResponse(200, response);
 }
+
+/// Handles POST /analyze: volume and muscle-group stats for a valid workout, optionally in `targetUnits`.
+function analyze(
+  markdown: string,
+  targetUnits: ConvertOptions | null,
+  parseOptions: ParseOptions,
+  requestId: string,
+  startTime: number
+): APIGatewayProxyResultV2 {
+  const result = parseWorkout(markdown, parseOptions);
+
+  if (result.data) {
+    const limitResponse = checkParsedLimits('Workout', [result.data], requestId, startTime);
+    if (limitResponse) return limitResponse;
+  }
+
+  // Percentage sets only carry a weight once resolved against the plan's `@1rm`
+  const resolved = result.data ? resolvePercentages(result.data) : null;
+  // Converting next lets tonnage from mixed-unit plans land in a single unit
+  const plan = resolved && targetUnits ? convertWorkout(resolved.plan, targetUnits) : resolved?.plan ?? null;
+  const analysis = plan ? analyzeWorkout(plan) : null;
+
+  const response: AnalyzeResponse = {
+    success: result.success,
+    summary: plan && analysis
+      ? {
+          workoutName: plan.name,
+          defaultWeightUnit: plan.defaultWeightUnit,
+          ...analysis,
+          unresolvedLifts: resolved!.unresolved,
+        }
+      : null,
+    errors: result.errors,
+    warnings: result.warnings,
+    diagnostics: result.diagnostics,
+  };
+  if (parseOptions.lenient) {
+    response.partial = result.partial ?? false;
+  }
+
+  log({
+    level: 'info',
+    requestId,
+    event: 'request_complete',
+    route: 'analyze',
+    status: 200,
+    success: result.success,
+    exerciseCount: analysis?.exerciseCount ?? 0,
+    totalSetCount: analysis?.totalSetCount ?? 0,
+    errorCount: result.errors.length,
+    warningCount: result.warnings.length,
+    durationMs: Date.now() - startTime,
+  });
+
+  return makeResponse(200, response);
+}
+
+/// Handles POST /diff: compares the workouts in the `before` and `after` fields of a JSON body.
+function diff(
+  event: APIGatewayProxyEventV2,
+  contentType: string,
+  requestId: string,
+  startTime: number
+): APIGatewayProxyResultV2 {
+  let request: DiffRequest;
+  try {
+    const bodyStr = readBody(event);
+    if (!bodyStr) {
+      log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'Missing request body', durationMs: Date.now() - startTime });
+      return makeResponse(400, { error: 'Missing request body' });
+    }
+    request = JSON.parse(bodyStr) as DiffRequest;
+    if (typeof request.before !== 'string' || typeof request.after !== 'string') {
+      log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'before and after fields must be strings', durationMs: Date.now() - startTime });
+      return makeResponse(400, { error: 'before and after fields must be strings' });
+    }
+  } catch {
+    log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'Invalid JSON body', durationMs: Date.now() - startTime });
+    return makeResponse(400, { error: 'Invalid JSON body' });
+  }
+
+  if (request.before.trim().length === 0 || request.after.trim().length === 0) {
+    log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'Missing or empty before or after field', durationMs: Date.now() - startTime });
+    return makeResponse(400, { error: 'Missing or empty before or after field' });
+  }
+
+  const inputBytes = Buffer.byteLength(request.before, 'utf-8') + Buffer.byteLength(request.after, 'utf-8');
+  log({ level: 'info', requestId, event: 'request_received', route: 'diff', method: event.requestContext?.http?.method ?? 'unknown', contentType, inputBytes });
+
+  const inputLimitResponse = checkInputLimits(request.before, requestId, startTime) ?? checkInputLimits(request.after, requestId, startTime);
+  if (inputLimitResponse) return inputLimitResponse;
+
+  const before = parseWorkout(request.before);
+  const after = parseWorkout(request.after);
+  const parsedLimitResponse = checkParsedLimits('Workout', before.data ? [before.data] : [], requestId, startTime)
+    ?? checkParsedLimits('Workout', after.data ? [after.data] : [], requestId, startTime);
+  if (parsedLimitResponse) return parsedLimitResponse;
+
+  const workoutDiff = before.data && after.data ? diffWorkouts(before.data, after.data) : null;
+  const report = (result: ParseResult): ParseReport => ({
+    success: result.success,
+    errors: result.errors,
+    warnings: result.warnings,
+    diagnostics: result.diagnostics,
+  });
+
+  const response: DiffResponse = {
+    success: workoutDiff != null,
+    diff: workoutDiff,
+    before: report(before),
+    after: report(after),
+  };
+
+  log({
+    level: 'info',
+    requestId,
+    event: 'request_complete',
+    route: 'diff',
+    status: 200,
+    success: response.success,
+    changeCount: workoutDiff?.summary.length ?? 0,
+    errorCount: before.errors.length + after.errors.length,
+    durationMs: Date.now() - startTime,
+  });
+
+  return makeResponse(200, response);
+}
+
+/// Handles POST /convert: a LiftMark JSON export (the request body) as one LMWF workout log per session.
+function convert(
+  event: APIGatewayProxyEventV2,
+  contentType: string,
+  requestId: string,
+  startTime: number
+): APIGatewayProxyResultV2 {
+  const bodyStr = readBody(event);
+  if (!bodyStr) {
+    log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'Missing request body', durationMs: Date.now() - startTime });
+    return makeResponse(400, { error: 'Missing request body' });
+  }
+
+  const inputBytes = Buffer.byteLength(bodyStr, 'utf-8');
+  log({ level: 'info', requestId, event: 'request_received', route: 'convert', method: event.requestContext?.http?.method ?? 'unknown', contentType, inputBytes });
+
+  const inputLimitResponse = checkInputLimits(bodyStr, requestId, startTime);
+  if (inputLimitResponse) return inputLimitResponse;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(bodyStr);
+  } catch {
+    log({ level: 'warn', requestId, event: 'request_error', status: 400, error: 'Invalid JSON body', durationMs: Date.now() - startTime });
+    return makeResponse(400, { error: 'Invalid JSON body' });
+  }
+
+  const response = convertExport(data);
+
+  log({
+    level: 'info',
+    requestId,
+    event: 'request_complete',
+    route: 'convert',
+    status: 200,
+    success: response.success,
+    format: response.format,
+    sessionCount: response.sessions.length,
+    errorCount: response.errors.length,
+    warningCount: response.warnings.length,
+    durationMs: Date.now() - startTime,
+  });
+
+  return makeResponse(200, response);
+}
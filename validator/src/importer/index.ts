@@ -0,0 +1,330 @@
+import singleSchema from '../data/schemas/liftmark-export-single.schema.json' with { type: 'json' };
+import multiSchema from '../data/schemas/liftmark-export-multi.schema.json' with { type: 'json' };
+import unifiedSchema from '../data/schemas/liftmark-export-unified.schema.json' with { type: 'json' };
+import { parseSession } from '../parser/session.js';
+import type {
+  ExerciseStatus,
+  GroupType,
+  SessionExercise,
+  SessionSet,
+  SetStatus,
+  WeightUnit,
+  WorkoutSession,
+} from '../parser/types.js';
+import { validateJson } from '../schema/index.js';
+import type { JsonSchema } from '../schema/index.js';
+import { serializeSession } from '../serializer/index.js';
+
+/** The app's JSON export envelopes (spec/data/import-export-schema.md) */
+export type ExportFormat = 'single' | 'multi' | 'unified';
+
+/** A session as exported by the app, without internal ids */
+export interface ExportedSession {
+  name: string;
+  date: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  duration?: number | null;
+  notes?: string | null;
+  status: string;
+  exercises: ExportedExercise[];
+}
+
+export interface ExportedExercise {
+  exerciseName: string;
+  orderIndex: number;
+  notes?: string | null;
+  equipmentType?: string | null;
+  groupType?: GroupType | null;
+  groupName?: string | null;
+  status: string;
+  sets: ExportedSet[];
+}
+
+export interface ExportedSet {
+  orderIndex: number;
+  targetWeight?: number | null;
+  targetWeightUnit?: WeightUnit | null;
+  targetReps?: number | null;
+  targetTime?: number | null;
+  targetRpe?: number | null;
+  restSeconds?: number | null;
+  actualWeight?: number | null;
+  actualWeightUnit?: WeightUnit | null;
+  actualReps?: number | null;
+  actualTime?: number | null;
+  actualRpe?: number | null;
+  completedAt?: string | null;
+  status: string;
+  notes?: string | null;
+  tempo?: string | null;
+  isDropset?: boolean | null;
+  isPerSide?: boolean | null;
+}
+
+export interface ConvertOptions {
+  /** Validate against this envelope instead of detecting it */
+  format?: ExportFormat;
+}
+
+/** One session as an LMWF workout log */
+export interface ConvertedSession {
+  name: string;
+  date: string;
+  /** `workout-{name}-{date}.md`, named like the app's single-session exports and unique within the export */
+  fileName: string;
+  markdown: string;
+}
+
+export interface ExportConversion {
+  /** False when the export does not match its schema or a log fails to parse back */
+  success: boolean;
+  format: ExportFormat | null;
+  sessions: ConvertedSession[];
+  errors: string[];
+  warnings: string[];
+}
+
+export const EXPORT_SCHEMAS: Record<ExportFormat, JsonSchema> = {
+  single: singleSchema,
+  multi: multiSchema,
+  unified: unifiedSchema,
+};
+
+const SET_STATUSES: SetStatus[] = ['pending', 'completed', 'skipped', 'failed'];
+const EXERCISE_STATUSES: ExerciseStatus[] = ['pending', 'in_progress', 'completed', 'skipped'];
+
+// MARK: - Public API
+
+/// Detects the export envelope the same way tools/validate_export.py does.
+export function detectExportFormat(data: unknown): ExportFormat | null {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return null;
+  if ('formatVersion' in data) return 'unified';
+  if ('session' in data && !('sessions' in data)) return 'single';
+  if ('sessions' in data && !('session' in data)) return 'multi';
+  return null;
+}
+
+/**
+ * Converts a JSON export from the app into one LMWF workout log per session
+ * (see `parseSession`). The export is validated against its schema first and
+ * nothing is converted if it does not match. Each log keeps the session's
+ * date, duration and notes, and every set's targets, rest, modifiers, notes,
+ * status and actual results; groups are rebuilt from the exercises' group
+ * fields. Plans, gyms and settings in a unified export are not converted.
+ */
+export function convertExport(data: unknown, options: ConvertOptions = {}): ExportConversion {
+  const format = options.format ?? detectExportFormat(data);
+  if (!format) {
+    return {
+      success: false,
+      format: null,
+      sessions: [],
+      errors: ['Unrecognized export: expected a "session", "sessions" or "formatVersion" field'],
+      warnings: [],
+    };
+  }
+
+  const schemaErrors = validateJson(data, EXPORT_SCHEMAS[format]);
+  if (schemaErrors.length > 0) {
+    return { success: false, format, sessions: [], errors: schemaErrors, warnings: [] };
+  }
+
+  const envelope = data as { session?: ExportedSession; sessions?: ExportedSession[] };
+  const exported = format === 'single' ? [envelope.session!] : envelope.sessions ?? [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const fileNames = new Set<string>();
+
+  const sessions = exported.map((exportedSession, index): ConvertedSession => {
+    const label = `Session ${index + 1} (${exportedSession.name})`;
+    const session = toWorkoutSession(exportedSession, index, (message) => warnings.push(`${label}: ${message}`));
+    const markdown = serializeSession(session);
+
+    const check = parseSession(markdown);
+    errors.push(...check.errors.map((error) => `${label}: ${error}`));
+
+    const fileName = uniqueFileName(`workout-${sanitizeFileName(session.name)}-${exportedSession.date}`, fileNames);
+    return { name: session.name, date: exportedSession.date, fileName, markdown };
+  });
+
+  return { success: errors.length === 0, format, sessions, errors, warnings };
+}
+
+// MARK: - Sessions
+
+function toWorkoutSession(exported: ExportedSession, index: number, warn: (message: string) => void): WorkoutSession {
+  const sessionId = `session-${index + 1}`;
+  const exercises: SessionExercise[] = [];
+  // Open groups, outermost first; a superset header inside an open section nests under it
+  const openGroups: SessionExercise[] = [];
+
+  const addExercise = (fields: Omit<SessionExercise, 'id' | 'workoutSessionId' | 'orderIndex'>): SessionExercise => {
+    const exercise = { id: `${sessionId}-exercise-${exercises.length + 1}`, workoutSessionId: sessionId, orderIndex: exercises.length, ...fields };
+    exercises.push(exercise);
+    return exercise;
+  };
+
+  for (const source of [...exported.exercises].sort((a, b) => a.orderIndex - b.orderIndex)) {
+    const groupType = source.groupType ?? null;
+    const groupName = source.groupName ?? null;
+
+    if (source.sets.length === 0) {
+      if (groupType == null) {
+        warn(`skipped ${source.exerciseName}, which has no sets`);
+        continue;
+      }
+      const section = groupType === 'superset' && openGroups[0]?.groupType === 'section' ? openGroups[0] : null;
+      openGroups.length = 0;
+      if (section) openGroups.push(section);
+      openGroups.push(addExercise({
+        exerciseName: groupHeader(source.exerciseName, groupType),
+        notes: source.notes ?? null,
+        equipmentType: null,
+        groupType,
+        groupName: source.groupName ?? source.exerciseName,
+        parentExerciseId: section?.id ?? null,
+        sets: [],
+        status: exerciseStatus(source.status),
+      }));
+      continue;
+    }
+
+    let parent: SessionExercise | null = null;
+    if (groupType != null && groupName != null) {
+      const depth = openGroups.findIndex((group) => group.groupName === groupName);
+      if (depth >= 0) {
+        openGroups.length = depth + 1;
+      } else {
+        // Children exported without their group header get one
+        openGroups.length = 0;
+        openGroups.push(addExercise({
+          exerciseName: groupHeader(groupName, groupType),
+          notes: null,
+          equipmentType: null,
+          groupType,
+          groupName,
+          parentExerciseId: null,
+          sets: [],
+          status: 'pending',
+        }));
+      }
+      parent = openGroups.at(-1)!;
+    } else {
+      openGroups.length = 0;
+    }
+
+    const exercise = addExercise({
+      exerciseName: source.exerciseName,
+      notes: source.notes ?? null,
+      equipmentType: source.equipmentType ?? null,
+      groupType: parent ? groupType : null,
+      groupName: parent ? groupName : null,
+      parentExerciseId: parent?.id ?? null,
+      sets: [],
+      status: exerciseStatus(source.status),
+    });
+    for (const set of [...source.sets].sort((a, b) => a.orderIndex - b.orderIndex)) {
+      const sessionSet = toSessionSet(set, `${exercise.id}-set-${exercise.sets.length + 1}`, exercise);
+      if (sessionSet) exercise.sets.push(sessionSet);
+      else warn(`skipped set ${set.orderIndex + 1} of ${source.exerciseName}, which has no reps or time`);
+    }
+  }
+
+  const allSets = exercises.flatMap((exercise) => exercise.sets);
+  return {
+    id: sessionId,
+    workoutPlanId: null,
+    name: exported.name,
+    date: exported.date,
+    duration: exported.duration ?? null,
+    notes: exported.notes ?? null,
+    tags: [],
+    defaultWeightUnit: mostCommonUnit(allSets),
+    exercises,
+    status: exported.status === 'canceled' ? 'canceled' : allSets.some((set) => set.status === 'pending') ? 'in_progress' : 'completed',
+  };
+}
+
+/// Targets missing reps and time are taken from what was done, so sets logged without a plan keep their amount.
+function toSessionSet(set: ExportedSet, id: string, exercise: SessionExercise): SessionSet | null {
+  const fromActual = set.targetReps == null && set.targetTime == null;
+  const targetWeight = set.targetWeight ?? (fromActual ? set.actualWeight : null) ?? null;
+  const targetReps = set.targetReps ?? (fromActual ? set.actualReps : null) ?? null;
+  const targetTime = set.targetTime ?? (fromActual ? set.actualTime : null) ?? null;
+  if (targetReps == null && targetTime == null) return null;
+
+  return {
+    id,
+    sessionExerciseId: exercise.id,
+    orderIndex: exercise.sets.length,
+    targetWeight,
+    targetWeightUnit: set.targetWeight != null ? set.targetWeightUnit ?? null : targetWeight != null ? set.actualWeightUnit ?? null : null,
+    targetReps,
+    targetRepsMin: null,
+    targetRepsMax: null,
+    targetPercentage: null,
+    percentageOf: null,
+    targetTime,
+    targetDistance: null,
+    targetDistanceUnit: null,
+    targetRpe: set.targetRpe ?? null,
+    restSeconds: set.restSeconds ?? null,
+    tempo: set.tempo ?? null,
+    isDropset: set.isDropset ?? false,
+    isPerSide: set.isPerSide ?? false,
+    isAmrap: false,
+    notes: set.notes ?? null,
+    actualWeight: set.actualWeight ?? null,
+    actualWeightUnit: set.actualWeightUnit ?? null,
+    actualReps: set.actualReps ?? null,
+    actualTime: set.actualTime ?? null,
+    actualDistance: null,
+    actualDistanceUnit: null,
+    actualRpe: set.actualRpe ?? null,
+    status: SET_STATUSES.includes(set.status as SetStatus) ? set.status as SetStatus : 'pending',
+  };
+}
+
+/// The parser infers supersets from their header, so superset names without the word get a prefix.
+function groupHeader(name: string, groupType: GroupType): string {
+  return groupType === 'superset' && !name.toLowerCase().includes('superset') ? `Superset: ${name}` : name;
+}
+
+function exerciseStatus(status: string): ExerciseStatus {
+  return EXERCISE_STATUSES.includes(status as ExerciseStatus) ? status as ExerciseStatus : 'pending';
+}
+
+/// The unit most sets use, written as `@units` so that only the others need one.
+function mostCommonUnit(sets: SessionSet[]): WeightUnit | null {
+  const counts = new Map<WeightUnit, number>();
+  for (const set of sets) {
+    for (const unit of [set.targetWeightUnit, set.actualWeightUnit]) {
+      if (unit) counts.set(unit, (counts.get(unit) ?? 0) + 1);
+    }
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+// MARK: - File Names
+
+/// The app's export name sanitization: lowercase ASCII words joined by hyphens, at most 50 characters.
+function sanitizeFileName(name: string): string {
+  const sanitized = name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 50);
+  return sanitized || 'workout';
+}
+
+function uniqueFileName(base: string, taken: Set<string>): string {
+  let fileName = `${base}.md`;
+  for (let n = 2; taken.has(fileName); n++) fileName = `${base}-${n}.md`;
+  taken.add(fileName);
+  return fileName;
+}
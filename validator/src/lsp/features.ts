@@ -0,0 +1,278 @@
+import { parseWorkout, preprocessLines } from '../parser/index.js';
+import type { Diagnostic, ParseResult, ParsedLine, PlannedSet, WeightUnit } from '../parser/index.js';
+import { formatWorkout } from '../formatter/index.js';
+import { resolvePercentages } from '../resolver/index.js';
+import { exerciseDictionary } from '../dictionary/index.js';
+import {
+  CompletionItemKind,
+  DiagnosticSeverity,
+  SymbolKind,
+} from './protocol.js';
+import type {
+  CodeAction,
+  CompletionItem,
+  DocumentSymbol,
+  Hover,
+  LspDiagnostic,
+  Position,
+  Range,
+  TextEdit,
+} from './protocol.js';
+
+export interface LmwfCompletionItem extends CompletionItem {
+  textEdit: TextEdit;
+  filterText: string;
+}
+
+const METADATA_COMPLETIONS: Array<[string, string]> = [
+  ['@units: ', 'Default weight unit (lbs or kg)'],
+  ['@tags: ', 'Comma-separated workout tags'],
+  ['@type: ', 'Equipment type for an exercise'],
+  ['@progression: ', 'Progression rule, e.g. compound +5 lbs'],
+];
+
+const MODIFIER_COMPLETIONS: Array<[string, string]> = [
+  ['@rest: ', 'Rest after the set, e.g. 90s or 2m'],
+  ['@dropset', 'Drop set'],
+  ['@perside', 'Reps or time are per side'],
+];
+
+const WEIGHT_UNITS: WeightUnit[] = ['lbs', 'kg'];
+
+// MARK: - Diagnostics
+
+/// Parse errors and warnings as LSP diagnostics; issues not tied to a line sit at the top.
+export function getDiagnostics(text: string): LspDiagnostic[] {
+  return toLspDiagnostics(parseWorkout(text));
+}
+
+/// Converts an existing parse result, e.g. from an incremental parser.
+export function toLspDiagnostics(result: ParseResult): LspDiagnostic[] {
+  return result.diagnostics.map(toLspDiagnostic);
+}
+
+function toLspDiagnostic(d: Diagnostic): LspDiagnostic {
+  const line = Math.max(0, d.line - 1);
+  const start = Math.max(0, d.startColumn - 1);
+  const end = Math.max(start, d.endColumn - 1);
+  return {
+    range: { start: { line, character: start }, end: { line, character: end } },
+    severity: d.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+    code: d.code,
+    source: 'lmwf',
+    message: d.message,
+  };
+}
+
+// MARK: - Code Actions
+
+/// A quick fix for each fixable diagnostic on the lines of `range`.
+export function getCodeActions(result: ParseResult, uri: string, range: Range): CodeAction[] {
+  return result.diagnostics
+    .filter((d) => d.fix && d.line - 1 >= range.start.line && d.line - 1 <= range.end.line)
+    .map((d) => ({
+      title: d.fix!.title,
+      kind: 'quickfix',
+      diagnostics: [toLspDiagnostic(d)],
+      isPreferred: true,
+      edit: {
+        changes: {
+          [uri]: d.fix!.edits.map((edit) => ({
+            range: {
+              start: { line: edit.line - 1, character: edit.startColumn - 1 },
+              end: { line: edit.line - 1, character: edit.endColumn - 1 },
+            },
+            newText: edit.newText,
+          })),
+        },
+      },
+    }));
+}
+
+// MARK: - Hover
+
+/**
+ * Describes the set under the cursor as the parser reads it. The line is parsed
+ * with the document's `@units` and `@1rm` metadata and its exercise header, so
+ * units and percentage loads resolve as they would in the full workout.
+ */
+export function getHover(text: string, position: Position): Hover | null {
+  const lines = preprocessLines(text);
+  const line = lines[position.line];
+  if (!line?.isList) return null;
+
+  const workoutHeader = lines.find((l) => l.headerLevel != null);
+  const exercise = lines.slice(0, position.line).reverse().find((l) => l.headerLevel != null && l !== workoutHeader);
+  const metadata = lines.filter((l) => l.isMetadata && (l.metadataKey === 'units' || l.metadataKey === '1rm'));
+  const markdown = [
+    '# Hover',
+    ...metadata.map((l) => l.trimmed),
+    `## ${exercise?.headerText ?? 'Exercise'}`,
+    line.trimmed,
+  ].join('\n');
+
+  const result = parseWorkout(markdown);
+  if (!result.data) return null;
+  const { plan } = resolvePercentages(result.data);
+  const sets = plan.exercises[plan.exercises.length - 1].sets;
+  if (sets.length === 0) return null;
+
+  const heading = sets.length > 1 ? `**${sets.length} sets**` : '**Set**';
+  return {
+    contents: { kind: 'markdown', value: [heading, '', ...describeSet(sets[0])].join('\n') },
+    range: lineRange(line, position.line),
+  };
+}
+
+function describeSet(set: PlannedSet): string[] {
+  const details: string[] = [];
+
+  if (set.targetPercentage != null) {
+    const of = set.percentageOf != null ? ` of ${set.percentageOf}` : ' of 1RM';
+    const resolved = set.targetWeight == null
+      ? ''
+      : ` (${set.targetWeight}${set.targetWeightUnit ? ` ${set.targetWeightUnit}` : ''})`;
+    details.push(`- Weight: ${set.targetPercentage}%${of}${resolved}`);
+  } else if (set.targetWeight != null) {
+    details.push(`- Weight: ${set.targetWeight}${set.targetWeightUnit ? ` ${set.targetWeightUnit}` : ' (no unit)'}`);
+  } else if (set.targetDistance == null) {
+    details.push('- Weight: bodyweight');
+  }
+
+  if (set.isAmrap) {
+    details.push('- Reps: AMRAP');
+  } else if (set.targetRepsMax != null) {
+    details.push(`- Reps: ${set.targetRepsMin ?? set.targetReps}-${set.targetRepsMax}`);
+  } else if (set.targetReps != null) {
+    details.push(`- Reps: ${set.targetReps}`);
+  }
+  if (set.targetTime != null) details.push(`- Time: ${set.targetTime} seconds`);
+  if (set.targetDistance != null) details.push(`- Distance: ${set.targetDistance} ${set.targetDistanceUnit ?? 'meters'}`);
+  if (set.restSeconds != null) details.push(`- Rest: ${set.restSeconds} seconds`);
+  if (set.targetRpe != null) details.push(`- RPE: ${set.targetRpe}`);
+  if (set.tempo != null) details.push(`- Tempo: ${set.tempo}`);
+  if (set.isDropset) details.push('- Drop set');
+  if (set.isPerSide) details.push('- Per side');
+  if (set.notes) details.push(`- Notes: ${set.notes}`);
+
+  return details;
+}
+
+// MARK: - Completion
+
+/// Metadata keys, set modifiers, `@units` values, and exercise names in headers.
+export function getCompletions(text: string, position: Position): LmwfCompletionItem[] {
+  const lines = preprocessLines(text);
+  const lineText = lines[position.line]?.raw ?? '';
+  const prefix = lineText.slice(0, position.character);
+
+  const unitValue = /^\s*@units:\s*(\w*)$/i.exec(prefix);
+  if (unitValue) {
+    const range = rangeBefore(position, unitValue[1].length);
+    return WEIGHT_UNITS.map((unit) => completion(unit, CompletionItemKind.Value, range, 'Weight unit'));
+  }
+
+  const header = /^\s*#{2,6}\s+([^@]*)$/.exec(prefix);
+  if (header) {
+    const range = rangeBefore(position, header[1].length);
+    const documentNames = lines
+      .filter((l, index) => l.headerLevel != null && l.headerLevel > 1 && index !== position.line)
+      .map((l) => l.headerText!);
+    const names = [...new Set([...documentNames, ...exerciseDictionary.definitions.map((d) => d.canonical)])];
+    return names.map((name) => completion(name, CompletionItemKind.Reference, range, 'Exercise'));
+  }
+
+  const keyword = /@\w*$/.exec(prefix);
+  if (keyword) {
+    const range = rangeBefore(position, keyword[0].length);
+    const isSetLine = /^\s*-\s/.test(lineText);
+    // Metadata only goes at the start of its own line
+    if (!isSetLine && prefix.trim() !== keyword[0]) return [];
+    const items = isSetLine ? MODIFIER_COMPLETIONS : METADATA_COMPLETIONS;
+    return items.map(([label, detail]) => completion(label, CompletionItemKind.Keyword, range, detail));
+  }
+
+  return [];
+}
+
+function completion(label: string, kind: number, range: Range, detail: string): LmwfCompletionItem {
+  return { label: label.trim(), kind, detail, filterText: label, textEdit: { range, newText: label } };
+}
+
+// MARK: - Document Symbols
+
+/// Header outline: the workout, then sections and supersets, then exercises.
+export function getDocumentSymbols(text: string): DocumentSymbol[] {
+  const lines = preprocessLines(text);
+  const headers = lines.flatMap((line, index) => (line.headerLevel != null ? [{ line, index }] : []));
+
+  const build = (start: number, isWorkout: boolean): { symbol: DocumentSymbol; next: number } => {
+    const { line, index } = headers[start];
+    const children: DocumentSymbol[] = [];
+    let next = start + 1;
+    while (next < headers.length && headers[next].line.headerLevel! > line.headerLevel!) {
+      const child = build(next, false);
+      children.push(child.symbol);
+      next = child.next;
+    }
+
+    const endIndex = next < headers.length ? headers[next].index - 1 : lines.length - 1;
+    const kind = isWorkout ? SymbolKind.Module : children.length > 0 ? SymbolKind.Namespace : SymbolKind.Function;
+    return {
+      symbol: {
+        name: line.headerText!,
+        kind,
+        range: {
+          start: { line: index, character: 0 },
+          end: { line: endIndex, character: lines[endIndex].raw.length },
+        },
+        selectionRange: lineRange(line, index),
+        children,
+      },
+      next,
+    };
+  };
+
+  const symbols: DocumentSymbol[] = [];
+  for (let i = 0; i < headers.length;) {
+    const { symbol, next } = build(i, true);
+    symbols.push(symbol);
+    i = next;
+  }
+  return symbols;
+}
+
+// MARK: - Formatting
+
+/// A single whole-document edit, or none when the document is already formatted.
+export function getFormattingEdits(text: string): TextEdit[] {
+  const formatted = formatWorkout(text);
+  if (formatted === text) return [];
+
+  const lines = text.split('\n');
+  const lastLine = lines[lines.length - 1];
+  return [{
+    range: {
+      start: { line: 0, character: 0 },
+      end: { line: lines.length - 1, character: lastLine.length },
+    },
+    newText: formatted,
+  }];
+}
+
+// MARK: - Helpers
+
+function lineRange(line: ParsedLine, index: number): Range {
+  const start = line.raw.length - line.raw.trimStart().length;
+  return {
+    start: { line: index, character: start },
+    end: { line: index, character: start + line.trimmed.length },
+  };
+}
+
+function rangeBefore(position: Position, length: number): Range {
+  return {
+    start: { line: position.line, character: position.character - length },
+    end: position,
+  };
+}
@@ -0,0 +1,45 @@
+import type { Readable, Writable } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { loadRulesConfig } from '../cli/config.js';
+import { MessageType, createMessageReader, encodeMessage } from './protocol.js';
+import { createLanguageServer } from './server.js';
+
+export { createLanguageServer } from './server.js';
+export type { LanguageServer, LanguageServerOptions } from './server.js';
+export { createMessageReader, encodeMessage } from './protocol.js';
+export type { Message } from './protocol.js';
+
+/**
+ * Runs the language server over a pair of streams, normally stdin and stdout.
+ * Documents on disk use the rules of the nearest `.lmwfrc`, as `lmwf validate`
+ * does. `onExit` is called once, when the client sends `exit` or closes the input.
+ */
+export function startStdioServer(
+  input: Readable,
+  output: Writable,
+  onExit: (code: number) => void
+): void {
+  let exited = false;
+  const exit = (code: number): void => {
+    if (exited) return;
+    exited = true;
+    onExit(code);
+  };
+
+  const server = createLanguageServer({
+    send: (message) => output.write(encodeMessage(message)),
+    onExit: exit,
+    rulesFor: (uri) => (uri.startsWith('file:') ? loadRulesConfig(fileURLToPath(uri)) : {}),
+  });
+  // Unreadable messages have no id to answer, so they go to the client's log
+  const logError = (error: Error): void => {
+    output.write(encodeMessage({
+      jsonrpc: '2.0',
+      method: 'window/logMessage',
+      params: { type: MessageType.Error, message: `Could not handle message: ${error.message}` },
+    }));
+  };
+  input.on('data', createMessageReader((message) => server.handle(message), logError));
+  // A client that disappears without `exit` should not leave the server running
+  input.on('end', () => exit(1));
+}
@@ -0,0 +1,157 @@
+// The subset of the Language Server Protocol the LMWF server speaks. Positions
+// are 0-based and `character` counts UTF-16 code units, as in JavaScript strings.
+
+// MARK: - JSON-RPC
+
+export interface RequestMessage {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+export interface NotificationMessage {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+}
+
+export interface ResponseMessage {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  ServerNotInitialized: -32002,
+} as const;
+
+/** `type` of a `window/logMessage` notification */
+export const MessageType = { Error: 1, Warning: 2, Info: 3, Log: 4 } as const;
+
+// MARK: - Documents
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface TextDocumentIdentifier {
+  uri: string;
+}
+
+export interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: Position;
+}
+
+// MARK: - Features
+
+export const DiagnosticSeverity = { Error: 1, Warning: 2 } as const;
+
+export interface LspDiagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: 'lmwf';
+  message: string;
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: LspDiagnostic[];
+  isPreferred: boolean;
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string };
+  range: Range;
+}
+
+export const CompletionItemKind = { Keyword: 14, Value: 12, Reference: 18 } as const;
+
+export interface CompletionItem {
+  label: string;
+  kind: number;
+  detail?: string;
+  insertText?: string;
+}
+
+export const SymbolKind = { Module: 2, Namespace: 3, Function: 12 } as const;
+
+export interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children: DocumentSymbol[];
+}
+
+// MARK: - Framing
+
+/**
+ * Splits a byte stream into JSON-RPC messages framed by `Content-Length`
+ * headers. Feed it chunks as they arrive; `onMessage` receives each parsed
+ * message, and `onError` any message body that is not valid JSON.
+ */
+export function createMessageReader(
+  onMessage: (message: Message) => void,
+  onError: (error: Error) => void = () => {}
+): (chunk: Buffer) => void {
+  let buffer = Buffer.alloc(0);
+
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) return;
+
+      const headers = buffer.subarray(0, headerEnd).toString('ascii');
+      const length = /content-length:\s*(\d+)/i.exec(headers);
+      if (!length) {
+        // Skip a malformed header block rather than stalling the stream
+        buffer = buffer.subarray(headerEnd + 4);
+        onError(new Error('Missing Content-Length header'));
+        continue;
+      }
+
+      const bodyStart = headerEnd + 4;
+      const bodyEnd = bodyStart + Number(length[1]);
+      if (buffer.length < bodyEnd) return;
+
+      const body = buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+      buffer = buffer.subarray(bodyEnd);
+      try {
+        onMessage(JSON.parse(body) as Message);
+      } catch (error) {
+        onError(error as Error);
+      }
+    }
+  };
+}
+
+/// Frames a message for the wire.
+export function encodeMessage(message: Message): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`;
+}
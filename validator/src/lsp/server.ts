@@ -0,0 +1,232 @@
+import { ErrorCodes, MessageType } from './protocol.js';
+import type {
+  Message,
+  NotificationMessage,
+  Position,
+  Range,
+  RequestMessage,
+  ResponseMessage,
+  TextDocumentIdentifier,
+  TextDocumentPositionParams,
+} from './protocol.js';
+import {
+  getCodeActions,
+  getCompletions,
+  getDocumentSymbols,
+  getFormattingEdits,
+  getHover,
+  toLspDiagnostics,
+} from './features.js';
+import { createIncrementalParser } from '../parser/incremental.js';
+import type { IncrementalParser, TextChange } from '../parser/incremental.js';
+import type { RulesConfig } from '../rules/index.js';
+
+export interface LanguageServer {
+  /** Handles one incoming message, sending any response or notifications through `send` */
+  handle(message: Message): void;
+}
+
+export interface LanguageServerOptions {
+  send: (message: ResponseMessage | NotificationMessage) => void;
+  /** Called for the `exit` notification with the process exit code */
+  onExit?: (code: number) => void;
+  /** Rule settings for a document, e.g. from the `.lmwfrc` above it; an error message is logged and the defaults used */
+  rulesFor?: (uri: string) => RulesConfig | string;
+}
+
+// Incremental document sync: changes carry edited ranges, which the parser applies in place
+const TEXT_DOCUMENT_SYNC_INCREMENTAL = 2;
+
+const CAPABILITIES = {
+  textDocumentSync: { openClose: true, change: TEXT_DOCUMENT_SYNC_INCREMENTAL },
+  hoverProvider: true,
+  completionProvider: { triggerCharacters: ['@', ' '] },
+  documentSymbolProvider: true,
+  documentFormattingProvider: true,
+  codeActionProvider: { codeActionKinds: ['quickfix'] },
+};
+
+/// Params arrive unchecked off the wire; handlers narrow them with the readers below and throw when they do not fit.
+type RequestHandler = (params: unknown) => unknown;
+type NotificationHandler = (params: unknown) => void;
+
+// MARK: - Server
+
+/**
+ * Creates an LMWF language server. It keeps open documents in memory, publishes
+ * diagnostics whenever one opens or changes, and answers hover, completion,
+ * document symbol and formatting requests. Transport is up to the caller; see
+ * `startStdioServer`.
+ */
+export function createLanguageServer(options: LanguageServerOptions): LanguageServer {
+  const { send } = options;
+  const documents = new Map<string, IncrementalParser>();
+  let initialized = false;
+  let shuttingDown = false;
+
+  const publishDiagnostics = (uri: string): void => {
+    const document = documents.get(uri);
+    send({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: { uri, diagnostics: document == null ? [] : toLspDiagnostics(document.result) },
+    });
+  };
+
+  const documentText = (document: TextDocumentIdentifier): string => documents.get(document.uri)?.text ?? '';
+
+  const logError = (message: string): void => {
+    send({ jsonrpc: '2.0', method: 'window/logMessage', params: { type: MessageType.Error, message } });
+  };
+
+  const rulesFor = (uri: string): RulesConfig => {
+    const rules = options.rulesFor?.(uri) ?? {};
+    if (typeof rules !== 'string') return rules;
+    logError(rules);
+    return {};
+  };
+
+  const requests: Record<string, RequestHandler> = {
+    initialize: () => {
+      initialized = true;
+      return { capabilities: CAPABILITIES, serverInfo: { name: 'lmwf' } };
+    },
+    shutdown: () => {
+      shuttingDown = true;
+      return null;
+    },
+    'textDocument/hover': (params) => {
+      const { textDocument, position } = readPositionParams(params);
+      return getHover(documentText(textDocument), position);
+    },
+    'textDocument/completion': (params) => {
+      const { textDocument, position } = readPositionParams(params);
+      return getCompletions(documentText(textDocument), position);
+    },
+    'textDocument/documentSymbol': (params) => getDocumentSymbols(documentText(readTextDocument(params))),
+    'textDocument/formatting': (params) => getFormattingEdits(documentText(readTextDocument(params))),
+    'textDocument/codeAction': (params) => {
+      const { uri } = readTextDocument(params);
+      const range = readRange(readObject(params, 'params').range, 'range');
+      const document = documents.get(uri);
+      return document ? getCodeActions(document.result, uri, range) : [];
+    },
+  };
+
+  const notifications: Record<string, NotificationHandler> = {
+    'textDocument/didOpen': (params) => {
+      const { uri } = readTextDocument(params);
+      const text = readString(readObject(readObject(params, 'params').textDocument, 'textDocument').text, 'textDocument.text');
+      documents.set(uri, createIncrementalParser(text, { rules: rulesFor(uri) }));
+      publishDiagnostics(uri);
+    },
+    'textDocument/didChange': (params) => {
+      const { uri } = readTextDocument(params);
+      const changes = readArray(readObject(params, 'params').contentChanges, 'contentChanges')
+        .map((change, index) => readTextChange(change, `contentChanges[${index}]`));
+      const document = documents.get(uri);
+      if (!document || changes.length === 0) return;
+      document.update(changes);
+      publishDiagnostics(uri);
+    },
+    'textDocument/didClose': (params) => {
+      const { uri } = readTextDocument(params);
+      documents.delete(uri);
+      publishDiagnostics(uri);
+    },
+    exit: () => options.onExit?.(shuttingDown ? 0 : 1),
+  };
+
+  const respondError = (id: RequestMessage['id'] | null, code: number, message: string): void => {
+    send({ jsonrpc: '2.0', id, error: { code, message } });
+  };
+
+  return {
+    handle(message) {
+      if (!('method' in message)) return; // Responses to server requests; none are sent
+
+      if (!('id' in message) || message.id == null) {
+        const notify = notifications[message.method];
+        if (!notify || (!initialized && message.method !== 'exit')) return;
+        // Notifications have no response to carry an error, so tell the client's log instead
+        try {
+          notify(message.params);
+        } catch (error) {
+          logError(`${message.method} failed: ${(error as Error).message}`);
+        }
+        return;
+      }
+
+      const handler = requests[message.method];
+      if (!initialized && message.method !== 'initialize') {
+        respondError(message.id, ErrorCodes.ServerNotInitialized, 'Server not initialized');
+      } else if (shuttingDown && message.method !== 'shutdown') {
+        respondError(message.id, ErrorCodes.InvalidRequest, 'Server is shutting down');
+      } else if (!handler) {
+        respondError(message.id, ErrorCodes.MethodNotFound, `Unhandled method ${message.method}`);
+      } else {
+        try {
+          send({ jsonrpc: '2.0', id: message.id, result: handler(message.params) ?? null });
+        } catch (error) {
+          respondError(message.id, ErrorCodes.InvalidParams, (error as Error).message);
+        }
+      }
+    },
+  };
+}
+
+// MARK: - Params
+
+function readObject(value: unknown, name: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value == null || Array.isArray(value)) {
+    throw new Error(`${name} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function readArray(value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`${name} must be an array`);
+  return value;
+}
+
+function readString(value: unknown, name: string): string {
+  if (typeof value !== 'string') throw new Error(`${name} must be a string`);
+  return value;
+}
+
+function readNumber(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/// Reads `params.textDocument`, which every document method carries.
+function readTextDocument(params: unknown): TextDocumentIdentifier {
+  const textDocument = readObject(readObject(params, 'params').textDocument, 'textDocument');
+  return { uri: readString(textDocument.uri, 'textDocument.uri') };
+}
+
+function readPositionParams(params: unknown): TextDocumentPositionParams {
+  return { textDocument: readTextDocument(params), position: readPosition(readObject(params, 'params').position, 'position') };
+}
+
+function readPosition(value: unknown, name: string): Position {
+  const position = readObject(value, name);
+  return {
+    line: readNumber(position.line, `${name}.line`),
+    character: readNumber(position.character, `${name}.character`),
+  };
+}
+
+function readRange(value: unknown, name: string): Range {
+  const range = readObject(value, name);
+  return { start: readPosition(range.start, `${name}.start`), end: readPosition(range.end, `${name}.end`) };
+}
+
+/// Reads a `didChange` content change: a whole-document `text`, or `text` replacing a `range`.
+function readTextChange(value: unknown, name: string): TextChange {
+  const change = readObject(value, name);
+  const text = readString(change.text, `${name}.text`);
+  return change.range === undefined ? { text } : { range: readRange(change.range, `${name}.range`), text };
+}
@@ -0,0 +1,74 @@
+import type { Diagnostic, DiagnosticFix, WeightUnit } from './types.js';
+
+/** Spellings of `@units` values that only have one reading */
+const UNIT_SPELLINGS: Record<string, WeightUnit> = {
+  pound: 'lbs',
+  pounds: 'lbs',
+  'lb.': 'lbs',
+  'lbs.': 'lbs',
+  kilo: 'kg',
+  kilos: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  'kg.': 'kg',
+  'kgs.': 'kg',
+};
+
+/** Weight and unit at the start of an incomplete set (e.g., "135 lbs") */
+const WEIGHT_WITH_UNIT_PATTERN = /^\d+(?:\.\d+)?\s*(?:lbs?|kgs?)\b/i;
+
+/** A deprecated modifier as it appears in the diagnostic text (e.g., "@rpe: 8 felt easy") */
+const DEPRECATED_MODIFIER_PATTERN = /^@(rpe|tempo):\s*(\S+)(.*)$/is;
+
+/** A shorthand load naming a reference lift, which runs to the next `@` (e.g., "@ 60% of Back Squat ") */
+const REFERENCE_LIFT_PATTERN = /@\s*\d+(?:\.\d+)?\s*%(?:\s*1rm\b)?\s+of\s+[^@]*$/i;
+
+/**
+ * The fix for a diagnostic on `lineText`, or null when the correction is not
+ * obvious. Fixes only touch the diagnostic's own span, so they are skipped when
+ * the parser could not narrow the span to the offending text.
+ */
+export function fixFor(diagnostic: Diagnostic, lineText: string): DiagnosticFix | null {
+  if (diagnostic.line === 0 || diagnostic.startColumn === 0) return null;
+  const { text } = diagnostic;
+
+  switch (diagnostic.code) {
+    case 'INVALID_UNITS': {
+      const unit = UNIT_SPELLINGS[text.trim().toLowerCase()];
+      return unit ? replaceSpan(diagnostic, unit, `Replace "${text}" with "${unit}"`) : null;
+    }
+    case 'INCOMPLETE_SET': {
+      const weight = text.match(WEIGHT_WITH_UNIT_PATTERN);
+      if (!weight) return null;
+      const column = diagnostic.startColumn + weight[0].length;
+      return {
+        title: `Make "${weight[0]}" a single (x 1)`,
+        edits: [{ line: diagnostic.line, startColumn: column, endColumn: column, newText: ' x 1' }],
+      };
+    }
+    case 'STANDALONE_AMRAP':
+      return /^amrap$/i.test(text) ? replaceSpan(diagnostic, `bw x ${text}`, 'Make it a bodyweight AMRAP set (bw x AMRAP)') : null;
+    case 'DEPRECATED_RPE':
+    case 'DEPRECATED_TEMPO': {
+      const match = text.match(DEPRECATED_MODIFIER_PATTERN);
+      if (!match) return null;
+      const label = match[1].toLowerCase() === 'rpe' ? 'RPE' : 'Tempo';
+      // A note right after a reference lift would become part of its name, so it keeps its own "@" part
+      const before = lineText.slice(0, diagnostic.startColumn - 1);
+      const prefix = REFERENCE_LIFT_PATTERN.test(before) ? '@ ' : '';
+      return replaceSpan(diagnostic, `${prefix}${label} ${match[2]}${match[3]}`, `Move @${match[1].toLowerCase()} into the set notes`);
+    }
+    case 'MISSING_REST_UNIT': {
+      if (!/^\d+$/.test(text)) return null;
+      const { line, endColumn } = diagnostic;
+      return { title: `Read "${text}" as seconds (${text}s)`, edits: [{ line, startColumn: endColumn, endColumn, newText: 's' }] };
+    }
+    default:
+      return null;
+  }
+}
+
+function replaceSpan(diagnostic: Diagnostic, newText: string, title: string): DiagnosticFix {
+  const { line, startColumn, endColumn } = diagnostic;
+  return { title, edits: [{ line, startColumn, endColumn, newText }] };
+}
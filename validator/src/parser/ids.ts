@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import type { IdGenerator, ParseOptions, WorkoutPlan } from './types.js';
+
+// Namespace for LMWF name-based UUIDs (RFC 9562 version 5)
+const ID_NAMESPACE = Buffer.from('be5016edb9e7400db9125dae78913f50', 'hex');
+
+// MARK: - Public API
+
+/**
+ * Name-based UUID (version 5) for an entity's kind and path, so the same
+ * markdown always yields the same ids.
+ */
+export const deterministicId: IdGenerator = (kind, path) => {
+  const hash = createHash('sha1').update(ID_NAMESPACE).update(JSON.stringify([kind, ...path]), 'utf-8').digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/// The generator for the `ids` option, or null when ids stay random.
+export function idGeneratorFor(ids: ParseOptions['ids']): IdGenerator | null {
+  if (ids == null || ids === 'random') return null;
+  return ids === 'deterministic' ? deterministicId : ids;
+}
+
+/**
+ * Returns a copy of `workout` with ids from `generate`. Exercise paths extend
+ * `workoutPath` with the names of enclosing groups and the exercise; set paths
+ * add the set's index. A repeated path gets `#2`, `#3`, ... on its last part.
+ */
+export function assignIds(workout: WorkoutPlan, workoutPath: string[], generate: IdGenerator): WorkoutPlan {
+  const workoutId = generate('workout', workoutPath);
+  const seen = new Map<string, number>();
+  const assigned = new Map<string, { id: string; path: string[] }>();
+
+  const exercises = workout.exercises.map((exercise) => {
+    const parent = exercise.parentExerciseId == null ? undefined : assigned.get(exercise.parentExerciseId);
+    const path = uniquePath([...(parent?.path ?? workoutPath), exercise.exerciseName], seen);
+    const id = generate('exercise', path);
+    assigned.set(exercise.id, { id, path });
+
+    return {
+      ...exercise,
+      id,
+      workoutPlanId: workoutId,
+      parentExerciseId: parent?.id ?? null,
+      sets: exercise.sets.map((set) => ({
+        ...set,
+        id: generate('set', [...path, String(set.orderIndex)]),
+        plannedExerciseId: id,
+      })),
+    };
+  });
+
+  return { ...workout, id: workoutId, exercises };
+}
+
+/// Appends an occurrence suffix to the last part of a path already in `seen`.
+export function uniquePath(path: string[], seen: Map<string, number>): string[] {
+  const key = JSON.stringify(path);
+  const count = (seen.get(key) ?? 0) + 1;
+  seen.set(key, count);
+  return count === 1 ? path : [...path.slice(0, -1), `${path[path.length - 1]}#${count}`];
+}
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import { parseWorkoutLines, preprocessLine } from './index.js';
+import type {
+  ExerciseBlockResult,
+  ParseContext,
+  ParseError,
+  ParseOptions,
+  ParseResult,
+  ParseWarning,
+  ParsedLine,
+  PlannedExercise,
+  SourceRange,
+} from './types.js';
+
+/** 0-based line and UTF-16 character offset, as in the Language Server Protocol */
+export interface TextPosition {
+  line: number;
+  character: number;
+}
+
+/** An edit to the document; without a range the text replaces the whole document */
+export interface TextChange {
+  range?: { start: TextPosition; end: TextPosition };
+  text: string;
+}
+
+export interface IncrementalParser {
+  readonly text: string;
+  readonly result: ParseResult;
+  /** Applies changes in order, each relative to the text left by the previous one */
+  update(changes: TextChange[]): ParseResult;
+}
+
+interface CachedBlock {
+  result: ExerciseBlockResult;
+  orderIndex: number;
+  lineCount: number;
+  /** 1-based line of the block header when the diagnostics were recorded */
+  headerLine: number;
+  errors: ParseError[];
+  warnings: ParseWarning[];
+}
+
+// MARK: - Public API
+
+/**
+ * Parses a document once, then re-parses it after each edit while reusing what
+ * did not change: lines are only re-classified when their text changes, and a
+ * top-level exercise block (a header at the exercise level and everything under
+ * it) whose text is unchanged keeps its parsed exercises, ids and diagnostics,
+ * shifted to its new position. With random ids, the workout id is stable across
+ * updates.
+ *
+ * Results are the same as `parseWorkout` on the full text, apart from ids and
+ * timestamps. Unchanged blocks are shared between results, so treat results as
+ * read-only.
+ */
+export function createIncrementalParser(text: string, options: ParseOptions = {}): IncrementalParser {
+  const workoutId = randomUUID();
+  let lineCache = new Map<string, ParsedLine>();
+  let blockCache = new Map<string, CachedBlock>();
+  let currentText = text;
+  let currentResult: ParseResult;
+
+  const parse = (): ParseResult => {
+    const lines = classifyLines(currentText, lineCache);
+    lineCache = new Map(lines.map((line) => [line.raw, line]));
+
+    const previousBlocks = blockCache;
+    const usedBlocks = new Map<string, CachedBlock>();
+
+    const parseBlock = (context: ParseContext, orderIndex: number, parseFresh: () => ExerciseBlockResult): ExerciseBlockResult => {
+      const start = context.currentIndex;
+      const end = blockEnd(context, start);
+      const key = `${context.exerciseHeaderLevel}\n${context.lines.slice(start, end).map((l) => l.raw).join('\n')}`;
+      const headerLine = context.lines[start].lineNumber;
+
+      const cached = previousBlocks.get(key);
+      // Identical blocks (e.g. pasted twice) must not share ids, so reuse each entry once
+      if (cached && !usedBlocks.has(key)) {
+        const offset = headerLine - cached.headerLine;
+        const reused: CachedBlock = {
+          result: shiftSource(reorder(cached.result, orderIndex - cached.orderIndex), offset),
+          orderIndex,
+          lineCount: cached.lineCount,
+          headerLine,
+          errors: cached.errors.map((e) => shiftLine(e, offset)),
+          warnings: cached.warnings.map((w) => shiftLine(w, offset)),
+        };
+        usedBlocks.set(key, reused);
+        context.errors.push(...reused.errors);
+        context.warnings.push(...reused.warnings);
+        context.currentIndex = start + reused.lineCount;
+        return reused.result;
+      }
+
+      const errorCount = context.errors.length;
+      const warningCount = context.warnings.length;
+      const result = parseFresh();
+      if (context.currentIndex === end && !usedBlocks.has(key)) {
+        usedBlocks.set(key, {
+          result,
+          orderIndex,
+          lineCount: end - start,
+          headerLine,
+          errors: context.errors.slice(errorCount),
+          warnings: context.warnings.slice(warningCount),
+        });
+      }
+      return result;
+    };
+
+    const result = parseWorkoutLines(lines, currentText, options, { workoutId, parseBlock });
+    blockCache = usedBlocks;
+    return result;
+  };
+
+  currentResult = parse();
+
+  return {
+    get text() {
+      return currentText;
+    },
+    get result() {
+      return currentResult;
+    },
+    update(changes) {
+      for (const change of changes) {
+        currentText = applyChange(currentText, change);
+      }
+      currentResult = parse();
+      return currentResult;
+    },
+  };
+}
+
+// MARK: - Helpers
+
+function classifyLines(text: string, cache: Map<string, ParsedLine>): ParsedLine[] {
+  const rawLines = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  return rawLines.map((raw, index) => {
+    const cached = cache.get(raw);
+    if (!cached) return preprocessLine(raw, index + 1);
+    return cached.lineNumber === index + 1 ? cached : { ...cached, lineNumber: index + 1 };
+  });
+}
+
+/// Index of the first line after the block starting at `start`: the next header at or above exercise level.
+function blockEnd(context: ParseContext, start: number): number {
+  for (let i = start + 1; i < context.lines.length; i++) {
+    const level = context.lines[i].headerLevel;
+    if (level != null && level <= context.exerciseHeaderLevel!) return i;
+  }
+  return context.lines.length;
+}
+
+/// Moves an issue by `offset` lines; line 0 means the issue has no line and stays put.
+function shiftLine<T extends { line: number }>(issue: T, offset: number): T {
+  return issue.line === 0 || offset === 0 ? issue : { ...issue, line: issue.line + offset };
+}
+
+function reorder(result: ExerciseBlockResult, delta: number): ExerciseBlockResult {
+  if (delta === 0) return result;
+  switch (result.type) {
+    case 'single':
+      return { type: 'single', exercise: { ...result.exercise, orderIndex: result.exercise.orderIndex + delta } };
+    case 'group':
+      return { type: 'group', exercises: result.exercises.map((e) => ({ ...e, orderIndex: e.orderIndex + delta })) };
+    case 'none':
+      return result;
+  }
+}
+
+/// Moves the `source` locations of a block's exercises and sets by `offset` lines.
+function shiftSource(result: ExerciseBlockResult, offset: number): ExerciseBlockResult {
+  if (offset === 0) return result;
+  const shiftRange = (range: SourceRange): SourceRange => (
+    { ...range, startLine: range.startLine + offset, endLine: range.endLine + offset }
+  );
+  const shiftExercise = (exercise: PlannedExercise): PlannedExercise => {
+    if (!exercise.source) return exercise;
+    return {
+      ...exercise,
+      source: {
+        header: shiftRange(exercise.source.header),
+        metadata: exercise.source.metadata && shiftRange(exercise.source.metadata),
+      },
+      sets: exercise.sets.map((set) => (set.source ? { ...set, source: shiftRange(set.source) } : set)),
+    };
+  };
+
+  switch (result.type) {
+    case 'single':
+      return { type: 'single', exercise: shiftExercise(result.exercise) };
+    case 'group':
+      return { type: 'group', exercises: result.exercises.map(shiftExercise) };
+    case 'none':
+      return result;
+  }
+}
+
+function applyChange(text: string, change: TextChange): string {
+  if (!change.range) return change.text;
+  const start = offsetAt(text, change.range.start);
+  const end = Math.max(start, offsetAt(text, change.range.end));
+  return text.slice(0, start) + change.text + text.slice(end);
+}
+
+/// Converts a position to a string offset, clamping past-the-end lines and characters.
+function offsetAt(text: string, position: TextPosition): number {
+  const lineBreak = /\r\n|\r|\n/g;
+  let lineStart = 0;
+  for (let line = 0; line < position.line; line++) {
+    lineBreak.lastIndex = lineStart;
+    const match = lineBreak.exec(text);
+    if (!match) return text.length;
+    lineStart = match.index + match[0].length;
+  }
+  lineBreak.lastIndex = lineStart;
+  const lineEnd = lineBreak.exec(text)?.index ?? text.length;
+  return lineStart + Math.min(Math.max(0, position.character), lineEnd - lineStart);
+}
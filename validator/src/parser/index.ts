@@ -1,8 +1,15 @@
 import { randomUUID } from 'crypto';
+import { resolveExerciseName, canonicalIdFor } from '../dictionary/index.js';
+import type { ExerciseCategory } from '../dictionary/index.js';
+import { applyRules, resolveRules, ruleOption } from '../rules/index.js';
+import { fixFor } from './fixes.js';
+import { assignIds, idGeneratorFor, uniquePath } from './ids.js';
 import type {
   ParseResult,
   ParseError,
   ParseWarning,
+  Diagnostic,
+  DiagnosticSeverity,
   ParsedLine,
   ParseContext,
   ParsedSet,
@@ -10,53 +17,304 @@ import type {
   WorkoutPlan,
   PlannedExercise,
   PlannedSet,
+  SourceRange,
   WeightUnit,
   DistanceUnit,
   GroupType,
+  OneRepMax,
+  ProgressionRule,
+  CategoryProgression,
+  ParseOptions,
+  ParseHooks,
+  ProgramParseResult,
+  ProgramWeek,
   ExerciseBlockResult,
 } from './types.js';
-
-export type { ParseResult, WorkoutPlan, PlannedExercise, PlannedSet, WeightUnit, DistanceUnit, GroupType } from './types.js';
+import {
+  HEADER_PATTERN,
+  LIST_PATTERN,
+  METADATA_PATTERN,
+  WEIGHTED_SET_PATTERN,
+  BODYWEIGHT_SET_PATTERN,
+  DISTANCE_SET_PATTERN,
+  SINGLE_VALUE_SET_PATTERN,
+  PERCENTAGE_SET_PATTERN,
+  REPS_PERCENTAGE_SET_PATTERN,
+  ONE_REP_MAX_PATTERN,
+  PROGRESSION_PATTERN,
+  WEEK_HEADER_PATTERN,
+  SET_SHORTHAND_PATTERN,
+  SHORTHAND_LOAD_PATTERN,
+  SHORTHAND_PERCENTAGE_PATTERN,
+  SHORTHAND_RPE_PATTERN,
+  MAX_SHORTHAND_SETS,
+  MODIFIER_PATTERN,
+  RPE_VALUE_PATTERN,
+  REST_VALUE_PATTERN,
+  TEMPO_VALUE_PATTERN,
+  DIRECTIVE_PATTERN,
+  COUNT_ANCHOR_PATTERN,
+  MODIFIER_ANCHOR_PATTERN,
+} from './patterns.js';
+
+export { deterministicId } from './ids.js';
+
+export type {
+  ParseOptions,
+  IdGenerator,
+  IdKind,
+  ParseHooks,
+  ParseResult,
+  ProgramParseResult,
+  SessionParseResult,
+  Diagnostic,
+  DiagnosticEdit,
+  DiagnosticFix,
+  DiagnosticSeverity,
+  SourceRange,
+  ExerciseSource,
+  ParsedLine,
+  TrainingProgram,
+  ProgramWeek,
+  WorkoutPlan,
+  PlannedExercise,
+  PlannedSet,
+  OneRepMax,
+  ProgressionRule,
+  CategoryProgression,
+  WorkoutSession,
+  SessionExercise,
+  SessionSet,
+  SetStatus,
+  ExerciseStatus,
+  SessionStatus,
+  WeightUnit,
+  DistanceUnit,
+  GroupType,
+} from './types.js';
 
 // MARK: - Public API
 
-export function parseWorkout(markdown: string): ParseResult {
-  const context: ParseContext = {
-    lines: preprocessLines(markdown),
-    currentIndex: 0,
-    workoutHeaderLevel: null,
-    exerciseHeaderLevel: null,
-    errors: [],
-    warnings: [],
-  };
-  const workoutId = generateId();
+export function parseWorkout(markdown: string, options: ParseOptions = {}): ParseResult {
+  return parseWorkoutLines(preprocessLines(markdown), markdown, options);
+}
+
+/**
+ * Parses already preprocessed lines of `markdown`. The incremental parser uses
+ * `hooks` to reuse unchanged exercise blocks; `parseWorkout` is the usual entry point.
+ */
+export function parseWorkoutLines(
+  lines: ParsedLine[],
+  markdown: string,
+  options: ParseOptions = {},
+  hooks: ParseHooks = {}
+): ParseResult {
+  const context = createContext(lines, options);
+  context.hooks = hooks;
 
   // Find workout header
   const workoutHeaderLine = findWorkoutHeader(context);
   if (!workoutHeaderLine) {
+    const message = 'No workout header found. Must have a header (# Workout Name) with exercises below it.';
     return {
       success: false,
       data: null,
-      errors: ['No workout header found. Must have a header (# Workout Name) with exercises below it.'],
+      errors: [message],
       warnings: [],
+      diagnostics: [
+        { code: 'NO_WORKOUT_HEADER', severity: 'error', line: 0, startColumn: 0, endColumn: 0, message, text: '' },
+      ],
     };
   }
 
+  const parsed = parseWorkoutAt(context, workoutHeaderLine, markdown, hooks);
+  applyRules(context, context.rules);
+  const idGenerator = idGeneratorFor(options.ids);
+  const success = parsed != null && context.errors.length === 0;
+  // Rules set to "error" can fail a workout that parsed
+  const valid = success || context.lenient ? parsed : null;
+  const workout = valid && idGenerator ? assignIds(valid, [valid.name], idGenerator) : valid;
+
+  return {
+    success,
+    data: workout,
+    errors: context.errors.map((e) => `Line ${e.line}: ${e.message}`),
+    warnings: context.warnings.map((w) => `Line ${w.line}: ${w.message}`),
+    diagnostics: buildDiagnostics(context),
+    ...(context.lenient && { partial: workout != null && !success }),
+  };
+}
+
+/**
+ * Parses a document containing a whole training program:
+ *
+ *     # Program            (metadata and notes apply to every workout)
+ *     ## Week 1            (optional; headers starting with "Week")
+ *     ### Day 1            (each day is a workout)
+ *     #### Squat
+ *     - 5 x 5 @ 225
+ *
+ * Days may also sit directly under the program header. Workouts inherit the
+ * program's tags, units, one-rep maxes and progression rules; their own metadata
+ * takes precedence.
+ */
+export function parseProgram(markdown: string, options: ParseOptions = {}): ProgramParseResult {
+  const context = createContext(preprocessLines(markdown), options);
+  const programIndex = context.lines.findIndex((l) => l.headerLevel != null && l.headerText != null);
+  if (programIndex < 0) {
+    const message = 'No program header found. Must have a header (# Program Name) with weeks or days below it.';
+    return {
+      success: false,
+      data: null,
+      errors: [message],
+      warnings: [],
+      diagnostics: [
+        { code: 'NO_PROGRAM_HEADER', severity: 'error', line: 0, startColumn: 0, endColumn: 0, message, text: '' },
+      ],
+    };
+  }
+
+  const programLine = context.lines[programIndex];
+  const programLevel = programLine.headerLevel!;
+  context.workoutHeaderLevel = programLevel;
+  context.exerciseHeaderLevel = programLevel + 1;
+  context.currentIndex = programIndex;
+  const section = parseWorkoutSection(context, programLine);
+  for (const max of section.oneRepMaxes) {
+    if (max.unit == null) max.unit = section.defaultWeightUnit;
+  }
+
+  const weeks: ProgramWeek[] = [];
+  const workouts: WorkoutPlan[] = [];
+  const idGenerator = idGeneratorFor(options.ids);
+  const seenPaths = new Map<string, number>();
+  const parseDay = (dayIndex: number, weekName?: string): WorkoutPlan | null => {
+    let workout = parseProgramDay(context, dayIndex);
+    if (workout) {
+      inheritProgramSettings(workout, section);
+      if (idGenerator) {
+        const path = [section.name, ...(weekName != null ? [weekName] : []), workout.name];
+        workout = assignIds(workout, uniquePath(path, seenPaths), idGenerator);
+      }
+      workouts.push(workout);
+    }
+    return workout;
+  };
+
+  for (let i = context.currentIndex; i < context.lines.length; i++) {
+    const line = context.lines[i];
+    if (line.headerLevel != null && line.headerLevel <= programLevel) break;
+    if (line.headerLevel !== programLevel + 1 || line.headerText == null) continue;
+
+    if (!WEEK_HEADER_PATTERN.test(line.headerText)) {
+      parseDay(i);
+      continue;
+    }
+
+    const week: ProgramWeek = { name: line.headerText, workoutIds: [] };
+    let dayCount = 0;
+    for (let j = i + 1; j < context.lines.length; j++) {
+      const dayLine = context.lines[j];
+      if (dayLine.headerLevel != null && dayLine.headerLevel <= programLevel + 1) break;
+      if (dayLine.headerLevel === programLevel + 2) {
+        dayCount += 1;
+        const workout = parseDay(j, line.headerText);
+        if (workout) week.workoutIds.push(workout.id);
+      }
+    }
+    if (dayCount === 0) {
+      context.errors.push({
+        line: line.lineNumber,
+        message: `Week "${line.headerText}" has no workouts`,
+        code: 'NO_WORKOUTS',
+        text: line.headerText,
+      });
+    }
+    weeks.push(week);
+  }
+
+  if (workouts.length === 0 && context.errors.length === 0) {
+    context.errors.push({
+      line: programLine.lineNumber,
+      message: 'Program must contain at least one workout',
+      code: 'NO_WORKOUTS',
+      text: programLine.headerText ?? undefined,
+    });
+  }
+
+  applyRules(context, context.rules);
+  const success = context.errors.length === 0;
+  const hasData = success || (context.lenient && workouts.length > 0);
+  return {
+    success,
+    data: hasData
+      ? {
+          id: idGenerator ? idGenerator('program', [section.name]) : generateId(),
+          name: section.name,
+          description: section.notes,
+          tags: section.tags,
+          defaultWeightUnit: section.defaultWeightUnit,
+          oneRepMaxes: section.oneRepMaxes,
+          progressionRules: section.progressionRules,
+          weeks,
+          workouts,
+        }
+      : null,
+    errors: context.errors.map((e) => `Line ${e.line}: ${e.message}`),
+    warnings: context.warnings.map((w) => `Line ${w.line}: ${w.message}`),
+    diagnostics: buildDiagnostics(context),
+    ...(context.lenient && { partial: hasData && !success }),
+  };
+}
+
+function createContext(lines: ParsedLine[], options: ParseOptions): ParseContext {
+  return {
+    lines,
+    currentIndex: 0,
+    workoutHeaderLevel: null,
+    exerciseHeaderLevel: null,
+    errors: [],
+    warnings: [],
+    dictionary: options.dictionary ?? null,
+    clock: options.clock ?? (() => new Date()),
+    rules: resolveRules(options.rules),
+    lenient: options.lenient ?? false,
+    sourceMap: options.sourceMap ?? false,
+    hooks: {},
+  };
+}
+
+/// Parses the workout whose header has been found; returns null if any errors were recorded, unless lenient.
+function parseWorkoutAt(
+  context: ParseContext,
+  workoutHeaderLine: ParsedLine,
+  sourceMarkdown: string,
+  hooks: ParseHooks = {}
+): WorkoutPlan | null {
+  const workoutId = hooks.workoutId ?? generateId();
+
   // Parse workout metadata and notes
   const section = parseWorkoutSection(context, workoutHeaderLine);
 
   // Parse exercises
-  let exercises = parseExercises(context, workoutId);
-
-  // Apply default weight unit to sets that have a weight but no explicit unit
-  if (section.defaultWeightUnit) {
-    for (const exercise of exercises) {
-      for (const set of exercise.sets) {
-        if (set.targetWeight != null && set.targetWeightUnit == null) {
-          set.targetWeightUnit = section.defaultWeightUnit;
-        }
-      }
+  let exercises = parseExercises(context, workoutId, hooks);
+  // Apply default weight unit to sets and one-rep maxes that have a weight but no explicit unit.
+  // Sets are copied rather than updated because the incremental parser shares parsed blocks.
+  const defaultUnit = section.defaultWeightUnit;
+  if (defaultUnit) {
+    for (const max of section.oneRepMaxes) {
+      if (max.unit == null) max.unit = defaultUnit;
     }
+    exercises = exercises.map((exercise) =>
+      exercise.sets.some((set) => set.targetWeight != null && set.targetWeightUnit == null)
+        ? {
+            ...exercise,
+            sets: exercise.sets.map((set) =>
+              set.targetWeight != null && set.targetWeightUnit == null ? { ...set, targetWeightUnit: defaultUnit } : set
+            ),
+          }
+        : exercise
+    );
   }
 
   if (exercises.length === 0) {
@@ -64,20 +322,18 @@ export function parseWorkout(markdown: string): ParseResult {
       line: workoutHeaderLine.lineNumber,
       message: 'Workout must contain at least one exercise',
       code: 'NO_EXERCISES',
+      text: workoutHeaderLine.headerText ?? undefined,
     });
   }
 
   // Check for critical errors
   if (context.errors.length > 0) {
-    return {
-      success: false,
-      data: null,
-      errors: context.errors.map((e) => `Line ${e.line}: ${e.message}`),
-      warnings: context.warnings.map((w) => `Line ${w.line}: ${w.message}`),
-    };
+    if (!context.lenient) return null;
+    exercises = dropEmptyExercises(exercises);
+    if (exercises.length === 0) return null;
   }
 
-  const now = new Date().toISOString();
+  const now = context.clock().toISOString();
   // Check for duplicate exercise names
   const seenExerciseNames = new Map<string, number>();
   for (const exercise of exercises) {
@@ -100,19 +356,136 @@ export function parseWorkout(markdown: string): ParseResult {
     description: section.notes,
     tags: section.tags,
     defaultWeightUnit: section.defaultWeightUnit,
-    sourceMarkdown: markdown,
+    sourceMarkdown,
     createdAt: now,
     updatedAt: now,
     isFavorite: false,
+    oneRepMaxes: section.oneRepMaxes,
+    progressionRules: section.progressionRules,
     exercises,
   };
 
-  return {
-    success: true,
-    data: workout,
+  return workout;
+}
+
+/**
+ * What is left of the exercises of a lenient parse once exercises whose sets
+ * all failed to parse are dropped, along with groups left without exercises.
+ * Order indexes are renumbered to stay contiguous.
+ */
+function dropEmptyExercises(exercises: PlannedExercise[]): PlannedExercise[] {
+  const kept = new Set<string>();
+  // Children follow their group, so walking backwards sees them first
+  for (let i = exercises.length - 1; i >= 0; i--) {
+    const exercise = exercises[i];
+    const isUsed = exercise.sets.length > 0 || exercises.some((e) => e.parentExerciseId === exercise.id && kept.has(e.id));
+    if (isUsed) kept.add(exercise.id);
+  }
+  return exercises
+    .filter((exercise) => kept.has(exercise.id))
+    .map((exercise, orderIndex) => (exercise.orderIndex === orderIndex ? exercise : { ...exercise, orderIndex }));
+}
+
+// MARK: - Program Parsing
+
+/// Parses one day of a program in its own context so that errors in one day don't void the others.
+function parseProgramDay(programContext: ParseContext, dayIndex: number): WorkoutPlan | null {
+  const dayLine = programContext.lines[dayIndex];
+  const context: ParseContext = {
+    lines: programContext.lines,
+    currentIndex: dayIndex,
+    workoutHeaderLevel: dayLine.headerLevel,
+    exerciseHeaderLevel: dayLine.headerLevel! + 1,
     errors: [],
-    warnings: context.warnings.map((w) => `Line ${w.line}: ${w.message}`),
+    warnings: [],
+    dictionary: programContext.dictionary,
+    clock: programContext.clock,
+    rules: programContext.rules,
+    lenient: programContext.lenient,
+    sourceMap: programContext.sourceMap,
+    hooks: programContext.hooks,
+  };
+  const end = context.lines.findIndex((l, i) => i > dayIndex && l.headerLevel != null && l.headerLevel <= dayLine.headerLevel!);
+  const sourceMarkdown = context.lines.slice(dayIndex, end < 0 ? undefined : end).map((l) => l.raw).join('\n').trimEnd();
+
+  const workout = parseWorkoutAt(context, dayLine, sourceMarkdown);
+  programContext.errors.push(...context.errors);
+  programContext.warnings.push(...context.warnings);
+  return workout;
+}
+
+function inheritProgramSettings(workout: WorkoutPlan, program: WorkoutSection): void {
+  workout.tags = [...program.tags, ...workout.tags.filter((t) => !program.tags.includes(t))];
+  workout.defaultWeightUnit = workout.defaultWeightUnit ?? program.defaultWeightUnit;
+
+  const ownMaxes = new Set(workout.oneRepMaxes.map((m) => m.exerciseName.toLowerCase()));
+  workout.oneRepMaxes = [
+    ...program.oneRepMaxes.filter((m) => !ownMaxes.has(m.exerciseName.toLowerCase())).map((m) => ({ ...m })),
+    ...workout.oneRepMaxes,
+  ];
+
+  const ownCategories = new Set(workout.progressionRules.map((r) => r.category));
+  workout.progressionRules = [
+    ...program.progressionRules.filter((r) => !ownCategories.has(r.category)),
+    ...workout.progressionRules,
+  ];
+
+  if (workout.defaultWeightUnit) {
+    for (const exercise of workout.exercises) {
+      for (const set of exercise.sets) {
+        if (set.targetWeight != null && set.targetWeightUnit == null) {
+          set.targetWeightUnit = workout.defaultWeightUnit;
+        }
+      }
+    }
+    for (const max of workout.oneRepMaxes) {
+      if (max.unit == null) max.unit = workout.defaultWeightUnit;
+    }
+  }
+}
+
+// MARK: - Diagnostics
+
+function buildDiagnostics(context: ParseContext): Diagnostic[] {
+  const diagnostics = [
+    ...context.errors.map((e) => toDiagnostic(e, 'error', context)),
+    ...context.warnings.map((w) => toDiagnostic(w, 'warning', context)),
+  ];
+  return diagnostics.sort((a, b) => a.line - b.line || a.startColumn - b.startColumn);
+}
+
+function toDiagnostic(issue: ParseError | ParseWarning, severity: DiagnosticSeverity, context: ParseContext): Diagnostic {
+  const line = context.lines[issue.line - 1];
+  if (!line) {
+    return { code: issue.code, severity, line: issue.line, startColumn: 0, endColumn: 0, message: issue.message, text: '' };
+  }
+
+  // Narrow to the offending text when it can be located; otherwise span the trimmed line
+  const textIndex = issue.text ? locateText(line.raw, issue.text, issue.after) : -1;
+  const text = textIndex >= 0 ? issue.text! : line.trimmed;
+  const start = textIndex >= 0 ? textIndex : line.raw.length - line.raw.trimStart().length;
+
+  const diagnostic: Diagnostic = {
+    code: issue.code,
+    severity,
+    line: issue.line,
+    startColumn: start + 1,
+    endColumn: start + text.length + 1,
+    message: issue.message,
+    text,
   };
+  const fix = fixFor(diagnostic, line.raw);
+  return fix ? { ...diagnostic, fix } : diagnostic;
+}
+
+/// Finds `text` after the first match of `after`, falling back to its first occurrence on the line.
+function locateText(raw: string, text: string, after: RegExp | undefined): number {
+  const anchor = after ? raw.match(after) : null;
+  if (anchor?.index != null) {
+    const index = raw.indexOf(text, anchor.index + anchor[0].length);
+    if (index >= 0) return index;
+  }
+  return raw.indexOf(text);
 }
 
 // MARK: - ID Generation
@@ -123,84 +496,82 @@ function generateId(): string {
 
 // MARK: - Line Preprocessing
 
-function preprocessLines(markdown: string): ParsedLine[] {
+export function preprocessLines(markdown: string): ParsedLine[] {
   // Normalize line endings (CRLF -> LF, CR -> LF)
   const normalized = markdown.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
   const rawLines = normalized.split('\n');
 
-  const headerRegex = /^(#{1,6})\s+(.+)$/;
-  const listRegex = /^-\s+(.+)$/;
-  const metadataRegex = /^@(\w+):\s*(.+)$/;
-
-  return rawLines.map((raw, index) => {
-    const trimmed = raw.trim();
-    const lineNumber = index + 1;
-
-    // Parse header
-    const headerMatch = trimmed.match(headerRegex);
-    if (headerMatch) {
-      return {
-        lineNumber,
-        raw,
-        trimmed,
-        headerLevel: headerMatch[1].length,
-        headerText: headerMatch[2].trim(),
-        isList: false,
-        listContent: null,
-        isMetadata: false,
-        metadataKey: null,
-        metadataValue: null,
-      };
-    }
+  return rawLines.map((raw, index) => preprocessLine(raw, index + 1));
+}
 
-    // Parse list item
-    const listMatch = trimmed.match(listRegex);
-    if (listMatch) {
-      return {
-        lineNumber,
-        raw,
-        trimmed,
-        headerLevel: null,
-        headerText: null,
-        isList: true,
-        listContent: listMatch[1].trim(),
-        isMetadata: false,
-        metadataKey: null,
-        metadataValue: null,
-      };
-    }
+/// Classifies one line; lines are independent, which lets the incremental parser reuse them.
+export function preprocessLine(raw: string, lineNumber: number): ParsedLine {
+  const trimmed = raw.trim();
 
-    // Parse metadata
-    const metadataMatch = trimmed.match(metadataRegex);
-    if (metadataMatch) {
-      return {
-        lineNumber,
-        raw,
-        trimmed,
-        headerLevel: null,
-        headerText: null,
-        isList: false,
-        listContent: null,
-        isMetadata: true,
-        metadataKey: metadataMatch[1].toLowerCase(),
-        metadataValue: metadataMatch[2].trim(),
-      };
-    }
+  // Parse header
+  const headerMatch = trimmed.match(HEADER_PATTERN);
+  if (headerMatch) {
+    return {
+      lineNumber,
+      raw,
+      trimmed,
+      headerLevel: headerMatch[1].length,
+      headerText: headerMatch[2].trim(),
+      isList: false,
+      listContent: null,
+      isMetadata: false,
+      metadataKey: null,
+      metadataValue: null,
+    };
+  }
 
-    // Regular text
+  // Parse list item
+  const listMatch = trimmed.match(LIST_PATTERN);
+  if (listMatch) {
     return {
       lineNumber,
       raw,
       trimmed,
       headerLevel: null,
       headerText: null,
-      isList: false,
-      listContent: null,
+      isList: true,
+      listContent: listMatch[1].trim(),
       isMetadata: false,
       metadataKey: null,
       metadataValue: null,
     };
-  });
+  }
+
+  // Parse metadata
+  const metadataMatch = trimmed.match(METADATA_PATTERN);
+  if (metadataMatch) {
+    return {
+      lineNumber,
+      raw,
+      trimmed,
+      headerLevel: null,
+      headerText: null,
+      isList: false,
+      listContent: null,
+      isMetadata: true,
+      metadataKey: metadataMatch[1].toLowerCase(),
+      metadataValue: metadataMatch[2].trim(),
+    };
+  }
+
+  // Regular text
+  return {
+    lineNumber,
+    raw,
+    trimmed,
+    headerLevel: null,
+    headerText: null,
+    isList: false,
+    listContent: null,
+    isMetadata: false,
+    metadataKey: null,
+    metadataValue: null,
+  };
 }
 
 // MARK: - Workout Header Detection
@@ -273,6 +644,8 @@ function parseWorkoutSection(context: ParseContext, headerLine: ParsedLine): Wor
   const name = headerLine.headerText ?? '';
   let tags: string[] = [];
   let defaultWeightUnit: WeightUnit | null = null;
+  const oneRepMaxes: OneRepMax[] = [];
+  const progressionRules: CategoryProgression[] = [];
   const noteLines: string[] = [];
 
   // Move past header
@@ -301,10 +674,22 @@ function parseWorkoutSection(context: ParseContext, headerLine: ParsedLine): Wor
         if (unit) {
           defaultWeightUnit = unit;
         }
+      } else if (line.metadataKey === '1rm') {
+        const max = parseOneRepMaxMetadata(line.metadataValue ?? '', context, line.lineNumber);
+        if (max) {
+          addOneRepMax(oneRepMaxes, max, context, line.lineNumber);
+        }
+      } else if (line.metadataKey === 'progression') {
+        const progression = parseProgressionMetadata(line.metadataValue ?? '', context, line.lineNumber);
+        if (progression) {
+          addProgressionRule(progressionRules, progression, context, line.lineNumber);
+        }
+      } else {
+        // Ignore unknown metadata (forward compatible)
+        context.hooks.onMetadata?.(context, line);
       }
-      // Ignore unknown metadata (forward compatible)
-    } else if (line.trimmed.length > 0) {
-      // Collect freeform notes (non-empty, non-metadata lines)
+    } else if (line.trimmed.length > 0 && !DIRECTIVE_PATTERN.test(line.trimmed)) {
+      // Collect freeform notes (non-empty, non-metadata lines; rule comments are not notes)
       noteLines.push(line.trimmed);
     }
 
@@ -333,6 +718,8 @@ function parseWorkoutSection(context: ParseContext, headerLine: ParsedLine): Wor
     name,
     tags,
     defaultWeightUnit,
+    oneRepMaxes,
+    progressionRules,
     notes,
   };
 }
@@ -371,14 +758,126 @@ function parseUnitsMetadata(value: string, context: ParseContext, lineNumber: nu
         line: lineNumber,
         message: `Invalid @units value "${value}". Must be "lbs" or "kg"`,
         code: 'INVALID_UNITS',
+        text: value,
       });
       return null;
   }
 }
 
+/// Parses "Bench Press = 275 lbs"; the unit is optional and falls back to @units.
+function parseOneRepMaxMetadata(value: string, context: ParseContext, lineNumber: number): OneRepMax | null {
+  const match = value.match(ONE_REP_MAX_PATTERN);
+  if (!match) {
+    context.errors.push({
+      line: lineNumber,
+      message: `Invalid @1rm value "${value}". Expected format: "Exercise Name = 275 lbs"`,
+      code: 'INVALID_1RM',
+      text: value,
+    });
+    return null;
+  }
+
+  const weight = parseFloat(match[2]);
+  if (weight <= 0) {
+    context.errors.push({
+      line: lineNumber,
+      message: `One-rep max for "${match[1]}" must be positive, got: ${match[2]}`,
+      code: 'INVALID_1RM',
+      text: match[2],
+    });
+    return null;
+  }
+
+  return { exerciseName: match[1].trim(), weight, unit: match[3] ? normalizeWeightUnit(match[3]) : null };
+}
+
+function parseProgressionMetadata(value: string, context: ParseContext, lineNumber: number): CategoryProgression | null {
+  const match = value.trim().match(PROGRESSION_PATTERN);
+  if (!match) {
+    context.errors.push({
+      line: lineNumber,
+      message: `Invalid @progression value "${value}". Expected format: "+5 lbs", "compound +5 lbs", "double 8-12 +5 lbs" or "none"`,
+      code: 'INVALID_PROGRESSION',
+      text: value,
+    });
+    return null;
+  }
+
+  const [, categoryText, double, minText, maxText, none, incrementText, unitText] = match;
+  const category = categoryText == null
+    ? null
+    : categoryText.toLowerCase() === 'accessory' ? 'isolation' : (categoryText.toLowerCase() as ExerciseCategory);
+
+  if (none) {
+    return { category, rule: { type: 'none', increment: 0, unit: null, repsMin: null, repsMax: null } };
+  }
+
+  const increment = parseFloat(incrementText);
+  const repsMin = double ? parseInt(minText, 10) : null;
+  const repsMax = double ? parseInt(maxText, 10) : null;
+  if (increment <= 0 || (repsMin != null && (repsMin <= 0 || repsMin >= repsMax!))) {
+    context.errors.push({
+      line: lineNumber,
+      message: increment <= 0
+        ? `Progression increment must be positive, got: ${incrementText}`
+        : `Double progression needs a rep range from low to high, got: ${minText}-${maxText}`,
+      code: 'INVALID_PROGRESSION',
+      text: value,
+    });
+    return null;
+  }
+
+  return {
+    category,
+    rule: {
+      type: double ? 'double' : 'linear',
+      increment,
+      unit: unitText ? normalizeWeightUnit(unitText) : null,
+      repsMin,
+      repsMax,
+    },
+  };
+}
+
+/// Later @progression lines for the same category replace earlier ones.
+function addProgressionRule(
+  rules: CategoryProgression[],
+  progression: CategoryProgression,
+  context: ParseContext,
+  lineNumber: number
+): void {
+  const index = rules.findIndex((r) => r.category === progression.category);
+  if (index < 0) {
+    rules.push(progression);
+    return;
+  }
+  context.warnings.push({
+    line: lineNumber,
+    message: `Duplicate @progression for ${progression.category ?? 'all exercises'}. The last rule is used.`,
+    code: 'DUPLICATE_PROGRESSION',
+  });
+  rules[index] = progression;
+}
+
+/// Later @1rm lines for the same exercise replace earlier ones.
+function addOneRepMax(maxes: OneRepMax[], max: OneRepMax, context: ParseContext, lineNumber: number): void {
+  const index = maxes.findIndex((m) => m.exerciseName.toLowerCase() === max.exerciseName.toLowerCase());
+  if (index < 0) {
+    maxes.push(max);
+    return;
+  }
+  context.warnings.push({
+    line: lineNumber,
+    message: `Duplicate @1rm for '${max.exerciseName}'. The last value is used.`,
+    code: 'DUPLICATE_1RM',
+    text: max.exerciseName,
+  });
+  maxes[index] = max;
+}
+
 // MARK: - Exercise Parsing
 
-function parseExercises(context: ParseContext, workoutPlanId: string): PlannedExercise[] {
+function parseExercises(context: ParseContext, workoutPlanId: string, hooks: ParseHooks = {}): PlannedExercise[] {
   const exercises: PlannedExercise[] = [];
   let orderIndex = 0;
 
@@ -400,7 +899,8 @@ function parseExercises(context: ParseContext, workoutPlanId: string): PlannedEx
     if (line.headerLevel === context.exerciseHeaderLevel) {
       const blockLineNumber = line.lineNumber;
       const blockHeaderText = line.headerText;
-      const result = parseExerciseBlock(context, workoutPlanId, orderIndex);
+      const parse = () => parseExerciseBlock(context, workoutPlanId, orderIndex);
+      const result = hooks.parseBlock ? hooks.parseBlock(context, orderIndex, parse) : parse();
       switch (result.type) {
         case 'single':
           exercises.push(result.exercise);
@@ -477,7 +977,7 @@ function parseExerciseBlock(
   context.currentIndex += 1;
 
   // Parse metadata and notes
-  const { equipmentType, notes } = parseExerciseMetadata(context, headerLevel);
+  const { equipmentType, progression, notes, metadataLines } = parseExerciseMetadata(context, headerLevel);
 
   // Parse sets
   let sets = parseSets(context, headerLevel, exerciseId);
@@ -503,6 +1003,7 @@ function parseExerciseBlock(
       line: headerLine.lineNumber,
       message: `Exercise "${exerciseName}" has no sets`,
       code: 'NO_SETS',
+      text: exerciseName,
     });
   }
 
@@ -516,12 +1017,47 @@ function parseExerciseBlock(
     groupType: null,
     groupName: null,
     parentExerciseId: null,
+    canonicalId: null,
+    muscleGroups: null,
+    category: null,
+    progression,
     sets,
+    ...(context.sourceMap && {
+      source: { header: lineRange(headerLine), metadata: spanRange(metadataLines) },
+    }),
   };
 
+  if (context.dictionary) {
+    applyDictionary(exercise, context, headerLine);
+  }
+
   return { type: 'single', exercise };
 }
 
+/// Replaces an alias with its canonical name and attaches dictionary fields, or warns if unknown.
+function applyDictionary(exercise: PlannedExercise, context: ParseContext, headerLine: ParsedLine): void {
+  const dictionary = context.dictionary!;
+  const resolved = resolveExerciseName(dictionary, exercise.exerciseName);
+  if (resolved) {
+    exercise.exerciseName = resolved.name;
+    exercise.canonicalId = canonicalIdFor(resolved.definition);
+    exercise.muscleGroups = [...resolved.definition.muscleGroups];
+    exercise.category = resolved.definition.category;
+    return;
+  }
+
+  const suggestions = dictionary.suggest(exercise.exerciseName);
+  const hint = suggestions.length > 0
+    ? ` Did you mean ${suggestions.map((s) => `"${s}"`).join(' or ')}?`
+    : '';
+  context.warnings.push({
+    line: headerLine.lineNumber,
+    message: `Unknown exercise "${exercise.exerciseName}".${hint}`,
+    code: 'UNKNOWN_EXERCISE',
+    text: exercise.exerciseName,
+  });
+}
+
 function checkForNestedHeaders(context: ParseContext, headerIndex: number, headerLevel: number): boolean {
   for (let i = headerIndex + 1; i < context.lines.length; i++) {
     const line = context.lines[i];
@@ -580,7 +1116,12 @@ function parseGroupedExercises(
     groupType,
     groupName,
     parentExerciseId: null,
+    canonicalId: null,
+    muscleGroups: null,
+    category: null,
+    progression: null,
     sets: [],
+    ...(context.sourceMap && { source: { header: lineRange(headerLine), metadata: null } }),
   };
 
   context.currentIndex += 1;
@@ -648,9 +1189,11 @@ function parseGroupedExercises(
 function parseExerciseMetadata(
   context: ParseContext,
   exerciseHeaderLevel: number
-): { equipmentType: string | null; notes: string | null } {
+): { equipmentType: string | null; progression: ProgressionRule | null; notes: string | null; metadataLines: ParsedLine[] } {
   let equipmentType: string | null = null;
+  let progression: ProgressionRule | null = null;
   const noteLines: string[] = [];
+  const metadataLines: ParsedLine[] = [];
 
   while (context.currentIndex < context.lines.length) {
     const line = context.lines[context.currentIndex];
@@ -667,12 +1210,25 @@ function parseExerciseMetadata(
 
     // Parse metadata
     if (line.isMetadata) {
+      metadataLines.push(line);
       if (line.metadataKey === 'type') {
         equipmentType = line.metadataValue;
+      } else if (line.metadataKey === 'progression') {
+        const parsed = parseProgressionMetadata(line.metadataValue ?? '', context, line.lineNumber);
+        if (parsed?.category != null) {
+          context.errors.push({
+            line: line.lineNumber,
+            message: 'Category progression rules belong in workout metadata; an exercise rule applies to that exercise only',
+            code: 'INVALID_PROGRESSION',
+            text: line.metadataValue ?? undefined,
+          });
+        } else if (parsed) {
+          progression = parsed.rule;
+        }
       }
       // Ignore unknown metadata (forward compatible)
       context.currentIndex += 1;
-    } else if (line.trimmed.length > 0) {
+    } else if (line.trimmed.length > 0 && !DIRECTIVE_PATTERN.test(line.trimmed)) {
       noteLines.push(line.trimmed);
       context.currentIndex += 1;
     } else {
@@ -682,10 +1238,31 @@ function parseExerciseMetadata(
 
   return {
     equipmentType,
+    progression,
     notes: noteLines.length === 0 ? null : noteLines.join('\n'),
+    metadataLines,
+  };
+}
+
+/// The span of a line's text, leaving out surrounding whitespace.
+function lineRange(line: ParsedLine): SourceRange {
+  const startColumn = line.raw.length - line.raw.trimStart().length + 1;
+  return {
+    startLine: line.lineNumber,
+    startColumn,
+    endLine: line.lineNumber,
+    endColumn: Math.max(startColumn, line.raw.trimEnd().length + 1),
   };
 }
 
+/// The span from the first to the last of `lines`, or null when there are none.
+function spanRange(lines: ParsedLine[]): SourceRange | null {
+  if (lines.length === 0) return null;
+  const first = lineRange(lines[0]);
+  const last = lineRange(lines[lines.length - 1]);
+  return { startLine: first.startLine, startColumn: first.startColumn, endLine: last.endLine, endColumn: last.endColumn };
+}
+
 // MARK: - Set Parsing
 
 function parseSets(context: ParseContext, exerciseHeaderLevel: number, exerciseId: string): PlannedSet[] {
@@ -704,25 +1281,36 @@ function parseSets(context: ParseContext, exerciseHeaderLevel: number, exerciseI
     if (line.isList && line.listContent) {
       const parsedSet = parseSetLine(line.listContent, context, line.lineNumber);
       if (parsedSet) {
-        sets.push({
-          id: generateId(),
-          plannedExerciseId: exerciseId,
-          orderIndex,
-          targetWeight: parsedSet.weight ?? null,
-          targetWeightUnit: parsedSet.weightUnit ?? null,
-          targetReps: parsedSet.reps ?? null,
-          targetTime: parsedSet.time ?? null,
-          targetDistance: parsedSet.distance ?? null,
-          targetDistanceUnit: parsedSet.distanceUnit ?? null,
-          targetRpe: parsedSet.rpe != null ? roundRpe(parsedSet.rpe, context, line.lineNumber) : null,
-          restSeconds: parsedSet.rest ?? null,
-          tempo: parsedSet.tempo ?? null,
-          isDropset: parsedSet.isDropset ?? false,
-          isPerSide: parsedSet.isPerSide ?? false,
-          isAmrap: parsedSet.isAmrap ?? false,
-          notes: parsedSet.notes ?? null,
-        });
-        orderIndex += 1;
+        const targetRpe = parsedSet.rpe != null ? roundRpe(parsedSet.rpe, context, line.lineNumber) : null;
+        const hasRange = parsedSet.repsMax != null;
+        const source = context.sourceMap ? lineRange(line) : null;
+        context.hooks.onSetLine?.(context, line, parsedSet);
+        for (let i = 0; i < (parsedSet.count ?? 1); i++) {
+          sets.push({
+            id: generateId(),
+            plannedExerciseId: exerciseId,
+            orderIndex,
+            targetWeight: parsedSet.weight ?? null,
+            targetWeightUnit: parsedSet.weightUnit ?? null,
+            targetReps: parsedSet.reps ?? null,
+            targetRepsMin: hasRange ? parsedSet.reps ?? null : null,
+            targetRepsMax: hasRange ? parsedSet.repsMax ?? null : null,
+            targetPercentage: parsedSet.percentage ?? null,
+            percentageOf: parsedSet.percentageOf ?? null,
+            targetTime: parsedSet.time ?? null,
+            targetDistance: parsedSet.distance ?? null,
+            targetDistanceUnit: parsedSet.distanceUnit ?? null,
+            targetRpe,
+            restSeconds: parsedSet.rest ?? null,
+            tempo: parsedSet.tempo ?? null,
+            isDropset: parsedSet.isDropset ?? false,
+            isPerSide: parsedSet.isPerSide ?? false,
+            isAmrap: parsedSet.isAmrap ?? false,
+            notes: parsedSet.notes ?? null,
+            ...(source && { source: { ...source } }),
+          });
+          orderIndex += 1;
+        }
       }
       context.currentIndex += 1;
     } else {
@@ -741,16 +1329,60 @@ function roundRpe(value: number, context: ParseContext, lineNumber: number): num
       line: lineNumber,
       message: `RPE rounded to nearest integer (${value} → ${clamped})`,
       code: 'RPE_ROUNDED',
+      text: String(value),
+      after: MODIFIER_ANCHOR_PATTERN,
     });
   }
   return clamped;
 }
 
-function parseSetLine(content: string, context: ParseContext, lineNumber: number): ParsedSet | null {
+/// Parses the content of a set line; exported for the session log parser, which reads actual results the same way.
+export function parseSetLine(content: string, context: ParseContext, lineNumber: number): ParsedSet | null {
   // Split on @ to separate main content from modifiers
   const parts = content.split('@');
-  const mainPart = parts[0].trim();
-  const modifierParts = parts.slice(1);
+  let mainPart = parts[0].trim();
+  let modifierParts = parts.slice(1);
+
+  // Shorthand: "5 x 5 @ 225 lbs" is five sets of "225 lbs x 5"
+  const shorthand = matchSetShorthand(mainPart, modifierParts[0]);
+  if (shorthand) {
+    mainPart = shorthand.main;
+    modifierParts = modifierParts.slice(1);
+  }
+
+  // Percentage loads: "75% x 5" and "5 x 75%" are both 5 reps at 75% of a one-rep max
+  const percentage = matchPercentageLoad(mainPart);
+  if (percentage) {
+    if (percentage.value <= 0) {
+      context.errors.push({
+        line: lineNumber,
+        message: `Percentage must be positive, got: ${percentage.value}%`,
+        code: 'INVALID_PERCENTAGE',
+        text: `${percentage.value}%`,
+      });
+      return null;
+    }
+    if (percentage.value > ruleOption(context.rules, 'HIGH_PERCENTAGE', 'max')) {
+      context.warnings.push({
+        line: lineNumber,
+        message: `Percentage above ${ruleOption(context.rules, 'HIGH_PERCENTAGE', 'max')}% of one-rep max (${percentage.value}%). Double-check for typos.`,
+        code: 'HIGH_PERCENTAGE',
+        text: `${percentage.value}%`,
+      });
+    }
+    mainPart = percentage.main;
+  }
+
+  if (shorthand?.rpe != null && (shorthand.rpe < 1 || shorthand.rpe > 10)) {
+    context.errors.push({
+      line: lineNumber,
+      message: `RPE must be between 1-10, got: ${shorthand.rpe}`,
+      code: 'INVALID_RPE',
+      text: String(shorthand.rpe),
+      after: MODIFIER_ANCHOR_PATTERN,
+    });
+    return null;
+  }
 
   // Parse modifiers and extract trailing text
   const { modifiers, trailingText: modifierTrailingText } = parseModifiersAndTrailingText(
@@ -773,12 +1405,16 @@ function parseSetLine(content: string, context: ParseContext, lineNumber: number
 
   // Merge modifiers into set
   const result: ParsedSet = { ...setResult };
+  if (percentage) result.percentage = percentage.value;
+  if (shorthand?.percentageOf) result.percentageOf = shorthand.percentageOf;
+  if (shorthand?.rpe != null) result.rpe = shorthand.rpe;
   if (modifiers.rpe != null) result.rpe = modifiers.rpe;
   if (modifiers.rest != null) result.rest = modifiers.rest;
   if (modifiers.tempo != null) result.tempo = modifiers.tempo;
   if (modifiers.isDropset != null) result.isDropset = modifiers.isDropset;
   if (modifiers.isPerSide != null) result.isPerSide = modifiers.isPerSide;
   if (combined.length > 0) result.notes = combined;
+  if (shorthand) result.count = shorthand.count;
 
   // Auto-detect per-side keywords in set-line trailing text for timed sets
   if (result.time != null && result.isPerSide !== true) {
@@ -803,6 +1439,57 @@ function parseSetLine(content: string, context: ParseContext, lineNumber: number
   return result;
 }
 
+/// Rewrites shorthand such as "5 x 5" + "225 lbs" into "225 lbs x 5" with a set count.
+/// Loads may also be a percentage ("80% of Back Squat") or an RPE ("RPE 8").
+function matchSetShorthand(
+  mainPart: string,
+  loadPart: string | undefined
+): { main: string; count: number; percentageOf: string | null; rpe: number | null } | null {
+  if (loadPart == null) return null;
+  const setsMatch = mainPart.match(SET_SHORTHAND_PATTERN);
+  if (!setsMatch) return null;
+
+  const count = setsMatch[1] != null ? parseInt(setsMatch[1], 10) : 1;
+  if (count < 1 || count > MAX_SHORTHAND_SETS) return null;
+
+  const reps = setsMatch[2];
+  const join = (target: string, trailing: string | undefined) =>
+    trailing?.trim() ? `${target} ${trailing.trim()}` : target;
+  const load = loadPart.trim();
+
+  const loadMatch = load.match(SHORTHAND_LOAD_PATTERN);
+  if (loadMatch) {
+    const weight = loadMatch[3] != null ? 'bw' : `${loadMatch[1]}${loadMatch[2] ? ` ${loadMatch[2]}` : ''}`;
+    return { main: join(`${weight} x ${reps}`, loadMatch[4]), count, percentageOf: null, rpe: null };
+  }
+
+  const percentageMatch = load.match(SHORTHAND_PERCENTAGE_PATTERN);
+  if (percentageMatch) {
+    return { main: join(`${percentageMatch[1]}% x ${reps}`, percentageMatch[3]), count, percentageOf: percentageMatch[2]?.trim() || null, rpe: null };
+  }
+
+  const rpeMatch = load.match(SHORTHAND_RPE_PATTERN);
+  if (rpeMatch) {
+    return { main: join(`x ${reps}`, rpeMatch[2]), count, percentageOf: null, rpe: parseFloat(rpeMatch[1]) };
+  }
+
+  return null;
+}
+
+/// Strips a percentage load from "75% x 5" or "5 x 75%", leaving bodyweight-style content to parse.
+function matchPercentageLoad(mainPart: string): { main: string; value: number } | null {
+  const leading = mainPart.match(PERCENTAGE_SET_PATTERN);
+  if (leading) {
+    return { main: leading[2], value: parseFloat(leading[1]) };
+  }
+  const trailing = mainPart.match(REPS_PERCENTAGE_SET_PATTERN);
+  if (trailing) {
+    const rest = trailing[3].trim();
+    return { main: `x ${trailing[1]}${rest ? ` ${rest}` : ''}`, value: parseFloat(trailing[2]) };
+  }
+  return null;
+}
+
 function parseMainSetContent(
   content: string,
   context: ParseContext,
@@ -817,26 +1504,20 @@ function parseMainSetContent(
       line: lineNumber,
       message: 'Standalone "AMRAP" is not valid. AMRAP must be used with a weight (e.g., "135 x AMRAP" or "bw x AMRAP")',
       code: 'STANDALONE_AMRAP',
+      text: original,
     });
     return null;
   }
 
-  // Pattern 1: weight unit x reps/time (e.g., "225 lbs x 5", "45 lbs x 60s")
-  const pattern1 = /^(\d+(?:\.\d+)?)\s*(lbs?|kgs?|kg|bw)?\s*(?:x|for)\s*(\d+|amrap)\s*(reps?|s|sec|m|min)?(?=\s|$)\s*(.*)$/i;
-
-  // Pattern 2: bodyweight x|for reps/time (e.g., "x 10", "bw x 12", "bw for 60s")
-  const pattern2 = /^(?:(bw|x)\s*)?(?:x|for)\s*(\d+|amrap)\s*(reps?|s|sec|m|min)?(?=\s|$)\s*(.*)$/i;
-
   // Pattern D: distance (e.g., "200 meters", "0.5 km", "1 mile", "400 yd")
-  const distancePattern = /^(\d+(?:\.\d+)?)\s*(meters?|km|miles?|mi|feet|foot|ft|yards?|yd)(?=\s|$)\s*(.*)$/i;
-  const distanceMatch = original.match(distancePattern);
+  const distanceMatch = original.match(DISTANCE_SET_PATTERN);
   if (distanceMatch) {
     const distance = parseFloat(distanceMatch[1]);
     const unitStr = distanceMatch[2];
     const trailing = distanceMatch[3]?.trim() || null;
 
     if (distance <= 0) {
-      context.errors.push({ line: lineNumber, message: 'Distance must be positive', code: 'INVALID_DISTANCE' });
+      context.errors.push({ line: lineNumber, message: 'Distance must be positive', code: 'INVALID_DISTANCE', text: distanceMatch[1] });
       return null;
     }
 
@@ -849,11 +1530,8 @@ function parseMainSetContent(
     };
   }
 
-  // Pattern 3: single number (e.g., "10" = bodyweight reps, "60s" = time)
-  const pattern3 = /^(\d+)\s*(s|sec|m|min)?(?=\s|$)\s*(.*)$/i;
-
-  // Try pattern 1
-  let match = original.match(pattern1);
+  // Pattern 1: weight unit x reps/time (e.g., "225 lbs x 5", "45 lbs x 60s")
+  let match = original.match(WEIGHTED_SET_PATTERN);
   if (match) {
     const weightStr = match[1];
     const unitStr = match[2] || null;
@@ -865,7 +1543,7 @@ function parseMainSetContent(
     const weightUnit = normalizeWeightUnit(unitStr);
 
     if (weight < 0) {
-      context.errors.push({ line: lineNumber, message: 'Weight cannot be negative', code: 'NEGATIVE_WEIGHT' });
+      context.errors.push({ line: lineNumber, message: 'Weight cannot be negative', code: 'NEGATIVE_WEIGHT', text: weightStr });
       return null;
     }
 
@@ -882,16 +1560,14 @@ function parseMainSetContent(
       };
     }
 
-    const value = parseInt(repsOrTimeStr, 10);
-    if (value <= 0) {
-      context.errors.push({ line: lineNumber, message: 'Reps/time must be positive', code: 'INVALID_REPS_TIME' });
-      return null;
-    }
-
     const isTime = repsUnitStr
       ? repsUnitStr.toLowerCase().startsWith('s') || repsUnitStr.toLowerCase().startsWith('m')
       : false;
 
+    const count = parseCount(repsOrTimeStr, isTime, context, lineNumber);
+    if (!count) return null;
+    const value = count.min;
+
     const isBW = unitStr?.toLowerCase() === 'bw';
 
     if (isTime) {
@@ -905,26 +1581,21 @@ function parseMainSetContent(
         trailingText: trailing && trailing.length > 0 ? trailing : null,
       };
     } else {
-      if (value > 100) {
-        context.warnings.push({
-          line: lineNumber,
-          message: `Very high rep count (${value}). Double-check for typos.`,
-          code: 'HIGH_REPS',
-        });
-      }
+      checkHighReps(count, context, lineNumber);
       return {
         set: {
           weight: isBW ? null : weight,
           weightUnit: isBW ? null : (weightUnit ?? null),
           reps: value,
+          repsMax: count.max,
         },
         trailingText: trailing && trailing.length > 0 ? trailing : null,
       };
     }
   }
 
-  // Try pattern 2
-  match = original.match(pattern2);
+  // Pattern 2: bodyweight x|for reps/time (e.g., "x 10", "bw x 12", "bw for 60s")
+  match = original.match(BODYWEIGHT_SET_PATTERN);
   if (match) {
     const repsOrTimeStr = match[2].toLowerCase();
     const repsUnitStr = match[3] || null;
@@ -934,33 +1605,25 @@ function parseMainSetContent(
       return { set: { isAmrap: true }, trailingText: trailing && trailing.length > 0 ? trailing : null };
     }
 
-    const value = parseInt(repsOrTimeStr, 10);
-    if (value <= 0) {
-      context.errors.push({ line: lineNumber, message: 'Reps/time must be positive', code: 'INVALID_REPS_TIME' });
-      return null;
-    }
-
     const isTime = repsUnitStr
       ? repsUnitStr.toLowerCase().startsWith('s') || repsUnitStr.toLowerCase().startsWith('m')
       : false;
 
+    const count = parseCount(repsOrTimeStr, isTime, context, lineNumber);
+    if (!count) return null;
+    const value = count.min;
+
     if (isTime) {
       const seconds = normalizeTimeToSeconds(value, repsUnitStr);
       return { set: { time: seconds }, trailingText: trailing && trailing.length > 0 ? trailing : null };
     } else {
-      if (value > 100) {
-        context.warnings.push({
-          line: lineNumber,
-          message: `Very high rep count (${value}). Double-check for typos.`,
-          code: 'HIGH_REPS',
-        });
-      }
-      return { set: { reps: value }, trailingText: trailing && trailing.length > 0 ? trailing : null };
+      checkHighReps(count, context, lineNumber);
+      return { set: { reps: value, repsMax: count.max }, trailingText: trailing && trailing.length > 0 ? trailing : null };
     }
   }
 
-  // Try pattern 3
-  match = original.match(pattern3);
+  // Pattern 3: single number (e.g., "10" = bodyweight reps, "60s" = time)
+  match = original.match(SINGLE_VALUE_SET_PATTERN);
   if (match) {
     const valueStr = match[1];
     const unitStr = match[2] || null;
@@ -972,50 +1635,99 @@ function parseMainSetContent(
       if (/^(lbs?|kgs?|kg)\b/.test(trailingLower)) {
         context.errors.push({
           line: lineNumber,
-          message: `Incomplete set: "${content}". Weight with unit requires reps (x 5) or time (x 60s)`,
+          message: `Incomplete set: "${content}". Weight with unit requires reps (x 5) or time (x 60s). For distance, omit the weight (e.g., "200 meters")`,
           code: 'INCOMPLETE_SET',
+          text: original,
         });
         return null;
       }
     }
 
-    const value = parseInt(valueStr, 10);
-    if (value <= 0) {
-      context.errors.push({ line: lineNumber, message: 'Reps/time must be positive', code: 'INVALID_REPS_TIME' });
-      return null;
-    }
-
     const isTime = unitStr
       ? unitStr.toLowerCase().startsWith('s') || unitStr.toLowerCase().startsWith('m')
       : false;
 
+    const count = parseCount(valueStr, isTime, context, lineNumber);
+    if (!count) return null;
+    const value = count.min;
+
     if (isTime) {
       const seconds = normalizeTimeToSeconds(value, unitStr);
       return { set: { time: seconds }, trailingText: trailing && trailing.length > 0 ? trailing : null };
     } else {
-      if (value > 100) {
-        context.warnings.push({
-          line: lineNumber,
-          message: `Very high rep count (${value}). Double-check for typos.`,
-          code: 'HIGH_REPS',
-        });
-      }
-      return { set: { reps: value }, trailingText: trailing && trailing.length > 0 ? trailing : null };
+      checkHighReps(count, context, lineNumber);
+      return { set: { reps: value, repsMax: count.max }, trailingText: trailing && trailing.length > 0 ? trailing : null };
     }
   }
 
   // Failed to parse
   context.errors.push({
     line: lineNumber,
-    message: `Invalid set format: "${content}". Expected format: "weight unit x reps" or "time" or "AMRAP"`,
+    message: `Invalid set format: "${content}". Expected format: "weight unit x reps" or "time" or "distance" or "AMRAP"`,
     code: 'INVALID_SET_FORMAT',
+    text: original,
   });
   return null;
 }
 
 // MARK: - Helpers
 
-function normalizeWeightUnit(unit: string | null): WeightUnit | null {
+/// Splits a rep/time count such as "8" or "8-12" into bounds; max is null for a single count.
+function parseCount(
+  value: string,
+  isTime: boolean,
+  context: ParseContext,
+  lineNumber: number
+): { min: number; max: number | null } | null {
+  const [minStr, maxStr] = value.split('-');
+  const min = parseInt(minStr, 10);
+  const max = maxStr != null ? parseInt(maxStr, 10) : null;
+
+  if (min <= 0 || (max != null && max <= 0)) {
+    context.errors.push({ line: lineNumber, message: 'Reps/time must be positive', code: 'INVALID_REPS_TIME', text: value, after: COUNT_ANCHOR_PATTERN });
+    return null;
+  }
+  if (max == null) {
+    return { min, max: null };
+  }
+  if (isTime) {
+    context.errors.push({
+      line: lineNumber,
+      message: `Invalid range "${value}". Ranges are only supported for reps, not time`,
+      code: 'INVALID_REP_RANGE',
+      text: value,
+      after: COUNT_ANCHOR_PATTERN,
+    });
+    return null;
+  }
+  if (min > max) {
+    context.errors.push({
+      line: lineNumber,
+      message: `Invalid rep range "${value}". Minimum (${min}) must not exceed maximum (${max})`,
+      code: 'INVALID_REP_RANGE',
+      text: value,
+      after: COUNT_ANCHOR_PATTERN,
+    });
+    return null;
+  }
+  // "8-8" is just 8 reps
+  return { min, max: min === max ? null : max };
+}
+
+function checkHighReps(count: { min: number; max: number | null }, context: ParseContext, lineNumber: number): void {
+  const value = count.max ?? count.min;
+  if (value > ruleOption(context.rules, 'HIGH_REPS', 'max')) {
+    context.warnings.push({
+      line: lineNumber,
+      message: `Very high rep count (${value}). Double-check for typos.`,
+      code: 'HIGH_REPS',
+      text: String(value),
+      after: COUNT_ANCHOR_PATTERN,
+    });
+  }
+}
+
+export function normalizeWeightUnit(unit: string | null): WeightUnit | null {
   if (!unit) return null;
   const normalized = unit.toLowerCase().trim();
   switch (normalized) {
@@ -1032,7 +1744,7 @@ function normalizeWeightUnit(unit: string | null): WeightUnit | null {
   }
 }
 
-function normalizeDistanceUnit(unit: string): DistanceUnit {
+export function normalizeDistanceUnit(unit: string): DistanceUnit {
   const lower = unit.toLowerCase();
   switch (lower) {
     case 'meters':
@@ -1094,7 +1806,7 @@ function parseModifiersAndTrailingText(
     }
 
     // Try to parse as key: value modifier
-    const modifierMatch = trimmed.match(/^(\w+):\s*(.+)$/);
+    const modifierMatch = trimmed.match(MODIFIER_PATTERN);
     if (!modifierMatch) {
       // Not a valid modifier, treat as trailing text
       trailingTextParts.push(trimmed);
@@ -1103,10 +1815,12 @@ function parseModifiersAndTrailingText(
 
     const key = modifierMatch[1].toLowerCase();
     const value = modifierMatch[2].trim();
+    // Values such as the "5s" in "45s @rest: 5s" are located after their key
+    const after = new RegExp(`@\\s*${modifierMatch[1]}:`);
 
     switch (key) {
       case 'rpe': {
-        const rpeMatch = value.match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
+        const rpeMatch = value.match(RPE_VALUE_PATTERN);
         if (rpeMatch) {
           const rpe = parseFloat(rpeMatch[1]);
           const remaining = rpeMatch[2]?.trim() || null;
@@ -1115,6 +1829,8 @@ function parseModifiersAndTrailingText(
               line: lineNumber,
               message: `RPE must be between 1-10, got: ${rpeMatch[1]}`,
               code: 'INVALID_RPE',
+              text: rpeMatch[1],
+              after,
             });
           } else {
             modifiers.rpe = rpe;
@@ -1123,6 +1839,7 @@ function parseModifiersAndTrailingText(
               line: lineNumber,
               message: `@rpe is deprecated — use freeform notes instead`,
               code: 'DEPRECATED_RPE',
+              text: `@${trimmed}`,
             });
           }
         } else {
@@ -1130,13 +1847,15 @@ function parseModifiersAndTrailingText(
             line: lineNumber,
             message: `Invalid RPE format: ${value}`,
             code: 'INVALID_RPE',
+            text: value,
+            after,
           });
         }
         break;
       }
 
       case 'rest': {
-        const restMatch = value.match(/^(\d+)\s*(s|sec|m|min)?\s*(.*)$/i);
+        const restMatch = value.match(REST_VALUE_PATTERN);
         if (restMatch) {
           const numStr = restMatch[1];
           const unitStr = restMatch[2] || null;
@@ -1144,18 +1863,31 @@ function parseModifiersAndTrailingText(
           const restValue = `${numStr}${unitStr ?? ''}`;
           const rest = parseRestTime(restValue);
           if (rest != null) {
-            if (rest < 10) {
+            if (unitStr == null) {
+              context.warnings.push({
+                line: lineNumber,
+                message: `Rest without a unit (${numStr}) is read as seconds. Add "s" or "m"`,
+                code: 'MISSING_REST_UNIT',
+                text: numStr,
+                after,
+              });
+            }
+            if (rest < ruleOption(context.rules, 'SHORT_REST', 'min')) {
               context.warnings.push({
                 line: lineNumber,
                 message: `Very short rest period (${rest}s). Double-check for typos.`,
                 code: 'SHORT_REST',
+                text: value,
+                after,
               });
             }
-            if (rest > 600) {
+            if (rest > ruleOption(context.rules, 'LONG_REST', 'max')) {
               context.warnings.push({
                 line: lineNumber,
                 message: `Very long rest period (${rest}s). Double-check for typos.`,
                 code: 'LONG_REST',
+                text: value,
+                after,
               });
             }
             modifiers.rest = rest;
@@ -1165,6 +1897,8 @@ function parseModifiersAndTrailingText(
               line: lineNumber,
               message: `Invalid rest time format: ${restValue}. Expected format: "180s" or "3m"`,
               code: 'INVALID_REST',
+              text: value,
+              after,
             });
           }
         } else {
@@ -1172,13 +1906,15 @@ function parseModifiersAndTrailingText(
             line: lineNumber,
             message: `Invalid rest time format: ${value}. Expected format: "180s" or "3m"`,
             code: 'INVALID_REST',
+            text: value,
+            after,
           });
         }
         break;
       }
 
       case 'tempo': {
-        const tempoMatch = value.match(/^(\d-\d-\d-\d)\s*(.*)$/);
+        const tempoMatch = value.match(TEMPO_VALUE_PATTERN);
         if (tempoMatch) {
           modifiers.tempo = tempoMatch[1];
           const remaining = tempoMatch[2]?.trim() || null;
@@ -1187,12 +1923,15 @@ function parseModifiersAndTrailingText(
             line: lineNumber,
             message: `@tempo is deprecated — use freeform notes instead`,
             code: 'DEPRECATED_TEMPO',
+            text: `@${trimmed}`,
           });
         } else {
           context.errors.push({
             line: lineNumber,
             message: `Invalid tempo format: ${value}. Expected format: "X-X-X-X" (e.g., "3-0-1-0")`,
             code: 'INVALID_TEMPO',
+            text: value,
+            after,
           });
         }
         break;
@@ -1204,6 +1943,7 @@ function parseModifiersAndTrailingText(
           line: lineNumber,
           message: `Unknown modifier: @${key}`,
           code: 'UNKNOWN_MODIFIER',
+          text: `@${modifierMatch[1]}`,
         });
         trailingTextParts.push(trimmed);
       }
@@ -0,0 +1,92 @@
+// MARK: - Line Patterns
+
+export const HEADER_PATTERN = /^(#{1,6})\s+(.+)$/;
+export const LIST_PATTERN = /^-\s+(.+)$/;
+export const METADATA_PATTERN = /^@(\w+):\s*(.+)$/;
+
+/** Rule suppression comment (e.g., "<!-- lmwf-disable-next-line HIGH_REPS, SHORT_REST -->") */
+export const DIRECTIVE_PATTERN = /^<!--\s*lmwf-disable(-next-line)?((?:\s+[\w,]+)*)\s*-->$/;
+
+/** Program week header (e.g., "Week 1", "Week 3 - Deload") */
+export const WEEK_HEADER_PATTERN = /^week\b/i;
+
+// MARK: - Set Patterns
+
+/** Weight, optional unit, then reps/time (e.g., "225 lbs x 5", "45 lbs x 60s", "135 x 8-12") */
+export const WEIGHTED_SET_PATTERN = /^(\d+(?:\.\d+)?)\s*(lbs?|kgs?|kg|bw)?\s*(?:x|for)\s*(\d+(?:-\d+)?|amrap)\s*(reps?|s|sec|m|min)?(?=\s|$)\s*(.*)$/i;
+
+/** Bodyweight x|for reps/time (e.g., "x 10", "bw x 12", "bw for 60s", "bw x 8-12") */
+export const BODYWEIGHT_SET_PATTERN = /^(?:(bw|x)\s*)?(?:x|for)\s*(\d+(?:-\d+)?|amrap)\s*(reps?|s|sec|m|min)?(?=\s|$)\s*(.*)$/i;
+
+/** Distance (e.g., "200 meters", "0.5 km", "1 mile", "400 yd") */
+export const DISTANCE_SET_PATTERN = /^(\d+(?:\.\d+)?)\s*(meters?|km|miles?|mi|feet|foot|ft|yards?|yd)(?=\s|$)\s*(.*)$/i;
+
+/** Single number (e.g., "10" = bodyweight reps, "60s" = time, "8-12" = bodyweight rep range) */
+export const SINGLE_VALUE_SET_PATTERN = /^(\d+(?:-\d+)?)\s*(s|sec|m|min)?(?=\s|$)\s*(.*)$/i;
+
+// MARK: - Percentage Patterns
+
+/** Percentage of a one-rep max, then reps/time (e.g., "75% x 5", "80% 1RM x 3", "60% for 30s") */
+export const PERCENTAGE_SET_PATTERN = /^(\d+(?:\.\d+)?)\s*%(?:\s*1rm)?\s*((?:x|for)\s*.*)$/i;
+
+/** Reps, then a percentage of a one-rep max (e.g., "5 x 75%", "3 x 80% 1RM") */
+export const REPS_PERCENTAGE_SET_PATTERN = /^(\d+(?:-\d+)?|amrap)\s*x\s*(\d+(?:\.\d+)?)\s*%(?:\s*1rm\b)?\s*(.*)$/i;
+
+/** Workout-level one-rep max (e.g., "@1rm: Bench Press = 275 lbs") */
+export const ONE_REP_MAX_PATTERN = /^(.+?)\s*=\s*(-?\d+(?:\.\d+)?)\s*(lbs?|kgs?)?$/i;
+
+/**
+ * Progression rule (e.g., "@progression: +5 lbs", "compound +5 lbs", "double 8-12 +2.5 kg", "none").
+ * Groups: category, "double", range min, range max, "none", increment, unit.
+ */
+export const PROGRESSION_PATTERN =
+  /^(?:(compound|isolation|accessory|bodyweight|cardio)\s+)?(?:(double)\s+(\d+)\s*-\s*(\d+)\s+)?(?:(none)|\+\s*(\d+(?:\.\d+)?)\s*(lbs?|kgs?)?)$/i;
+
+// MARK: - Shorthand Patterns
+
+/** Main part of a shorthand set: optional set count, then reps (e.g., "5 x 5", "3x8-12", "5") */
+export const SET_SHORTHAND_PATTERN = /^(?:(\d+)\s*x\s*)?(\d+(?:-\d+)?|amrap)$/i;
+
+/** Load following a shorthand set after `@` (e.g., "225 lbs", "100kg", "bw") */
+export const SHORTHAND_LOAD_PATTERN = /^(?:(\d+(?:\.\d+)?)\s*(lbs?|kgs?)?|(bw))(?=\s|$)\s*(.*)$/i;
+
+/** Percentage load following a shorthand set (e.g., "80%", "80% 1RM", "70% of Back Squat") */
+export const SHORTHAND_PERCENTAGE_PATTERN = /^(\d+(?:\.\d+)?)\s*%(?:\s*1rm\b)?(?:\s+of\s+(.+)|\s*(.*))$/i;
+
+/** RPE load following a shorthand set (e.g., "RPE 8", "rpe 7.5") */
+export const SHORTHAND_RPE_PATTERN = /^rpe\s*(\d+(?:\.\d+)?)(?=\s|$)\s*(.*)$/i;
+
+/** Larger counts are read as "weight x reps" with trailing text, as before shorthand existed */
+export const MAX_SHORTHAND_SETS = 20;
+
+// MARK: - Modifier Patterns
+
+export const MODIFIER_PATTERN = /^(\w+):\s*(.+)$/;
+export const RPE_VALUE_PATTERN = /^(\d+(?:\.\d+)?)\s*(.*)$/;
+export const REST_VALUE_PATTERN = /^(\d+)\s*(sec|min|s|m)?\s*(.*)$/i;
+export const TEMPO_VALUE_PATTERN = /^(\d-\d-\d-\d)\s*(.*)$/;
+
+// MARK: - Diagnostic Anchors
+
+/** Separator before a set's reps or time; counts are located after it so "100 x 0" points at the reps */
+export const COUNT_ANCHOR_PATTERN = /x|for/i;
+
+/** Start of a set's modifiers; shorthand and modifier RPE values are located after it */
+export const MODIFIER_ANCHOR_PATTERN = /@/;
+
+// MARK: - Session Log Patterns
+
+/** Checkbox starting a logged set: "[x]" completed, "[ ]" pending, "[-]" skipped, "[!]" failed */
+export const LOG_CHECKBOX_PATTERN = /^\[([ xX!-])\]\s*(.*)$/;
+
+/** Separates a logged set's plan from its result (e.g., "225 x 5 -> 225 x 4") */
+export const LOG_RESULT_SEPARATOR = /\s*(?:->|→)\s*/;
+
+/** RPE in a logged result, with or without the colon (e.g., "@rpe 9", "@rpe: 8.5") */
+export const LOG_RPE_PATTERN = /@\s*rpe:?\s*(\d+(?:\.\d+)?)/i;
+
+/** Session date metadata (e.g., "@date: 2026-02-20") */
+export const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Session duration metadata (e.g., "@duration: 75m", "1h 15m", "4500s") */
+export const DURATION_PATTERN = /^(?=\d)(?:(\d+)\s*h(?:rs?|ours?)?)?\s*(?:(\d+)\s*m(?:in|ins|inutes?)?)?\s*(?:(\d+)\s*s(?:ec|ecs|econds?)?)?$/i;
@@ -0,0 +1,256 @@
+import { parseSetLine, parseWorkoutLines, preprocessLines } from './index.js';
+import type {
+  ExerciseStatus,
+  ParseContext,
+  ParseHooks,
+  ParseOptions,
+  ParsedLine,
+  ParsedSet,
+  PlannedSet,
+  SessionExercise,
+  SessionParseResult,
+  SessionSet,
+  SetStatus,
+  WorkoutPlan,
+  WorkoutSession,
+} from './types.js';
+import {
+  DATE_PATTERN,
+  DURATION_PATTERN,
+  LOG_CHECKBOX_PATTERN,
+  LOG_RESULT_SEPARATOR,
+  LOG_RPE_PATTERN,
+} from './patterns.js';
+
+/** The log markers on one set line */
+interface LogEntry {
+  status: SetStatus;
+  /** Text after `->`; null when the set was done as planned or not done */
+  resultText: string | null;
+  /** The line's content without the markers, parsed as a planned set */
+  plan: string;
+}
+
+interface LoggedLine {
+  entry: LogEntry | null;
+  result: ParsedSet | null;
+  count: number;
+}
+
+const CHECKBOX_STATUS: Record<string, SetStatus> = { ' ': 'pending', x: 'completed', '-': 'skipped', '!': 'failed' };
+
+// MARK: - Public API
+
+/**
+ * Parses a workout log: an LMWF workout whose set lines may record what was
+ * done. A set line is the planned set, optionally preceded by a checkbox and
+ * followed by `->` and the result:
+ *
+ *     - [x] 225 x 5                 (completed as planned)
+ *     - [x] 225 x 5 -> 225 x 4 @rpe 9
+ *     - 225 x 5 -> 4                (a result alone marks the set completed)
+ *     - [!] 225 x 5 -> 225 x 3      (failed)
+ *     - [-] 225 x 5                 (skipped)
+ *     - [ ] 225 x 5                 (pending, as is a line without markers)
+ *
+ * Parts of the result that are left out come from the plan, so `-> 4` is four
+ * reps at the planned weight; completed sets without a result copy their targets.
+ * `@date: YYYY-MM-DD` and `@duration: 75m` in the workout metadata fill in the
+ * session's date and duration. Ids follow the `ids` option as for `parseWorkout`.
+ */
+export function parseSession(markdown: string, options: ParseOptions = {}): SessionParseResult {
+  const entries = new Map<number, LogEntry>();
+  const lines = preprocessLines(markdown).map((line): ParsedLine => {
+    const entry = line.isList && line.listContent ? readLogMarkers(line.listContent) : null;
+    if (!entry) return line;
+    entries.set(line.lineNumber, entry);
+    return { ...line, listContent: entry.plan };
+  });
+
+  const logged: LoggedLine[] = [];
+  let date: string | null = null;
+  let duration: number | null = null;
+  const hooks: ParseHooks = {
+    onMetadata: (context, line) => {
+      if (line.metadataKey === 'date') date = parseDateMetadata(line, context) ?? date;
+      if (line.metadataKey === 'duration') duration = parseDurationMetadata(line, context) ?? duration;
+    },
+    onSetLine: (context, line, set) => {
+      const entry = entries.get(line.lineNumber) ?? null;
+      const count = set.count ?? 1;
+      const result = entry ? parseResult(entry, line, count, context) : null;
+      // AMRAP sets have no rep target to copy
+      if (entry?.status === 'completed' && set.isAmrap && result?.reps == null) {
+        context.warnings.push({
+          line: line.lineNumber,
+          message: 'Completed AMRAP set has no result. Log the reps done, e.g. "-> 225 x 8"',
+          code: 'MISSING_LOG_RESULT',
+          text: entry.plan,
+        });
+      }
+      logged.push({ entry, result, count });
+    },
+  };
+
+  const result = parseWorkoutLines(lines, markdown, options, hooks);
+  const loggedSets = logged.flatMap((line) => Array.from({ length: line.count }, () => line));
+  return { ...result, data: result.data && buildSession(result.data, loggedSets, date, duration) };
+}
+
+// MARK: - Log Markers
+
+function readLogMarkers(content: string): LogEntry | null {
+  const checkbox = content.match(LOG_CHECKBOX_PATTERN);
+  const rest = checkbox ? checkbox[2] : content;
+  const [plan, ...results] = rest.split(LOG_RESULT_SEPARATOR);
+  const resultText = results.length > 0 ? results.join(' ').trim() : null;
+  if (!checkbox && resultText == null) return null;
+
+  const status = checkbox ? CHECKBOX_STATUS[checkbox[1].toLowerCase()] : 'completed';
+  return { status, resultText: resultText || null, plan: plan.trim() };
+}
+
+function parseResult(entry: LogEntry, line: ParsedLine, count: number, context: ParseContext): ParsedSet | null {
+  if (entry.resultText == null) return null;
+  const error = (message: string, code: string, text: string) => {
+    context.errors.push({ line: line.lineNumber, message, code, text });
+    return null;
+  };
+
+  if (entry.status !== 'completed' && entry.status !== 'failed') {
+    return error(`A ${entry.status} set cannot have a result`, 'INVALID_LOG_RESULT', entry.resultText);
+  }
+  if (count > 1) {
+    return error('Log results separately for each set instead of on a shorthand line', 'INVALID_LOG_RESULT', entry.resultText);
+  }
+
+  const rpeMatch = entry.resultText.match(LOG_RPE_PATTERN);
+  const rpe = rpeMatch ? parseFloat(rpeMatch[1]) : null;
+  if (rpe != null && (rpe < 1 || rpe > 10)) {
+    return error(`RPE must be between 1-10, got: ${rpeMatch![1]}`, 'INVALID_RPE', rpeMatch![1]);
+  }
+
+  const remaining = entry.resultText.replace(LOG_RPE_PATTERN, '').trim();
+  if (remaining.length === 0) return { rpe };
+
+  const parsed = parseSetLine(remaining, context, line.lineNumber);
+  if (!parsed) return null;
+  if ((parsed.count ?? 1) > 1 || parsed.percentage != null || parsed.isAmrap || parsed.repsMax != null) {
+    return error(
+      `Invalid result "${remaining}". Expected what was done, e.g. "225 x 4", "12" or "45s"`,
+      'INVALID_LOG_RESULT',
+      remaining
+    );
+  }
+  return { ...parsed, rpe: rpe ?? parsed.rpe };
+}
+
+function parseDateMetadata(line: ParsedLine, context: ParseContext): string | null {
+  const value = line.metadataValue ?? '';
+  const match = value.match(DATE_PATTERN);
+  const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+  if (!date || date.toISOString().slice(0, 10) !== value) {
+    context.errors.push({
+      line: line.lineNumber,
+      message: `Invalid @date value "${value}". Expected a date such as 2026-02-20`,
+      code: 'INVALID_DATE',
+      text: value,
+    });
+    return null;
+  }
+  return value;
+}
+
+function parseDurationMetadata(line: ParsedLine, context: ParseContext): number | null {
+  const value = line.metadataValue ?? '';
+  const match = value.match(DURATION_PATTERN);
+  if (!match) {
+    context.errors.push({
+      line: line.lineNumber,
+      message: `Invalid @duration value "${value}". Expected a duration such as "75m" or "1h 15m"`,
+      code: 'INVALID_DURATION',
+      text: value,
+    });
+    return null;
+  }
+  const [, hours, minutes, seconds] = match;
+  return (parseInt(hours ?? '0', 10) * 60 + parseInt(minutes ?? '0', 10)) * 60 + parseInt(seconds ?? '0', 10);
+}
+
+// MARK: - Session
+
+function buildSession(
+  plan: WorkoutPlan,
+  loggedSets: LoggedLine[],
+  date: string | null,
+  duration: number | null
+): WorkoutSession {
+  let setIndex = 0;
+  const exercises = plan.exercises.map((exercise): SessionExercise => ({
+    id: exercise.id,
+    workoutSessionId: plan.id,
+    exerciseName: exercise.exerciseName,
+    orderIndex: exercise.orderIndex,
+    notes: exercise.notes,
+    equipmentType: exercise.equipmentType,
+    groupType: exercise.groupType,
+    groupName: exercise.groupName,
+    parentExerciseId: exercise.parentExerciseId,
+    sets: exercise.sets.map((set) => toSessionSet(set, loggedSets[setIndex++], plan)),
+    status: 'pending',
+  }));
+
+  for (const exercise of exercises) {
+    exercise.status = exerciseStatus(setsUnder(exercise, exercises).map((set) => set.status));
+  }
+  const statuses = exercises.flatMap((exercise) => exercise.sets.map((set) => set.status));
+
+  return {
+    id: plan.id,
+    workoutPlanId: null,
+    name: plan.name,
+    date,
+    duration,
+    notes: plan.description,
+    tags: plan.tags,
+    defaultWeightUnit: plan.defaultWeightUnit,
+    exercises,
+    status: statuses.length > 0 && !statuses.includes('pending') ? 'completed' : 'in_progress',
+  };
+}
+
+function toSessionSet(set: PlannedSet, logged: LoggedLine | undefined, plan: WorkoutPlan): SessionSet {
+  const { id, plannedExerciseId, ...target } = set;
+  const status = logged?.entry?.status ?? 'pending';
+  const done = status === 'completed' || status === 'failed';
+  const result = logged?.result ?? {};
+
+  return {
+    ...target,
+    id,
+    sessionExerciseId: plannedExerciseId,
+    notes: [target.notes, result.notes].filter((n) => n != null).join(' ') || null,
+    actualWeight: done ? result.weight ?? target.targetWeight : null,
+    actualWeightUnit: done
+      ? result.weight != null ? result.weightUnit ?? plan.defaultWeightUnit : target.targetWeightUnit
+      : null,
+    actualReps: done ? result.reps ?? target.targetReps : null,
+    actualTime: done ? result.time ?? target.targetTime : null,
+    actualDistance: done ? result.distance ?? target.targetDistance : null,
+    actualDistanceUnit: done ? result.distanceUnit ?? target.targetDistanceUnit : null,
+    actualRpe: done ? result.rpe ?? target.targetRpe : null,
+    status,
+  };
+}
+
+/// The sets of an exercise, or of every exercise nested under a group.
+function setsUnder(exercise: SessionExercise, exercises: SessionExercise[]): SessionSet[] {
+  const children = exercises.filter((e) => e.parentExerciseId === exercise.id);
+  return [...exercise.sets, ...children.flatMap((child) => setsUnder(child, exercises))];
+}
+
+function exerciseStatus(statuses: SetStatus[]): ExerciseStatus {
+  if (statuses.every((status) => status === 'pending')) return 'pending';
+  if (statuses.every((status) => status === 'skipped')) return 'skipped';
+  return statuses.includes('pending') ? 'in_progress' : 'completed';
+}
@@ -1,8 +1,49 @@
+import type { ExerciseCategory, ExerciseDictionary } from '../dictionary/index.js';
+import type { ResolvedRules, RulesConfig } from '../rules/index.js';
+
 // MARK: - Enums
 
 export type WeightUnit = 'lbs' | 'kg';
 export type DistanceUnit = 'meters' | 'km' | 'miles' | 'feet' | 'yards';
 export type GroupType = 'superset' | 'section';
+export type DiagnosticSeverity = 'error' | 'warning';
+export type SetStatus = 'pending' | 'completed' | 'skipped' | 'failed';
+export type ExerciseStatus = 'pending' | 'in_progress' | 'completed' | 'skipped';
+export type SessionStatus = 'in_progress' | 'completed' | 'canceled';
+
+// MARK: - Parse Options
+
+export interface ParseOptions {
+  /** Resolve exercise aliases to canonical names and warn about unknown exercises */
+  dictionary?: ExerciseDictionary;
+  /**
+   * How ids are made: random UUIDs (the default), `'deterministic'` name-based
+   * UUIDs, or a custom generator. The last two derive ids from the workout name,
+   * exercise path and set index, so parsing the same markdown twice gives the same ids.
+   */
+  ids?: 'random' | 'deterministic' | IdGenerator;
+  /** Time for `createdAt` and `updatedAt`; defaults to the current time */
+  clock?: () => Date;
+  /** Severity and options of lint rules (see `RULES`); omitted rules keep their defaults */
+  rules?: RulesConfig;
+  /**
+   * Return what could be parsed even when there are errors: sets that fail to
+   * parse are skipped, exercises left without sets are dropped, and the result
+   * is marked `partial`. `success` is still false when there are errors.
+   */
+  lenient?: boolean;
+  /** Add `source` locations in the markdown to exercises and sets */
+  sourceMap?: boolean;
+}
+
+export type IdKind = 'program' | 'workout' | 'exercise' | 'set';
+
+/**
+ * Makes the id for an entity from its path: `[workout]` for a workout (or
+ * `[program, week?, day]` in a program), then the names of enclosing groups and
+ * the exercise, then the set index as a string. Repeated paths end in `#2`, `#3`, ...
+ */
+export type IdGenerator = (kind: IdKind, path: readonly string[]) => string;
 
 // MARK: - Parse Result Types
 
@@ -11,18 +52,93 @@ export interface ParseResult {
   data: WorkoutPlan | null;
   errors: string[];
   warnings: string[];
+  diagnostics: Diagnostic[];
+  /** True when a lenient parse returned data despite errors, leaving out what failed to parse */
+  partial?: boolean;
+}
+
+export interface ProgramParseResult {
+  success: boolean;
+  data: TrainingProgram | null;
+  errors: string[];
+  warnings: string[];
+  diagnostics: Diagnostic[];
+  /** True when a lenient parse returned data despite errors, leaving out what failed to parse */
+  partial?: boolean;
+}
+
+export interface SessionParseResult {
+  success: boolean;
+  data: WorkoutSession | null;
+  errors: string[];
+  warnings: string[];
+  diagnostics: Diagnostic[];
 }
 
 export interface ParseError {
   line: number;
   message: string;
   code: string;
+  /** Offending text on the line, used to narrow the diagnostic span */
+  text?: string;
+  /** Text preceding `text` on the line; `text` is looked for after its first match, as it may also appear earlier */
+  after?: RegExp;
 }
 
 export interface ParseWarning {
   line: number;
   message: string;
   code: string;
+  /** Offending text on the line, used to narrow the diagnostic span */
+  text?: string;
+  /** Text preceding `text` on the line; `text` is looked for after its first match, as it may also appear earlier */
+  after?: RegExp;
+}
+
+/**
+ * Structured form of a parse error or warning. Lines and columns are 1-based;
+ * `endColumn` is exclusive. Line 0 means the issue is not tied to a line.
+ */
+export interface Diagnostic {
+  code: string;
+  severity: DiagnosticSeverity;
+  line: number;
+  startColumn: number;
+  endColumn: number;
+  message: string;
+  text: string;
+  /** A machine-applicable correction, present when the right one is obvious */
+  fix?: DiagnosticFix;
+}
+
+export interface DiagnosticFix {
+  /** What the fix does, e.g. 'Replace "pounds" with "lbs"' */
+  title: string;
+  edits: DiagnosticEdit[];
+}
+
+/** Replaces columns `startColumn` up to `endColumn` (1-based, exclusive) of a line */
+export interface DiagnosticEdit {
+  line: number;
+  startColumn: number;
+  endColumn: number;
+  newText: string;
+}
+
+/** Lines and columns of a span of the markdown (1-based, `endColumn` exclusive) */
+export interface SourceRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/** Where an exercise is in the markdown */
+export interface ExerciseSource {
+  /** The exercise header line */
+  header: SourceRange;
+  /** From the first to the last `@` metadata line under the header; null without metadata */
+  metadata: SourceRange | null;
 }
 
 // MARK: - Data Types
@@ -37,9 +153,61 @@ export interface WorkoutPlan {
   createdAt: string;
   updatedAt: string;
   isFavorite: boolean;
+  /** One-rep maxes from `@1rm` metadata, used to resolve percentage loads */
+  oneRepMaxes: OneRepMax[];
+  /** Rules from workout-level `@progression` metadata */
+  progressionRules: CategoryProgression[];
   exercises: PlannedExercise[];
 }
 
+/**
+ * How an exercise moves from one session to the next. `linear` adds the
+ * increment to every weighted set; `double` adds a rep per session until the
+ * top of the range, then adds the increment and returns to the bottom; `none`
+ * leaves the exercise as it is.
+ */
+export interface ProgressionRule {
+  type: 'linear' | 'double' | 'none';
+  /** Weight added per step; 0 for `none` */
+  increment: number;
+  /** Unit of the increment; null means the unit of each set */
+  unit: WeightUnit | null;
+  /** Rep range for `double`; null otherwise */
+  repsMin: number | null;
+  repsMax: number | null;
+}
+
+/** A workout-level `@progression` rule for one exercise category, or every exercise when null */
+export interface CategoryProgression {
+  category: ExerciseCategory | null;
+  rule: ProgressionRule;
+}
+
+export interface OneRepMax {
+  exerciseName: string;
+  weight: number;
+  unit: WeightUnit | null;
+}
+
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  description: string | null;
+  tags: string[];
+  defaultWeightUnit: WeightUnit | null;
+  oneRepMaxes: OneRepMax[];
+  progressionRules: CategoryProgression[];
+  /** Weeks in document order; empty when days sit directly under the program */
+  weeks: ProgramWeek[];
+  /** Every workout in document order, with program settings inherited */
+  workouts: WorkoutPlan[];
+}
+
+export interface ProgramWeek {
+  name: string;
+  workoutIds: string[];
+}
+
 export interface PlannedExercise {
   id: string;
   workoutPlanId: string;
@@ -50,7 +218,15 @@ export interface PlannedExercise {
   groupType: GroupType | null;
   groupName: string | null;
   parentExerciseId: string | null;
+  /** Dictionary fields; null unless parsed with a dictionary and the name is known */
+  canonicalId: string | null;
+  muscleGroups: string[] | null;
+  category: ExerciseCategory | null;
+  /** Rule from the exercise's `@progression` metadata; null falls back to the workout's rules */
+  progression: ProgressionRule | null;
   sets: PlannedSet[];
+  /** Present when parsed with `sourceMap` */
+  source?: ExerciseSource;
 }
 
 export interface PlannedSet {
@@ -60,6 +236,13 @@ export interface PlannedSet {
   targetWeight: number | null;
   targetWeightUnit: WeightUnit | null;
   targetReps: number | null;
+  /** Rep range bounds (e.g., "8-12"); null for a single rep count. targetReps holds the minimum. */
+  targetRepsMin: number | null;
+  targetRepsMax: number | null;
+  /** Load as a percentage of a one-rep max (e.g., 75 for "75%"); targetWeight stays null until resolved */
+  targetPercentage: number | null;
+  /** Exercise whose one-rep max the percentage refers to; null means this exercise */
+  percentageOf: string | null;
   targetTime: number | null;
   targetDistance: number | null;
   targetDistanceUnit: DistanceUnit | null;
@@ -70,6 +253,57 @@ export interface PlannedSet {
   isPerSide: boolean;
   isAmrap: boolean;
   notes: string | null;
+  /** The set line, present when parsed with `sourceMap`; sets written as shorthand share it */
+  source?: SourceRange;
+}
+
+// MARK: - Session Types
+
+/** A performed workout read from a log: each set has its targets and what was actually done */
+export interface WorkoutSession {
+  id: string;
+  /** Always null for sessions read from markdown, which are not tied to a stored plan */
+  workoutPlanId: string | null;
+  name: string;
+  /** ISO date (YYYY-MM-DD) from `@date` */
+  date: string | null;
+  /** Seconds, from `@duration` */
+  duration: number | null;
+  notes: string | null;
+  tags: string[];
+  defaultWeightUnit: WeightUnit | null;
+  exercises: SessionExercise[];
+  /** `completed` once no set is pending */
+  status: SessionStatus;
+}
+
+export interface SessionExercise {
+  id: string;
+  workoutSessionId: string;
+  exerciseName: string;
+  orderIndex: number;
+  notes: string | null;
+  equipmentType: string | null;
+  groupType: GroupType | null;
+  groupName: string | null;
+  parentExerciseId: string | null;
+  sets: SessionSet[];
+  /** From the sets of the exercise, or of its children for a group */
+  status: ExerciseStatus;
+}
+
+export interface SessionSet extends Omit<PlannedSet, 'id' | 'plannedExerciseId'> {
+  id: string;
+  sessionExerciseId: string;
+  /** Null until the set is completed or failed */
+  actualWeight: number | null;
+  actualWeightUnit: WeightUnit | null;
+  actualReps: number | null;
+  actualTime: number | null;
+  actualDistance: number | null;
+  actualDistanceUnit: DistanceUnit | null;
+  actualRpe: number | null;
+  status: SetStatus;
 }
 
 // MARK: - Internal Parse Types
@@ -94,12 +328,23 @@ export interface ParseContext {
   exerciseHeaderLevel: number | null;
   errors: ParseError[];
   warnings: ParseWarning[];
+  dictionary: ExerciseDictionary | null;
+  clock: () => Date;
+  rules: ResolvedRules;
+  /** Build the workout even when errors were recorded (see `ParseOptions.lenient`) */
+  lenient: boolean;
+  /** Add `source` locations to exercises and sets (see `ParseOptions.sourceMap`) */
+  sourceMap: boolean;
+  hooks: ParseHooks;
 }
 
 export interface ParsedSet {
   weight?: number | null;
   weightUnit?: WeightUnit | null;
   reps?: number | null;
+  repsMax?: number | null;
+  percentage?: number | null;
+  percentageOf?: string | null;
   time?: number | null;
   distance?: number | null;
   distanceUnit?: DistanceUnit | null;
@@ -110,12 +355,16 @@ export interface ParsedSet {
   isDropset?: boolean | null;
   isPerSide?: boolean | null;
   notes?: string | null;
+  /** Number of identical sets this line expands to (shorthand such as "5 x 5 @ 225") */
+  count?: number | null;
 }
 
 export interface WorkoutSection {
   name: string;
   tags: string[];
   defaultWeightUnit: WeightUnit | null;
+  oneRepMaxes: OneRepMax[];
+  progressionRules: CategoryProgression[];
   notes: string | null;
 }
 
@@ -123,3 +372,19 @@ export type ExerciseBlockResult =
   | { type: 'single'; exercise: PlannedExercise }
   | { type: 'group'; exercises: PlannedExercise[] }
   | { type: 'none' };
+
+/** Extension points for `parseWorkoutLines`, used by the incremental parser */
+export interface ParseHooks {
+  /** Id for the workout instead of a fresh UUID; ignored when the `ids` option is set */
+  workoutId?: string;
+  /**
+   * Called for each top-level exercise block with the context positioned at its
+   * header. Either call `parse` or return an equivalent earlier result and
+   * advance `context.currentIndex` past the block.
+   */
+  parseBlock?: (context: ParseContext, orderIndex: number, parse: () => ExerciseBlockResult) => ExerciseBlockResult;
+  /** Called for workout-level metadata the parser does not know, which is otherwise ignored */
+  onMetadata?: (context: ParseContext, line: ParsedLine) => void;
+  /** Called in document order for each set line that parses; `set.count` is the number of sets it expands to */
+  onSetLine?: (context: ParseContext, line: ParsedLine, set: ParsedSet) => void;
+}
@@ -0,0 +1,310 @@
+import type {
+  ParseOptions,
+  PlannedExercise,
+  PlannedSet,
+  TrainingProgram,
+  WeightUnit,
+  WorkoutPlan,
+} from '../parser/types.js';
+import { parseProgram } from '../parser/index.js';
+import { exerciseDictionary, resolveExerciseName } from '../dictionary/index.js';
+import type { ExerciseDictionary } from '../dictionary/index.js';
+import { serializeProgram } from '../serializer/index.js';
+import { roundToIncrement } from '../units/index.js';
+
+export type PeriodizationScheme = 'linear' | 'undulating' | '531' | 'block';
+
+export interface PeriodizationOptions extends Pick<ParseOptions, 'ids' | 'clock'> {
+  scheme: PeriodizationScheme;
+  /** Weeks in the program, deloads included; defaults to 4 */
+  weeks?: number;
+  /** Every nth week is a deload, 0 for none; defaults to 4. 5/3/1 always deloads in the fourth week of a cycle */
+  deloadEvery?: number;
+  /** Fraction of each exercise's sets kept in a deload week; defaults to 0.5 */
+  deloadVolume?: number;
+  /** Deload loads as a fraction of the base workout's; defaults to 0.9 */
+  deloadIntensity?: number;
+  /** Load added each training week, as a fraction of the base workout's; defaults to 0.025 */
+  weeklyIncrease?: number;
+  /** Loads are rounded to the nearest multiple of this; defaults to 5 lbs or 2.5 kg */
+  increment?: number;
+  /** Program name; defaults to the workout name and scheme */
+  name?: string;
+  /** Finds compound lifts for 5/3/1 in plans parsed without a dictionary, and normalizes names in the result */
+  dictionary?: ExerciseDictionary;
+}
+
+export interface PeriodizationResult {
+  program: TrainingProgram;
+  /** The program as an LMWF program document (see `parseProgram`) */
+  markdown: string;
+}
+
+/** How a day's loads and reps relate to the base workout */
+interface DayAdjustment {
+  label: string | null;
+  intensity: number;
+  reps: number;
+  /** Fraction of sets kept; below 1 only in deload weeks */
+  volume: number;
+  /** Week of the 5/3/1 cycle (0-3) and the cycle number, for 5/3/1 programs */
+  wave: { week: number; cycle: number } | null;
+}
+
+interface WeekOutline {
+  name: string;
+  days: DayAdjustment[];
+}
+
+const DEFAULT_INCREMENTS: Record<WeightUnit, number> = { lbs: 5, kg: 2.5 };
+
+const SCHEME_NAMES: Record<PeriodizationScheme, string> = {
+  linear: 'Linear',
+  undulating: 'Undulating',
+  531: '5/3/1',
+  block: 'Block',
+};
+
+const UNDULATING_DAYS = [
+  { label: 'Heavy', intensity: 1.075, reps: 0.6 },
+  { label: 'Medium', intensity: 1, reps: 1 },
+  { label: 'Light', intensity: 0.9, reps: 1.6 },
+];
+
+const BLOCKS = [
+  { label: 'Accumulation', intensity: 0.9, reps: 1.6 },
+  { label: 'Transmutation', intensity: 1, reps: 1 },
+  { label: 'Realization', intensity: 1.075, reps: 0.6 },
+];
+
+// 5/3/1 main-lift sets per week of the cycle, as fractions of the training max
+const WAVES = [
+  { label: '5s', sets: [[0.65, 5], [0.75, 5], [0.85, 5]] },
+  { label: '3s', sets: [[0.7, 3], [0.8, 3], [0.9, 3]] },
+  { label: '5/3/1', sets: [[0.75, 5], [0.85, 3], [0.95, 1]] },
+  { label: 'Deload', sets: [[0.4, 5], [0.5, 5], [0.6, 5]] },
+];
+
+// 5/3/1 training maxes are 90% of the one-rep max
+const TRAINING_MAX = 0.9;
+
+// MARK: - Public API
+
+/**
+ * Builds a multi-week program from a base workout. The base workout is the
+ * first training week; later weeks follow the scheme:
+ *
+ * - `linear`: one day a week, loads rising by `weeklyIncrease` each week
+ * - `undulating`: heavy, medium and light days each week (fewer reps at a
+ *   higher load, the base, more reps at a lower load), rising weekly
+ * - `block`: accumulation, transmutation and realization blocks splitting the
+ *   training weeks, each block restarting its weekly rise
+ * - `531`: four-week cycles (5s, 3s, 5/3/1, deload). Compound lifts with a
+ *   weight use Wendler's sets from a training max of 90% of their `@1rm`, or of
+ *   a max estimated from their heaviest set; the last set is AMRAP outside
+ *   deloads and training maxes rise by one increment each cycle. Other
+ *   exercises repeat the base workout.
+ *
+ * Deload weeks are a single day keeping `deloadVolume` of each exercise's sets
+ * at `deloadIntensity` of the base loads. Percentage loads scale like weights;
+ * bodyweight and timed sets only change reps. The program is returned both as
+ * markdown and as the result of parsing that markdown.
+ */
+export function periodizeWorkout(plan: WorkoutPlan, options: PeriodizationOptions): PeriodizationResult {
+  const outline = outlineWeeks(options);
+  const dictionary = options.dictionary ?? exerciseDictionary;
+
+  let nextId = 0;
+  const weeks = outline.map((week) => ({
+    name: week.name,
+    workouts: week.days.map((day) => ({
+      ...adjustWorkout(plan, day, options, dictionary),
+      id: String(nextId++),
+      name: day.label ? `${plan.name} - ${day.label}` : plan.name,
+    })),
+  }));
+
+  const draft: TrainingProgram = {
+    id: plan.id,
+    name: options.name ?? `${plan.name} (${SCHEME_NAMES[options.scheme]})`,
+    description: plan.description,
+    tags: plan.tags,
+    defaultWeightUnit: plan.defaultWeightUnit,
+    oneRepMaxes: plan.oneRepMaxes,
+    progressionRules: plan.progressionRules,
+    weeks: weeks.map((week) => ({ name: week.name, workoutIds: week.workouts.map((w) => w.id) })),
+    workouts: weeks.flatMap((week) => week.workouts),
+  };
+
+  const markdown = serializeProgram(draft);
+  const parsed = parseProgram(markdown, { ids: options.ids, clock: options.clock, dictionary: options.dictionary });
+  if (!parsed.data) {
+    throw new Error(`Generated program does not parse:\n${parsed.errors.join('\n')}`);
+  }
+  return { program: parsed.data, markdown };
+}
+
+// MARK: - Weeks
+
+function outlineWeeks(options: PeriodizationOptions): WeekOutline[] {
+  const weekCount = Math.max(1, Math.floor(options.weeks ?? 4));
+  const deloadEvery = options.scheme === '531' ? 4 : Math.max(0, Math.floor(options.deloadEvery ?? 4));
+  const weeklyIncrease = options.weeklyIncrease ?? 0.025;
+  const deload: DayAdjustment = {
+    label: null,
+    intensity: options.deloadIntensity ?? 0.9,
+    reps: 1,
+    volume: options.deloadVolume ?? 0.5,
+    wave: null,
+  };
+
+  const isDeload = (week: number) => deloadEvery > 0 && week % deloadEvery === 0;
+  const trainingWeeks = Array.from({ length: weekCount }, (_, i) => i + 1).filter((week) => !isDeload(week)).length;
+  // Earlier blocks take the extra weeks when training weeks don't split evenly
+  const accumulation = Math.ceil(trainingWeeks / 3);
+  const blockStarts = [0, accumulation, accumulation + Math.ceil((trainingWeeks - accumulation) / 2)];
+
+  const weeks: WeekOutline[] = [];
+  let trainingWeek = 0;
+  for (let week = 1; week <= weekCount; week++) {
+    if (options.scheme === '531') {
+      const wave = { week: (week - 1) % 4, cycle: Math.floor((week - 1) / 4) };
+      const base = wave.week === 3 ? deload : { label: null, intensity: 1, reps: 1, volume: 1, wave: null };
+      weeks.push({ name: `Week ${week} (${WAVES[wave.week].label})`, days: [{ ...base, wave }] });
+      continue;
+    }
+    if (isDeload(week)) {
+      weeks.push({ name: `Week ${week} (Deload)`, days: [deload] });
+      continue;
+    }
+
+    const rise = (weeksIn: number) => 1 + weeksIn * weeklyIncrease;
+    if (options.scheme === 'linear') {
+      weeks.push({ name: `Week ${week}`, days: [{ label: null, intensity: rise(trainingWeek), reps: 1, volume: 1, wave: null }] });
+    } else if (options.scheme === 'undulating') {
+      const days = UNDULATING_DAYS.map((day) => ({ ...day, intensity: day.intensity * rise(trainingWeek), volume: 1, wave: null }));
+      weeks.push({ name: `Week ${week}`, days });
+    } else {
+      const block = blockStarts.filter((start) => start <= trainingWeek).length - 1;
+      const { label, ...adjustment } = BLOCKS[block];
+      const intensity = adjustment.intensity * rise(trainingWeek - blockStarts[block]);
+      weeks.push({ name: `Week ${week} (${label})`, days: [{ ...adjustment, label: null, intensity, volume: 1, wave: null }] });
+    }
+    trainingWeek += 1;
+  }
+  return weeks;
+}
+
+// MARK: - Workouts
+
+function adjustWorkout(
+  plan: WorkoutPlan,
+  day: DayAdjustment,
+  options: PeriodizationOptions,
+  dictionary: ExerciseDictionary
+): WorkoutPlan {
+  const incrementFor = (unit: WeightUnit | null) =>
+    options.increment ?? DEFAULT_INCREMENTS[unit ?? plan.defaultWeightUnit ?? 'lbs'];
+
+  const exercises = plan.exercises.map((exercise): PlannedExercise => {
+    if (exercise.sets.length === 0) return exercise;
+
+    if (day.wave) {
+      const trainingMax = trainingMaxFor(exercise, plan, dictionary);
+      if (trainingMax) {
+        return { ...exercise, sets: waveSets(exercise, trainingMax, day.wave, incrementFor(trainingMax.unit)) };
+      }
+    }
+
+    const kept = exercise.sets.slice(0, Math.max(1, Math.ceil(exercise.sets.length * day.volume)));
+    return {
+      ...exercise,
+      sets: kept.map((set) => adjustSet(set, day, incrementFor(set.targetWeightUnit))),
+    };
+  });
+
+  return { ...plan, exercises };
+}
+
+function adjustSet(set: PlannedSet, day: DayAdjustment, increment: number): PlannedSet {
+  const next = { ...set };
+  if (set.targetWeight != null) {
+    next.targetWeight = roundToIncrement(set.targetWeight * day.intensity, increment);
+  }
+  if (set.targetPercentage != null) {
+    next.targetPercentage = Math.round(set.targetPercentage * day.intensity);
+  }
+  if (day.reps !== 1 && !set.isAmrap && set.targetReps != null) {
+    const scale = (reps: number) => Math.max(1, Math.round(reps * day.reps));
+    if (set.targetRepsMax != null && scale(set.targetRepsMax) > scale(set.targetRepsMin ?? set.targetReps)) {
+      next.targetRepsMin = scale(set.targetRepsMin ?? set.targetReps);
+      next.targetRepsMax = scale(set.targetRepsMax);
+      next.targetReps = next.targetRepsMin;
+    } else {
+      next.targetReps = scale(set.targetReps);
+      next.targetRepsMin = null;
+      next.targetRepsMax = null;
+    }
+  }
+  return next;
+}
+
+// MARK: - 5/3/1
+
+/// 90% of the exercise's `@1rm`, or of a max estimated from its heaviest set; null unless a weighted compound lift.
+function trainingMaxFor(
+  exercise: PlannedExercise,
+  plan: WorkoutPlan,
+  dictionary: ExerciseDictionary
+): { weight: number; unit: WeightUnit | null } | null {
+  const category = exercise.category ?? resolveExerciseName(dictionary, exercise.exerciseName)?.definition.category;
+  if (category !== 'compound') return null;
+
+  const max = plan.oneRepMaxes.find((m) => m.exerciseName.toLowerCase() === exercise.exerciseName.toLowerCase());
+  if (max) {
+    return { weight: max.weight * TRAINING_MAX, unit: max.unit ?? plan.defaultWeightUnit };
+  }
+
+  let best: { weight: number; unit: WeightUnit | null } | null = null;
+  for (const set of exercise.sets) {
+    if (set.targetWeight == null || set.targetReps == null || set.isDropset) continue;
+    // Epley estimate of the one-rep max
+    const estimate = set.targetWeight * (1 + set.targetReps / 30);
+    if (!best || estimate > best.weight) best = { weight: estimate, unit: set.targetWeightUnit ?? plan.defaultWeightUnit };
+  }
+  return best && { weight: best.weight * TRAINING_MAX, unit: best.unit };
+}
+
+function waveSets(
+  exercise: PlannedExercise,
+  trainingMax: { weight: number; unit: WeightUnit | null },
+  wave: { week: number; cycle: number },
+  increment: number
+): PlannedSet[] {
+  const template = exercise.sets.find((set) => set.targetWeight != null) ?? exercise.sets[0];
+  const max = trainingMax.weight + wave.cycle * increment;
+  const sets = WAVES[wave.week].sets;
+
+  return sets.map(([fraction, reps], index): PlannedSet => {
+    const amrap = wave.week < 3 && index === sets.length - 1;
+    return {
+      ...template,
+      orderIndex: index,
+      targetWeight: roundToIncrement(max * fraction, increment),
+      targetWeightUnit: trainingMax.unit,
+      targetReps: amrap ? null : reps,
+      targetRepsMin: null,
+      targetRepsMax: null,
+      targetPercentage: null,
+      percentageOf: null,
+      targetTime: null,
+      targetDistance: null,
+      targetDistanceUnit: null,
+      targetRpe: null,
+      isDropset: false,
+      isPerSide: false,
+      isAmrap: amrap,
+      notes: null,
+    };
+  });
+}
@@ -0,0 +1,200 @@
+import type { WeightUnit } from '../parser/types.js';
+
+/** Plates available per side, heaviest first or in any order; a missing count means unlimited */
+export type PlateInventory = Array<{ weight: number; count?: number }>;
+
+export interface PlateOptions {
+  /** Defaults to lbs */
+  unit?: WeightUnit;
+  /** Defaults to 45 lbs or 20 kg */
+  barWeight?: number;
+  /** Defaults to the standard plates for the unit */
+  plates?: PlateInventory;
+}
+
+export interface PlateBreakdown {
+  /** Plate weight per side, excluding the bar */
+  weightPerSide: number;
+  unit: WeightUnit;
+  /** Per side, heaviest first */
+  plates: Array<{ weight: number; count: number }>;
+  isAchievable: boolean;
+  /** Weight per side still missing when the target is not achievable; negative below the bar */
+  remainder?: number;
+  barWeight: number;
+}
+
+export const STANDARD_BAR_WEIGHTS: Record<WeightUnit, number> = { lbs: 45, kg: 20 };
+
+export const STANDARD_PLATES: Record<WeightUnit, readonly number[]> = {
+  lbs: [45, 35, 25, 10, 5, 2.5],
+  kg: [25, 20, 15, 10, 5, 2.5, 1.25],
+};
+
+const EXCLUSION_KEYWORDS = ['dumbbell', 'kettlebell', 'bodyweight', 'cable', 'machine'];
+
+const BARBELL_EXERCISES = [
+  'deadlift', 'bench press', 'overhead press', 'strict press', 'power clean', 'hang clean',
+  'clean and jerk', 'snatch', 'front squat', 'back squat', 'romanian deadlift', 'rdl',
+  'bent over row', 'pendlay row',
+];
+
+// Matches the app: anything closer than this counts as exact
+const TOLERANCE = 0.01;
+
+// Searches whose table (pieces × weights) is larger than this fall back to the app's greedy fill:
+// absurd weights, oddly sized plates or long inventories
+const MAX_SEARCH_CELLS = 250_000;
+
+/** Most plate sizes a request may list, which keeps the search table small */
+export const MAX_PLATE_TYPES = 20;
+
+/** Plate weights in requests must be multiples of this (also the lightest plate) */
+export const PLATE_INCREMENT = 0.25;
+
+// MARK: - Public API
+
+/// Whether an exercise uses a barbell, per spec/services/plate-calculator.md.
+export function isBarbellExercise(exerciseName: string, equipmentType?: string | null): boolean {
+  const name = exerciseName.toLowerCase();
+  if (equipmentType?.toLowerCase().includes('barbell')) return true;
+  if (name.includes('barbell')) return true;
+  if (EXCLUSION_KEYWORDS.some((keyword) => name.includes(keyword))) return false;
+  return BARBELL_EXERCISES.some((exercise) => name.includes(exercise));
+}
+
+/**
+ * Finds the plates per side for a total barbell weight.
+ *
+ * The app fills greedily from the heaviest plate, which can miss the target
+ * with limited or unusual plate sets. This searches every combination the
+ * inventory allows for the closest load without going over, and keeps the
+ * greedy answer whenever it is just as close; otherwise it uses the fewest
+ * plates.
+ */
+export function calculatePlates(totalWeight: number, options: PlateOptions = {}): PlateBreakdown {
+  const unit = options.unit ?? 'lbs';
+  const barWeight = options.barWeight ?? STANDARD_BAR_WEIGHTS[unit];
+  const weightPerSide = (totalWeight - barWeight) / 2;
+
+  if (weightPerSide < -TOLERANCE) {
+    return { weightPerSide, unit, plates: [], isAchievable: false, remainder: weightPerSide, barWeight };
+  }
+
+  const available: PlateInventory = options.plates ?? STANDARD_PLATES[unit].map((weight) => ({ weight }));
+  const inventory = available
+    .filter((plate) => plate.weight >= TOLERANCE && (plate.count == null || plate.count > 0))
+    .sort((a, b) => b.weight - a.weight);
+  const plates = fillSide(Math.max(0, weightPerSide), inventory);
+  const loaded = plates.reduce((sum, plate) => sum + plate.weight * plate.count, 0);
+  const remainder = roundWeight(weightPerSide - loaded);
+
+  return remainder < TOLERANCE
+    ? { weightPerSide, unit, plates, isAchievable: true, barWeight }
+    : { weightPerSide, unit, plates, isAchievable: false, remainder, barWeight };
+}
+
+/// Per-side plates such as "2×45lbs + 10lbs", "Bar only" or "45lbs + 25lbs (+0.5lbs short)".
+export function formatPlateBreakdown(breakdown: PlateBreakdown): string {
+  const { unit } = breakdown;
+  const parts = breakdown.plates.map((plate) =>
+    plate.count > 1 ? `${plate.count}×${plate.weight}${unit}` : `${plate.weight}${unit}`
+  );
+  const text = parts.length > 0 ? parts.join(' + ') : 'Bar only';
+  return !breakdown.isAchievable && breakdown.remainder != null && breakdown.remainder > 0
+    ? `${text} (+${breakdown.remainder}${unit} short)`
+    : text;
+}
+
+/// The bar plus the per-side load, e.g. "45lb bar + 135lbs per side".
+export function formatCompletePlateSetup(breakdown: PlateBreakdown): string {
+  const barUnit = breakdown.unit === 'lbs' ? 'lb' : 'kg';
+  const loaded = roundWeight(breakdown.plates.reduce((sum, plate) => sum + plate.weight * plate.count, 0));
+  return loaded > 0
+    ? `${breakdown.barWeight}${barUnit} bar + ${loaded}${breakdown.unit} per side`
+    : `${breakdown.barWeight}${barUnit} bar`;
+}
+
+// MARK: - Helpers
+
+/**
+ * Bounded knapsack over plate weights scaled to integers. Scaling by the plates'
+ * common divisor keeps the table small (a 1000 lb side is 400 cells for standard
+ * plates).
+ */
+function fillSide(target: number, inventory: PlateInventory): Array<{ weight: number; count: number }> {
+  if (inventory.length === 0) return [];
+
+  const hundredths = inventory.map((plate) => Math.round(plate.weight * 100));
+  const step = hundredths.reduce(gcd);
+  const capacity = Math.floor((Math.round(target * 100) + 0.5) / step);
+  const sizes = hundredths.map((h) => h / step);
+  if (capacity + 1 > MAX_SEARCH_CELLS) return fillSideGreedily(target, inventory);
+
+  // Split each plate's count into powers of two so each piece is used at most once
+  const pieces: Array<{ plate: number; count: number }> = [];
+  inventory.forEach((plate, index) => {
+    let available = Math.min(plate.count ?? Infinity, Math.floor(capacity / sizes[index]));
+    for (let chunk = 1; available > 0; chunk *= 2) {
+      const count = Math.min(chunk, available);
+      pieces.push({ plate: index, count });
+      available -= count;
+    }
+  });
+  if (pieces.length * (capacity + 1) > MAX_SEARCH_CELLS) return fillSideGreedily(target, inventory);
+
+  // fewest[w] is the fewest plates that weigh exactly w; taken[i] marks the cells piece i improved
+  const fewest = new Array<number>(capacity + 1).fill(Infinity);
+  fewest[0] = 0;
+  const taken = pieces.map(() => new Uint8Array(capacity + 1));
+  pieces.forEach((piece, i) => {
+    const size = sizes[piece.plate] * piece.count;
+    for (let w = capacity; w >= size; w--) {
+      if (fewest[w - size] + piece.count < fewest[w]) {
+        fewest[w] = fewest[w - size] + piece.count;
+        taken[i][w] = 1;
+      }
+    }
+  });
+
+  let best = capacity;
+  while (fewest[best] === Infinity) best--;
+
+  const greedy = fillSideGreedily(target, inventory);
+  if (Math.round(greedy.reduce((sum, plate) => sum + (plate.weight * 100 * plate.count), 0)) === best * step) {
+    return greedy;
+  }
+
+  const counts = inventory.map(() => 0);
+  for (let i = pieces.length - 1; i >= 0 && best > 0; i--) {
+    if (taken[i][best]) {
+      counts[pieces[i].plate] += pieces[i].count;
+      best -= sizes[pieces[i].plate] * pieces[i].count;
+    }
+  }
+
+  return inventory
+    .map((plate, index) => ({ weight: plate.weight, count: counts[index] }))
+    .filter((plate) => plate.count > 0);
+}
+
+function fillSideGreedily(target: number, inventory: PlateInventory): Array<{ weight: number; count: number }> {
+  let remaining = target;
+  const plates: Array<{ weight: number; count: number }> = [];
+  for (const plate of inventory) {
+    const count = Math.min(plate.count ?? Infinity, Math.floor((remaining + TOLERANCE / 2) / plate.weight));
+    if (count > 0) {
+      plates.push({ weight: plate.weight, count });
+      remaining -= plate.weight * count;
+    }
+  }
+  return plates;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function roundWeight(value: number): number {
+  return parseFloat(value.toFixed(4));
+}
@@ -0,0 +1,107 @@
+import type { PlannedExercise, PlannedSet, ProgressionRule, WeightUnit, WorkoutPlan } from '../parser/types.js';
+import { exerciseDictionary, resolveExerciseName } from '../dictionary/index.js';
+import type { ExerciseCategory, ExerciseDictionary } from '../dictionary/index.js';
+import { serializeWorkout } from '../serializer/index.js';
+import { convertWeight } from '../units/index.js';
+
+export interface ProgressionOptions {
+  /** Rule for exercises without a more specific one */
+  default?: ProgressionRule;
+  /** Rules per dictionary category, e.g. `compound` and `isolation` */
+  categories?: Partial<Record<ExerciseCategory, ProgressionRule>>;
+  /** Rules per exercise name (case-insensitive) */
+  exercises?: Record<string, ProgressionRule>;
+  /** Used for categories of exercises parsed without a dictionary; defaults to the bundled one */
+  dictionary?: ExerciseDictionary;
+}
+
+export interface ProgressionResult {
+  plan: WorkoutPlan;
+  markdown: string;
+}
+
+// Increments converted to another unit are rounded to these, so loads stay plate-friendly
+const CONVERTED_INCREMENT_STEP: Record<WeightUnit, number> = { lbs: 2.5, kg: 1.25 };
+
+// MARK: - Public API
+
+/**
+ * Produces the next session of a workout. Each exercise uses the first rule
+ * found among: `options.exercises`, its own `@progression`, `options.categories`,
+ * the workout's category `@progression`, `options.default`, and the workout's
+ * general `@progression`. Exercises without a rule are unchanged.
+ *
+ * Drop sets change by the same weight as the set they follow. AMRAP sets and
+ * rep ranges keep their reps; under double progression they only gain weight
+ * when the exercise's fixed-rep sets reach the top of the range. Sets without
+ * a weight (bodyweight, percentage or timed) only ever change reps.
+ *
+ * Ids are kept and the input plan is not modified.
+ */
+export function progressWorkout(plan: WorkoutPlan, options: ProgressionOptions = {}): ProgressionResult {
+  const dictionary = options.dictionary ?? exerciseDictionary;
+  const exerciseRules = new Map(
+    Object.entries(options.exercises ?? {}).map(([name, rule]) => [name.toLowerCase(), rule])
+  );
+
+  const ruleFor = (exercise: PlannedExercise): ProgressionRule | null => {
+    const category = exercise.category ?? resolveExerciseName(dictionary, exercise.exerciseName)?.definition.category;
+    const workoutRule = (c: ExerciseCategory | null) => plan.progressionRules.find((r) => r.category === c)?.rule;
+    return exerciseRules.get(exercise.exerciseName.toLowerCase())
+      ?? exercise.progression
+      ?? (category ? options.categories?.[category] ?? workoutRule(category) : undefined)
+      ?? options.default
+      ?? workoutRule(null)
+      ?? null;
+  };
+
+  const progressed: WorkoutPlan = {
+    ...plan,
+    exercises: plan.exercises.map((exercise) => {
+      const rule = exercise.sets.length > 0 ? ruleFor(exercise) : null;
+      return rule && rule.type !== 'none'
+        ? { ...exercise, sets: progressSets(exercise.sets, rule, plan.defaultWeightUnit) }
+        : exercise;
+    }),
+  };
+
+  return { plan: progressed, markdown: serializeWorkout(progressed) };
+}
+
+// MARK: - Helpers
+
+function progressSets(sets: PlannedSet[], rule: ProgressionRule, defaultWeightUnit: WeightUnit | null): PlannedSet[] {
+  const isWorkingSet = (set: PlannedSet) =>
+    !set.isDropset && !set.isAmrap && set.targetReps != null && set.targetRepsMax == null;
+  const workingSets = sets.filter(isWorkingSet);
+
+  // Double progression adds reps until every working set is at the top of the range
+  const addReps = rule.type === 'double' && workingSets.some((set) => set.targetReps! < rule.repsMax!);
+  let previousDelta = 0;
+
+  return sets.map((set) => {
+    const next = { ...set };
+    if (addReps) {
+      if (isWorkingSet(set)) next.targetReps = Math.min(set.targetReps! + 1, rule.repsMax!);
+      return next;
+    }
+
+    if (set.targetWeight != null) {
+      const delta = set.isDropset ? previousDelta : incrementFor(rule, set.targetWeightUnit ?? defaultWeightUnit);
+      next.targetWeight = roundWeight(set.targetWeight + delta);
+      previousDelta = delta;
+      if (rule.type === 'double' && isWorkingSet(set)) next.targetReps = rule.repsMin;
+    }
+    return next;
+  });
+}
+
+function incrementFor(rule: ProgressionRule, unit: WeightUnit | null): number {
+  if (rule.unit == null || unit == null || rule.unit === unit) return rule.increment;
+  const step = CONVERTED_INCREMENT_STEP[unit];
+  return Math.max(step, Math.round(convertWeight(rule.increment, rule.unit, unit) / step) * step);
+}
+
+function roundWeight(value: number): number {
+  return parseFloat(value.toFixed(4));
+}
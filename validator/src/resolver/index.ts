@@ -0,0 +1,73 @@
+import type { WorkoutPlan, PlannedExercise, PlannedSet, OneRepMax, WeightUnit } from '../parser/types.js';
+import { roundToIncrement } from '../units/index.js';
+
+export interface ResolveOptions {
+  /** Maxes by exercise name, overriding the plan's `@1rm` metadata */
+  maxes?: Record<string, number | { weight: number; unit: WeightUnit | null }>;
+  /** Unit for maxes given as bare numbers; defaults to the plan's `@units` */
+  unit?: WeightUnit;
+  /** Loads are rounded to the nearest multiple of this; defaults to 5 lbs or 2.5 kg */
+  increment?: number;
+}
+
+export interface ResolveResult {
+  plan: WorkoutPlan;
+  /** Exercise names referenced by percentage sets that have no known max */
+  unresolved: string[];
+}
+
+const DEFAULT_INCREMENTS: Record<WeightUnit, number> = { lbs: 5, kg: 2.5 };
+
+// MARK: - Public API
+
+/**
+ * Fills in `targetWeight` for percentage-based sets from one-rep maxes.
+ *
+ * Maxes come from the plan's `@1rm` metadata and `options.maxes` (which wins).
+ * Exercise names match case-insensitively. Sets whose max is unknown are left
+ * unchanged and their exercise is reported in `unresolved`. The input plan is not
+ * modified.
+ */
+export function resolvePercentages(plan: WorkoutPlan, options: ResolveOptions = {}): ResolveResult {
+  const maxes = collectMaxes(plan, options);
+  const unresolved = new Set<string>();
+
+  const exercises = plan.exercises.map((exercise): PlannedExercise => ({
+    ...exercise,
+    sets: exercise.sets.map((set): PlannedSet => {
+      if (set.targetPercentage == null) return { ...set };
+
+      const liftName = set.percentageOf ?? exercise.exerciseName;
+      const max = maxes.get(liftName.toLowerCase());
+      if (!max) {
+        unresolved.add(liftName);
+        return { ...set };
+      }
+
+      const increment = options.increment ?? (max.unit ? DEFAULT_INCREMENTS[max.unit] : DEFAULT_INCREMENTS.lbs);
+      return {
+        ...set,
+        targetWeight: roundToIncrement((max.weight * set.targetPercentage) / 100, increment),
+        targetWeightUnit: max.unit,
+      };
+    }),
+  }));
+
+  return { plan: { ...plan, exercises }, unresolved: [...unresolved] };
+}
+
+// MARK: - Helpers
+
+function collectMaxes(plan: WorkoutPlan, options: ResolveOptions): Map<string, OneRepMax> {
+  const maxes = new Map<string, OneRepMax>();
+  for (const max of plan.oneRepMaxes) {
+    maxes.set(max.exerciseName.toLowerCase(), max);
+  }
+  for (const [exerciseName, value] of Object.entries(options.maxes ?? {})) {
+    const max = typeof value === 'number'
+      ? { exerciseName, weight: value, unit: options.unit ?? plan.defaultWeightUnit }
+      : { exerciseName, ...value };
+    maxes.set(exerciseName.toLowerCase(), max);
+  }
+  return maxes;
+}
@@ -0,0 +1,153 @@
+import { DIRECTIVE_PATTERN } from '../parser/patterns.js';
+import type { ParsedLine, ParseError, ParseWarning } from '../parser/types.js';
+
+export type RuleSeverity = 'error' | 'warning' | 'off';
+
+/** Numeric rule options, e.g. `{ max: 100 }` for HIGH_REPS */
+export type RuleOptions = Record<string, number>;
+
+/** A severity, or a severity with options: `"off"`, `["warning", { "max": 200 }]` */
+export type RuleSetting = RuleSeverity | [RuleSeverity] | [RuleSeverity, RuleOptions];
+
+/** Rule settings keyed by rule id, as in `.lmwfrc` files and the `rules` request option */
+export type RulesConfig = Record<string, RuleSetting>;
+
+export interface RuleDefinition {
+  /** The code of the warnings the rule reports */
+  id: string;
+  description: string;
+  options: RuleOptions;
+}
+
+export interface ResolvedRule {
+  severity: RuleSeverity;
+  options: RuleOptions;
+}
+
+export type ResolvedRules = ReadonlyMap<string, ResolvedRule>;
+
+/**
+ * Every configurable check. Rules report warnings by default; parse errors
+ * (malformed sets, missing headers, ...) are not rules and cannot be turned off.
+ */
+export const RULES: readonly RuleDefinition[] = [
+  { id: 'HIGH_REPS', description: 'Rep count above `max`', options: { max: 100 } },
+  { id: 'SHORT_REST', description: 'Rest shorter than `min` seconds', options: { min: 10 } },
+  { id: 'LONG_REST', description: 'Rest longer than `max` seconds', options: { max: 600 } },
+  { id: 'MISSING_REST_UNIT', description: '`@rest` without `s` or `m`, read as seconds', options: {} },
+  { id: 'HIGH_PERCENTAGE', description: 'Percentage load above `max`% of a one-rep max', options: { max: 100 } },
+  { id: 'RPE_ROUNDED', description: 'RPE that is not a whole number from 1 to 10', options: {} },
+  { id: 'DEPRECATED_RPE', description: '`@rpe` modifier, deprecated in favor of notes', options: {} },
+  { id: 'DEPRECATED_TEMPO', description: '`@tempo` modifier, deprecated in favor of notes', options: {} },
+  { id: 'UNKNOWN_MODIFIER', description: 'Set modifier other than `@rpe`, `@rest`, `@tempo`, `@dropset` and `@perside`', options: {} },
+  { id: 'DUPLICATE_EXERCISE_NAME', description: 'Two exercises with the same name', options: {} },
+  { id: 'DUPLICATE_PROGRESSION', description: 'Repeated `@progression` for the same category', options: {} },
+  { id: 'DUPLICATE_1RM', description: 'Repeated `@1rm` for the same exercise', options: {} },
+  { id: 'DESCRIPTION_CONTAINS_LIST', description: 'Workout description that looks like a list of exercises', options: {} },
+  { id: 'INCONSISTENT_NESTING', description: 'Sections mixed with standalone exercises at the same level', options: {} },
+  { id: 'UNKNOWN_EXERCISE', description: 'Exercise not in the dictionary (when one is used)', options: {} },
+  { id: 'MISSING_LOG_RESULT', description: 'Completed AMRAP set in a workout log without the reps done', options: {} },
+];
+
+const SEVERITIES: RuleSeverity[] = ['error', 'warning', 'off'];
+
+// MARK: - Configuration
+
+/// The default settings overridden by `config`, which should have passed `parseRulesConfig`.
+export function resolveRules(config: RulesConfig = {}): ResolvedRules {
+  return new Map(RULES.map((rule) => {
+    const setting = config[rule.id];
+    if (setting == null) return [rule.id, { severity: 'warning', options: rule.options }];
+    const [severity, options] = Array.isArray(setting) ? setting : [setting];
+    return [rule.id, { severity, options: { ...rule.options, ...options } }];
+  }));
+}
+
+/// An option of a rule; `resolveRules` fills in the defaults.
+export function ruleOption(rules: ResolvedRules, id: string, option: string): number {
+  return rules.get(id)!.options[option];
+}
+
+/// Checks rule settings from a config file or request, returning an error message if they are malformed.
+export function parseRulesConfig(value: unknown, name = 'rules'): RulesConfig | string {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return `${name} must be an object keyed by rule`;
+  }
+
+  for (const [id, setting] of Object.entries(value)) {
+    const rule = RULES.find((r) => r.id === id);
+    if (!rule) return `${name}.${id} is not a rule; rules are ${RULES.map((r) => r.id).join(', ')}`;
+
+    const [severity, options, ...rest] = Array.isArray(setting) ? setting : [setting];
+    if (!SEVERITIES.includes(severity) || rest.length > 0) {
+      return `${name}.${id} must be "error", "warning" or "off", or [severity, options]`;
+    }
+    if (options === undefined) continue;
+    if (options === null || typeof options !== 'object' || Array.isArray(options)) {
+      return `${name}.${id} options must be an object`;
+    }
+    for (const [option, optionValue] of Object.entries(options)) {
+      if (!(option in rule.options)) {
+        const known = Object.keys(rule.options);
+        return `${name}.${id} has no option "${option}"${known.length > 0 ? `; options are ${known.join(', ')}` : ''}`;
+      }
+      if (typeof optionValue !== 'number' || !Number.isFinite(optionValue)) return `${name}.${id}.${option} must be a number`;
+    }
+  }
+  return value as RulesConfig;
+}
+
+// MARK: - Suppression
+
+interface Suppression {
+  /** Line the comment applies to, or null for the whole file */
+  line: number | null;
+  /** Rule ids, or null for every rule */
+  rules: string[] | null;
+}
+
+/**
+ * Applies rule settings and suppression comments to the issues of a parse:
+ * warnings of rules that are off or suppressed are dropped, and those of rules
+ * set to "error" become errors.
+ *
+ *     <!-- lmwf-disable-next-line HIGH_REPS -->   (the line below)
+ *     <!-- lmwf-disable DEPRECATED_RPE -->        (the whole file)
+ *
+ * Without rule ids, a comment suppresses every rule.
+ */
+export function applyRules(
+  issues: { lines: ParsedLine[]; errors: ParseError[]; warnings: ParseWarning[] },
+  rules: ResolvedRules
+): void {
+  const suppressions = findSuppressions(issues.lines);
+  const warnings: ParseWarning[] = [];
+
+  for (const warning of issues.warnings) {
+    const severity = rules.get(warning.code)?.severity ?? 'warning';
+    if (severity === 'off' || isSuppressed(warning, suppressions)) continue;
+    if (severity === 'error') issues.errors.push(warning);
+    else warnings.push(warning);
+  }
+  issues.warnings = warnings;
+}
+
+function findSuppressions(lines: ParsedLine[]): Suppression[] {
+  const suppressions: Suppression[] = [];
+  for (const line of lines) {
+    const match = line.trimmed.match(DIRECTIVE_PATTERN);
+    if (!match) continue;
+    const ids = match[2]?.split(/[\s,]+/).filter((id) => id.length > 0) ?? [];
+    suppressions.push({
+      line: match[1] ? line.lineNumber + 1 : null,
+      rules: ids.length > 0 ? ids : null,
+    });
+  }
+  return suppressions;
+}
+
+function isSuppressed(warning: ParseWarning, suppressions: Suppression[]): boolean {
+  return suppressions.some((s) =>
+    (s.line == null || s.line === warning.line) && (s.rules == null || s.rules.includes(warning.code))
+  );
+}
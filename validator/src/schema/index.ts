@@ -0,0 +1,148 @@
+import { DATE_PATTERN } from '../parser/patterns.js';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) used by the schemas in
+ * spec/data/schemas. Types are loose so schema files can be imported as JSON.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  format?: string;
+}
+
+// MARK: - Public API
+
+/**
+ * Validates a JSON value against a schema and returns one message per problem,
+ * each prefixed with the dotted path of the offending value (e.g.
+ * "sessions.0.exercises.1.status: is a required property"), or "(root)".
+ * Local `$ref`s (`#/$defs/...`) are resolved against the schema itself.
+ * `date` and `date-time` formats are checked; other formats are not.
+ */
+export function validateJson(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateAt(value, schema, schema, [], errors);
+  return errors;
+}
+
+// MARK: - Validation
+
+function validateAt(value: unknown, schema: JsonSchema, root: JsonSchema, path: Array<string | number>, errors: string[]): void {
+  const report = (message: string) => errors.push(`${path.length > 0 ? path.join('.') : '(root)'}: ${message}`);
+
+  if (schema.$ref != null) {
+    const target = resolveRef(schema.$ref, root);
+    if (!target) {
+      report(`cannot resolve ${schema.$ref}`);
+      return;
+    }
+    validateAt(value, target, root, path, errors);
+  }
+  if (schema.anyOf != null) {
+    const attempts = schema.anyOf.map((option) => {
+      const optionErrors: string[] = [];
+      validateAt(value, option, root, path, optionErrors);
+      return optionErrors;
+    });
+    // Report the closest option, which for `T | null` is T when the value isn't null
+    const closest = attempts.reduce((best, attempt) => (attempt.length < best.length ? attempt : best));
+    errors.push(...closest);
+  }
+
+  if (schema.type != null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      report(`${describe(value)} is not of type ${types.map((t) => `'${t}'`).join(', ')}`);
+      return;
+    }
+  }
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    report(`${describe(value)} was expected to be ${describe(schema.const)}`);
+  }
+  if (schema.enum != null && !schema.enum.some((option) => isEqual(value, option))) {
+    report(`${describe(value)} is not one of ${schema.enum.map(describe).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum != null && value < schema.minimum) report(`${value} is less than the minimum of ${schema.minimum}`);
+    if (schema.maximum != null && value > schema.maximum) report(`${value} is greater than the maximum of ${schema.maximum}`);
+  }
+  if (typeof value === 'string' && schema.format != null && !hasFormat(value, schema.format)) {
+    report(`${describe(value)} is not a '${schema.format}'`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateAt(item, schema.items!, root, [...path, index], errors));
+  }
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) report(`'${key}' is a required property`);
+    }
+    for (const [key, property] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateAt(property, propertySchema, root, [...path, key], errors);
+      } else if (schema.additionalProperties === false) {
+        report(`additional property '${key}' is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateAt(property, schema.additionalProperties, root, [...path, key], errors);
+      }
+    }
+  }
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | null {
+  if (ref === '#') return root;
+  const match = ref.match(/^#\/\$defs\/(.+)$/);
+  return match ? root.$defs?.[match[1]] ?? null : null;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function hasFormat(value: string, format: string): boolean {
+  switch (format) {
+    case 'date': {
+      const match = value.match(DATE_PATTERN);
+      return match != null && new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])).toISOString().startsWith(value);
+    }
+    case 'date-time':
+      return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i.test(value) && !Number.isNaN(Date.parse(value));
+    default:
+      return true;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
@@ -0,0 +1,405 @@
+import type {
+  WorkoutPlan,
+  PlannedExercise,
+  PlannedSet,
+  ProgramWeek,
+  ProgressionRule,
+  SessionSet,
+  SetStatus,
+  TrainingProgram,
+  WeightUnit,
+  WorkoutSession,
+} from '../parser/types.js';
+
+export interface SerializeOptions {
+  /** Collapse runs of identical rep sets into shorthand such as `5 x 5 @ 225` */
+  collapseSets?: boolean;
+}
+
+interface WriteOptions extends SerializeOptions {
+  /** Writes the content of a set's list item in place of `serializeSet` */
+  writeSet?: (set: PlannedSet) => string;
+}
+
+const LOG_MARKERS: Record<SetStatus, string> = { completed: 'x', failed: '!', skipped: '-', pending: ' ' };
+
+// The parser reads larger shorthand counts as "weight x reps", so longer runs are split
+const MAX_COLLAPSED_SETS = 20;
+
+// MARK: - Public API
+
+/**
+ * Serializes a WorkoutPlan back to canonical LMWF markdown.
+ *
+ * The output is designed so that `parseWorkout(serializeWorkout(plan))` yields a
+ * structurally equal plan (ids and timestamps aside). Group type is inferred from
+ * the group name by the parser, so supersets must keep "superset" in their name.
+ */
+export function serializeWorkout(plan: WorkoutPlan, options: SerializeOptions = {}): string {
+  const lines: string[] = [];
+  serializeWorkoutAt(plan, 1, null, options, lines);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serializes a TrainingProgram as a program document (see `parseProgram`).
+ * Workouts only repeat metadata that differs from the program's, so
+ * `parseProgram(serializeProgram(program))` yields structurally equal workouts.
+ */
+export function serializeProgram(program: TrainingProgram, options: SerializeOptions = {}): string {
+  const lines: string[] = [];
+  serializeMetadata(program, 1, null, lines);
+
+  const weekOf = new Map(program.weeks.flatMap((week) => week.workoutIds.map((id) => [id, week] as const)));
+  let currentWeek: ProgramWeek | undefined;
+  for (const workout of program.workouts) {
+    const week = weekOf.get(workout.id);
+    if (week && week !== currentWeek) {
+      lines.push('', `## ${week.name}`);
+    }
+    currentWeek = week;
+    lines.push('');
+    serializeWorkoutAt(workout, week ? 3 : 2, program, options, lines);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serializes a WorkoutSession as a workout log (see `parseSession`). Each set is
+ * written as planned with a checkbox for its status, followed by `-> ` and what
+ * was done when that differs from the plan.
+ */
+export function serializeSession(session: WorkoutSession): string {
+  const lines: string[] = [];
+  serializeMetadata(
+    { ...session, oneRepMaxes: [], progressionRules: [], description: null },
+    1,
+    null,
+    lines
+  );
+  if (session.date) lines.push(`@date: ${session.date}`);
+  if (session.duration != null) lines.push(`@duration: ${serializeDuration(session.duration)}`);
+  if (session.notes) lines.push('', ...session.notes.split('\n'));
+
+  const loggedSets = new Map<PlannedSet, SessionSet>();
+  const exercises = session.exercises.map((exercise): PlannedExercise => ({
+    ...exercise,
+    workoutPlanId: session.id,
+    canonicalId: null,
+    muscleGroups: null,
+    category: null,
+    progression: null,
+    sets: exercise.sets.map((set) => {
+      const { sessionExerciseId, actualWeight, actualWeightUnit, actualReps, actualTime, actualDistance,
+        actualDistanceUnit, actualRpe, status, ...target } = set;
+      const planned: PlannedSet = { ...target, plannedExerciseId: sessionExerciseId };
+      loggedSets.set(planned, set);
+      return planned;
+    }),
+  }));
+
+  const options: WriteOptions = {
+    writeSet: (set) => serializeLogSet(loggedSets.get(set)!, serializeSet(set, session.defaultWeightUnit), session.defaultWeightUnit),
+  };
+  const childrenByParent = groupChildren(exercises);
+  for (const exercise of childrenByParent.get(null) ?? []) {
+    serializeExercise(exercise, 2, childrenByParent, session.defaultWeightUnit, options, lines);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serializes a single set to the content of its list item (without the leading `- `).
+ */
+export function serializeSet(set: PlannedSet, defaultWeightUnit: WeightUnit | null = null): string {
+  return [serializeSetTarget(set, defaultWeightUnit), ...serializeModifiers(set)].join(' ');
+}
+
+/// The value of a `@progression` line, e.g. "+5 lbs" or "double 8-12 +2.5 kg".
+export function serializeProgressionRule(rule: ProgressionRule): string {
+  if (rule.type === 'none') return 'none';
+  const range = rule.type === 'double' ? `double ${rule.repsMin}-${rule.repsMax} ` : '';
+  return `${range}+${rule.increment}${rule.unit ? ` ${rule.unit}` : ''}`;
+}
+
+// MARK: - Workouts
+
+type WorkoutMetadata = Pick<WorkoutPlan, 'name' | 'tags' | 'defaultWeightUnit' | 'oneRepMaxes' | 'progressionRules' | 'description'>;
+
+function serializeWorkoutAt(
+  plan: WorkoutPlan,
+  headerLevel: number,
+  program: TrainingProgram | null,
+  options: WriteOptions,
+  lines: string[]
+): void {
+  serializeMetadata(plan, headerLevel, program, lines);
+
+  const childrenByParent = groupChildren(plan.exercises);
+  for (const exercise of childrenByParent.get(null) ?? []) {
+    serializeExercise(exercise, headerLevel + 1, childrenByParent, plan.defaultWeightUnit, options, lines);
+  }
+}
+
+/// The header, metadata and notes of a workout or program, leaving out what a workout inherits from `program`.
+function serializeMetadata(
+  plan: WorkoutMetadata,
+  headerLevel: number,
+  program: WorkoutMetadata | null,
+  lines: string[]
+): void {
+  const inherited = (value: unknown, values: unknown[]) =>
+    values.some((v) => JSON.stringify(v) === JSON.stringify(value));
+
+  lines.push(`${'#'.repeat(Math.min(headerLevel, 6))} ${plan.name}`);
+  const tags = plan.tags.filter((tag) => !program?.tags.includes(tag));
+  if (tags.length > 0) {
+    lines.push(`@tags: ${tags.join(', ')}`);
+  }
+  if (plan.defaultWeightUnit && plan.defaultWeightUnit !== program?.defaultWeightUnit) {
+    lines.push(`@units: ${plan.defaultWeightUnit}`);
+  }
+  for (const max of plan.oneRepMaxes) {
+    if (program && inherited(max, program.oneRepMaxes)) continue;
+    const unit = max.unit != null && max.unit !== plan.defaultWeightUnit ? ` ${max.unit}` : '';
+    lines.push(`@1rm: ${max.exerciseName} = ${max.weight}${unit}`);
+  }
+  for (const progression of plan.progressionRules) {
+    if (program && inherited(progression, program.progressionRules)) continue;
+    const { category, rule } = progression;
+    lines.push(`@progression: ${category ? `${category} ` : ''}${serializeProgressionRule(rule)}`);
+  }
+  if (plan.description) {
+    lines.push('', ...plan.description.split('\n'));
+  }
+}
+
+// MARK: - Exercises
+
+function groupChildren(exercises: PlannedExercise[]): Map<string | null, PlannedExercise[]> {
+  const ids = new Set(exercises.map((e) => e.id));
+  const children = new Map<string | null, PlannedExercise[]>();
+  for (const exercise of exercises) {
+    // Orphaned children are promoted to the top level rather than dropped
+    const parentId = exercise.parentExerciseId != null && ids.has(exercise.parentExerciseId)
+      ? exercise.parentExerciseId
+      : null;
+    const siblings = children.get(parentId) ?? [];
+    siblings.push(exercise);
+    children.set(parentId, siblings);
+  }
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => a.orderIndex - b.orderIndex);
+  }
+  return children;
+}
+
+function serializeExercise(
+  exercise: PlannedExercise,
+  headerLevel: number,
+  childrenByParent: Map<string | null, PlannedExercise[]>,
+  defaultWeightUnit: WeightUnit | null,
+  options: WriteOptions,
+  lines: string[]
+): void {
+  lines.push('', `${'#'.repeat(Math.min(headerLevel, 6))} ${exercise.exerciseName}`);
+
+  const children = childrenByParent.get(exercise.id) ?? [];
+  if (children.length > 0) {
+    for (const child of children) {
+      serializeExercise(child, headerLevel + 1, childrenByParent, defaultWeightUnit, options, lines);
+    }
+    return;
+  }
+
+  if (exercise.equipmentType) {
+    lines.push(`@type: ${exercise.equipmentType}`);
+  }
+  if (exercise.progression) {
+    lines.push(`@progression: ${serializeProgressionRule(exercise.progression)}`);
+  }
+  if (exercise.notes) {
+    lines.push(...exercise.notes.split('\n'));
+  }
+  if (!options.collapseSets) {
+    for (const set of exercise.sets) {
+      lines.push(`- ${options.writeSet ? options.writeSet(set) : serializeSet(set, defaultWeightUnit)}`);
+    }
+    return;
+  }
+
+  let index = 0;
+  while (index < exercise.sets.length) {
+    const set = exercise.sets[index];
+    const text = serializeSet(set, defaultWeightUnit);
+    let count = 1;
+    if (canCollapse(set)) {
+      while (
+        count < MAX_COLLAPSED_SETS &&
+        index + count < exercise.sets.length &&
+        serializeSet(exercise.sets[index + count], defaultWeightUnit) === text
+      ) {
+        count += 1;
+      }
+    }
+    lines.push(`- ${count > 1 ? serializeShorthand(set, count, defaultWeightUnit) : text}`);
+    index += count;
+  }
+}
+
+// MARK: - Sets
+
+function serializeSetTarget(set: PlannedSet, defaultWeightUnit: WeightUnit | null): string {
+  if (set.targetDistance != null) {
+    return `${set.targetDistance} ${set.targetDistanceUnit ?? 'meters'}`;
+  }
+
+  if (set.targetPercentage != null && set.percentageOf == null) {
+    const target = set.isAmrap ? 'AMRAP' : set.targetTime != null ? `${set.targetTime}s` : serializeReps(set);
+    return `${set.targetPercentage}% x ${target}`;
+  }
+  // Percentages of another lift and RPE loads only have a shorthand form
+  if (set.targetPercentage != null || usesRpeLoad(set)) {
+    return `${set.isAmrap ? 'AMRAP' : serializeReps(set)} @ ${serializeShorthandLoad(set, defaultWeightUnit)}`;
+  }
+
+  const load = serializeLoad(set, defaultWeightUnit);
+
+  if (set.isAmrap) {
+    return `${load ?? 'bw'} x AMRAP`;
+  }
+  if (set.targetTime != null) {
+    return load ? `${load} x ${set.targetTime}s` : `${set.targetTime}s`;
+  }
+  if (set.targetReps != null) {
+    const reps = serializeReps(set);
+    if (load) return `${load} x ${reps}`;
+    // A bare count is canonical for bodyweight reps, but notes starting with a
+    // weight unit would then read as an incomplete set
+    return set.notes && /^(lbs?|kgs?)\b/i.test(set.notes) ? `bw x ${reps}` : reps;
+  }
+  // A load without reps or time cannot be expressed; emit it so validation reports it
+  return load ?? '';
+}
+
+/// Emits `count x reps @ load`, which the parser expands back into `count` sets.
+function serializeShorthand(set: PlannedSet, count: number, defaultWeightUnit: WeightUnit | null): string {
+  const reps = set.isAmrap ? 'AMRAP' : serializeReps(set);
+  return [`${count} x ${reps} @ ${serializeShorthandLoad(set, defaultWeightUnit)}`, ...serializeModifiers(set)].join(' ');
+}
+
+function serializeShorthandLoad(set: PlannedSet, defaultWeightUnit: WeightUnit | null): string {
+  if (set.targetPercentage != null) {
+    return set.percentageOf != null ? `${set.targetPercentage}% of ${set.percentageOf}` : `${set.targetPercentage}%`;
+  }
+  if (usesRpeLoad(set)) return `RPE ${set.targetRpe}`;
+  return serializeLoad(set, defaultWeightUnit) ?? 'bw';
+}
+
+function serializeModifiers(set: PlannedSet): string[] {
+  const parts: string[] = [];
+
+  if (set.restSeconds != null) parts.push(`@rest: ${set.restSeconds}s`);
+  if (set.isDropset) parts.push('@dropset');
+  if (set.isPerSide) parts.push('@perside');
+  if (set.targetRpe != null && !usesRpeLoad(set)) parts.push(`@rpe: ${set.targetRpe}`);
+  if (set.tempo != null) parts.push(`@tempo: ${set.tempo}`);
+  // A lift name after "of" runs to the next "@", so notes need their own part
+  if (set.notes) parts.push(set.percentageOf != null ? `@ ${set.notes}` : set.notes);
+
+  return parts;
+}
+
+/// Unloaded rep sets with an RPE are written as `5 @ RPE 8` rather than the deprecated `@rpe:`.
+function usesRpeLoad(set: PlannedSet): boolean {
+  return set.targetRpe != null &&
+    set.targetWeight == null &&
+    set.targetPercentage == null &&
+    set.targetTime == null &&
+    set.targetDistance == null &&
+    (set.targetReps != null || set.isAmrap);
+}
+
+function serializeReps(set: PlannedSet): string {
+  return set.targetRepsMax != null ? `${set.targetRepsMin ?? set.targetReps}-${set.targetRepsMax}` : `${set.targetReps}`;
+}
+
+function serializeLoad(set: PlannedSet, defaultWeightUnit: WeightUnit | null): string | null {
+  if (set.targetWeight == null) return null;
+  const unit = set.targetWeightUnit != null && set.targetWeightUnit !== defaultWeightUnit
+    ? ` ${set.targetWeightUnit}`
+    : '';
+  return `${set.targetWeight}${unit}`;
+}
+
+/// Only rep-based sets have a shorthand form; notes starting with a weight unit
+/// would be read as the load's unit.
+function canCollapse(set: PlannedSet): boolean {
+  if (set.targetDistance != null || set.targetTime != null) return false;
+  if (set.targetReps == null && !set.isAmrap) return false;
+  return !(set.notes && /^(lbs?|kgs?)\b/i.test(set.notes));
+}
+
+// MARK: - Logs
+
+function serializeLogSet(set: SessionSet, planned: string, defaultWeightUnit: WeightUnit | null): string {
+  const result = set.status === 'completed' || set.status === 'failed' ? serializeLogResult(set, defaultWeightUnit) : null;
+  return `[${LOG_MARKERS[set.status]}] ${planned}${result ? ` -> ${result}` : ''}`;
+}
+
+/// What was done, or null when it matches the plan. Parts the parser fills in from the plan are repeated for readability.
+function serializeLogResult(set: SessionSet, defaultWeightUnit: WeightUnit | null): string | null {
+  const differs = (actual: unknown, target: unknown) => actual != null && actual !== target;
+  const rpeDiffers = differs(set.actualRpe, set.targetRpe);
+  if (
+    !rpeDiffers &&
+    !differs(set.actualWeight, set.targetWeight) &&
+    !(set.actualWeight != null && differs(set.actualWeightUnit ?? defaultWeightUnit, set.targetWeightUnit ?? defaultWeightUnit)) &&
+    !differs(set.actualReps, set.targetReps) &&
+    !differs(set.actualTime, set.targetTime) &&
+    !differs(set.actualDistance, set.targetDistance) &&
+    !differs(set.actualDistanceUnit, set.targetDistanceUnit)
+  ) {
+    return null;
+  }
+
+  const done: PlannedSet = {
+    id: set.id,
+    plannedExerciseId: set.sessionExerciseId,
+    orderIndex: set.orderIndex,
+    targetWeight: set.actualWeight ?? set.targetWeight,
+    targetWeightUnit: set.actualWeight != null ? set.actualWeightUnit : set.targetWeightUnit,
+    targetReps: set.actualReps ?? (set.isAmrap ? null : set.targetReps),
+    targetRepsMin: null,
+    targetRepsMax: null,
+    targetPercentage: null,
+    percentageOf: null,
+    targetTime: set.actualTime ?? set.targetTime,
+    targetDistance: set.actualDistance ?? set.targetDistance,
+    targetDistanceUnit: set.actualDistanceUnit ?? set.targetDistanceUnit,
+    targetRpe: null,
+    restSeconds: null,
+    tempo: null,
+    isDropset: false,
+    isPerSide: false,
+    isAmrap: false,
+    notes: null,
+  };
+  // A load alone would read as reps, so it is only written with the reps, time or distance
+  const amount = done.targetReps != null || done.targetTime != null || done.targetDistance != null
+    ? serializeSetTarget(done, defaultWeightUnit)
+    : null;
+  return [amount, rpeDiffers ? `@rpe ${set.actualRpe}` : null].filter((part) => part != null).join(' ') || null;
+}
+
+/// Seconds in the `@duration` form, e.g. "1h 15m" or "45m 30s".
+function serializeDuration(duration: number): string {
+  const seconds = Math.round(duration);
+  const parts = [
+    [Math.floor(seconds / 3600), 'h'],
+    [Math.floor((seconds % 3600) / 60), 'm'],
+    [seconds % 60, 's'],
+  ] as const;
+  return parts.filter(([value]) => value > 0).map(([value, unit]) => `${value}${unit}`).join(' ') || '0s';
+}
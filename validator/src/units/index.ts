@@ -0,0 +1,91 @@
+import type { WorkoutPlan, PlannedSet, OneRepMax, WeightUnit, DistanceUnit } from '../parser/types.js';
+
+export interface ConvertOptions {
+  /** Target weight unit; weights are left as written when omitted */
+  weight?: WeightUnit;
+  /** Target distance unit; distances are left as written when omitted */
+  distance?: DistanceUnit;
+  /** Converted weights are rounded to a multiple of this; defaults to 5 lbs or 2.5 kg */
+  rounding?: number;
+}
+
+export const WEIGHT_UNITS: readonly WeightUnit[] = ['lbs', 'kg'];
+export const DISTANCE_UNITS: readonly DistanceUnit[] = ['meters', 'km', 'miles', 'feet', 'yards'];
+
+const KG_PER_LB = 0.45359237;
+
+const METERS_PER_UNIT: Record<DistanceUnit, number> = {
+  meters: 1,
+  km: 1000,
+  miles: 1609.344,
+  feet: 0.3048,
+  yards: 0.9144,
+};
+
+const DEFAULT_ROUNDING: Record<WeightUnit, number> = { lbs: 5, kg: 2.5 };
+
+// MARK: - Public API
+
+/**
+ * Converts every weight and distance in a plan to the requested units.
+ *
+ * Weights are rounded to a loadable increment; distances keep two decimals.
+ * Weights without a unit are read in the plan's `@units`; when that is missing
+ * too they are assumed to already be in the target unit. Sets that had an
+ * explicit unit keep one, so the plan still parses the same with its new
+ * `defaultWeightUnit`. The input plan is not modified.
+ */
+export function convertWorkout(plan: WorkoutPlan, options: ConvertOptions): WorkoutPlan {
+  const targetWeight = options.weight;
+  const rounding = options.rounding ?? (targetWeight ? DEFAULT_ROUNDING[targetWeight] : 0);
+
+  const convertLoad = (weight: number, unit: WeightUnit | null): number => {
+    const from = unit ?? plan.defaultWeightUnit;
+    if (!targetWeight || from == null || from === targetWeight) return weight;
+    const rounded = roundToIncrement(convertWeight(weight, from, targetWeight), rounding);
+    // Light loads such as a 2 lb plate would otherwise round away to nothing
+    return rounded === 0 && weight > 0 ? rounding : rounded;
+  };
+
+  return {
+    ...plan,
+    defaultWeightUnit: targetWeight ?? plan.defaultWeightUnit,
+    oneRepMaxes: plan.oneRepMaxes.map((max): OneRepMax => ({
+      ...max,
+      weight: convertLoad(max.weight, max.unit),
+      unit: targetWeight && max.unit != null ? targetWeight : max.unit,
+    })),
+    exercises: plan.exercises.map((exercise) => ({
+      ...exercise,
+      sets: exercise.sets.map((set): PlannedSet => {
+        const converted = { ...set };
+        if (set.targetWeight != null) {
+          converted.targetWeight = convertLoad(set.targetWeight, set.targetWeightUnit);
+          if (targetWeight && set.targetWeightUnit != null) converted.targetWeightUnit = targetWeight;
+        }
+        if (set.targetDistance != null && options.distance) {
+          const from = set.targetDistanceUnit ?? 'meters';
+          converted.targetDistance = roundToIncrement(convertDistance(set.targetDistance, from, options.distance), 0.01);
+          converted.targetDistanceUnit = options.distance;
+        }
+        return converted;
+      }),
+    })),
+  };
+}
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return value;
+  return from === 'lbs' ? value * KG_PER_LB : value / KG_PER_LB;
+}
+
+export function convertDistance(value: number, from: DistanceUnit, to: DistanceUnit): number {
+  return (value * METERS_PER_UNIT[from]) / METERS_PER_UNIT[to];
+}
+
+/// Rounds to the nearest multiple of `increment`; an increment of 0 or less leaves the value as is.
+export function roundToIncrement(value: number, increment: number): number {
+  if (increment <= 0) return value;
+  // Trim floating point noise from increments such as 2.5 or 0.01
+  return parseFloat((Math.round(value / increment) * increment).toFixed(4));
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeWorkout } from '../src/analyzer/index.js';
+import { createExerciseDictionary } from '../src/dictionary/index.js';
+import { parseOrThrow } from './helpers.js';
+
+describe('analyzeWorkout', () => {
+  it('totals tonnage per unit, reps and rest', () => {
+    const analysis = analyzeWorkout(parseOrThrow(`# Push
+@units: lbs
+
+## Bench Press
+- 3 x 5 @ 200 @rest: 120s
+- 100 kg x 3
+
+## Push-up
+- 3 x 15 @ bw`));
+
+    expect(analysis.tonnage).toEqual({ lbs: 3000, kg: 300 });
+    expect(analysis.totalReps).toBe(15 + 3 + 45);
+    expect(analysis.totalRestSeconds).toBe(360);
+    expect(analysis.totalSetCount).toBe(7);
+    expect(analysis.exercises.map((e) => [e.name, e.reps])).toEqual([
+      ['Bench Press', 18],
+      ['Push-up', 45],
+    ]);
+  });
+
+  it('leaves unitless loads out of tonnage when the plan has no units', () => {
+    const analysis = analyzeWorkout(parseOrThrow(`# W
+## Squat
+- 225 x 5`));
+
+    expect(analysis.tonnage).toEqual({ lbs: 0, kg: 0 });
+    expect(analysis.totalReps).toBe(5);
+  });
+
+  it('counts range minimums and skips AMRAP reps', () => {
+    const analysis = analyzeWorkout(parseOrThrow(`# W
+@units: kg
+## Squat
+- 100 x 8-12
+- 100 x AMRAP`));
+
+    expect(analysis.totalReps).toBe(8);
+    expect(analysis.tonnage.kg).toBe(800);
+  });
+
+  it('sums timed sets as time under load', () => {
+    const analysis = analyzeWorkout(parseOrThrow(`# Core
+## Plank
+- 60s
+- 45s
+## Farmer Carry
+- 50 lbs x 30s`));
+
+    expect(analysis.timeUnderLoadSeconds).toBe(135);
+    expect(analysis.exercises[1].timeUnderLoadSeconds).toBe(30);
+  });
+
+  it('counts per-side timed sets for both sides', () => {
+    const analysis = analyzeWorkout(parseOrThrow(`# Core
+## Side Plank
+- 30s @perside
+- 20s each side`));
+
+    expect(analysis.timeUnderLoadSeconds).toBe(100);
+  });
+
+  it('counts sets per muscle group through the dictionary', () => {
+    const analysis = analyzeWorkout(parseOrThrow(`# Pull
+## bb rdl
+- 3 x 8 @ 185
+## Mystery Move
+- 10`));
+
+    expect(analysis.setsPerMuscleGroup).toEqual({ hamstrings: 3, glutes: 3, back: 3 });
+    expect(analysis.unknownExercises).toEqual(['Mystery Move']);
+  });
+
+  it('accepts a custom dictionary', () => {
+    const dictionary = createExerciseDictionary([
+      { canonical: 'Mystery Move', aliases: [], muscleGroups: ['core'], category: 'bodyweight' },
+    ]);
+    const analysis = analyzeWorkout(parseOrThrow(`# W
+## Mystery Move
+- 10
+- 10`), { dictionary });
+
+    expect(analysis.setsPerMuscleGroup).toEqual({ core: 2 });
+    expect(analysis.unknownExercises).toEqual([]);
+  });
+
+  it('skips superset containers', () => {
+    const analysis = analyzeWorkout(parseOrThrow(`# Arms
+## Superset: Arms
+### Bicep Curl
+- 25 x 10
+### Tricep Pushdown
+- 40 x 10`));
+
+    expect(analysis.exerciseCount).toBe(2);
+    expect(analysis.exercises.map((e) => e.name)).toEqual(['Bicep Curl', 'Tricep Pushdown']);
+  });
+});
@@ -0,0 +1,358 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { runCli } from '../src/cli/index.js';
+
+function captureIO() {
+  const io = { out: '', err: '' };
+  return {
+    io,
+    streams: {
+      stdout: (text: string) => { io.out += text; },
+      stderr: (text: string) => { io.err += text; },
+    },
+  };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'lmwf-cli-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('lmwf', () => {
+  it('prints usage and fails without a command', () => {
+    const { io, streams } = captureIO();
+    expect(runCli([], streams)).toBe(2);
+    expect(io.out).toContain('Usage: lmwf');
+  });
+
+  it('rejects unknown commands', () => {
+    const { io, streams } = captureIO();
+    expect(runCli(['frobnicate'], streams)).toBe(2);
+    expect(io.err).toContain('unknown command "frobnicate"');
+  });
+});
+
+describe('lmwf format', () => {
+  it('prints the formatted file to stdout', () => {
+    const file = join(dir, 'a.md');
+    writeFileSync(file, '# W\n## A\n-  225lb x5');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['format', file], streams)).toBe(0);
+    expect(io.out).toBe('# W\n\n## A\n- 225 lbs x 5\n');
+    expect(readFileSync(file, 'utf-8')).toBe('# W\n## A\n-  225lb x5');
+  });
+
+  it('--check exits 1 and lists unformatted files', () => {
+    const clean = join(dir, 'clean.md');
+    const messy = join(dir, 'messy.md');
+    writeFileSync(clean, '# W\n\n## A\n- 5\n');
+    writeFileSync(messy, '# W\n## A\n- 5');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['format', '--check', clean, messy], streams)).toBe(1);
+    expect(io.out).toBe(`${messy}\n`);
+    expect(io.err).toContain('1 file not formatted');
+  });
+
+  it('--check exits 0 when everything is formatted', () => {
+    const clean = join(dir, 'clean.md');
+    writeFileSync(clean, '# W\n\n## A\n- 5\n');
+    const { streams } = captureIO();
+
+    expect(runCli(['format', '--check', clean], streams)).toBe(0);
+  });
+
+  it('--write rewrites files in place', () => {
+    const messy = join(dir, 'messy.md');
+    writeFileSync(messy, '# W\n## A\n- 5');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['format', '--write', messy], streams)).toBe(0);
+    expect(readFileSync(messy, 'utf-8')).toBe('# W\n\n## A\n- 5\n');
+    expect(io.out).toBe(`formatted ${messy}\n`);
+  });
+
+  it('expands quoted globs and directories', () => {
+    mkdirSync(join(dir, 'week1'));
+    writeFileSync(join(dir, 'clean.md'), '# W\n\n## A\n- 5\n');
+    writeFileSync(join(dir, 'week1', 'messy.md'), '# W\n## A\n- 5');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['format', '--check', `${dir}/**/*.md`], streams)).toBe(1);
+    expect(io.out).toBe(`${join(dir, 'week1', 'messy.md')}\n`);
+    expect(runCli(['format', '--write', join(dir, 'week1')], streams)).toBe(0);
+    expect(runCli(['format', '--check', `${dir}/**/*.md`], streams)).toBe(0);
+    expect(runCli(['format', `${dir}/**/*.md`], streams)).toBe(2);
+    expect(runCli(['format', '--check', `${dir}/missing/*.md`], streams)).toBe(2);
+    expect(io.err).toContain('lmwf format: no files match');
+  });
+
+  it('rejects conflicting flags and missing files', () => {
+    const { streams } = captureIO();
+    expect(runCli(['format', '--write', '--check', 'a.md'], streams)).toBe(2);
+    expect(runCli(['format'], streams)).toBe(2);
+    expect(runCli(['format', join(dir, 'missing.md')], streams)).toBe(2);
+  });
+});
+
+describe('lmwf periodize', () => {
+  it('prints a program document built from the workout', () => {
+    const file = join(dir, 'lower.md');
+    writeFileSync(file, '# Lower\n@units: lbs\n## Squat\n- 225 x 5');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['periodize', '--scheme', 'linear', '--weeks', '2', '--deload-every', '2', file], streams)).toBe(0);
+    expect(io.out).toBe(`# Lower (Linear)
+@units: lbs
+
+## Week 1
+
+### Lower
+
+#### Squat
+- 225 x 5
+
+## Week 2 (Deload)
+
+### Lower
+
+#### Squat
+- 205 x 5
+`);
+  });
+
+  it('--json prints the parsed program', () => {
+    const file = join(dir, 'lower.md');
+    writeFileSync(file, '# Lower\n@units: lbs\n## Squat\n- 225 x 5');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['periodize', '--scheme', '531', '--json', file], streams)).toBe(0);
+    const program = JSON.parse(io.out);
+    expect(program.weeks).toHaveLength(4);
+    expect(program.workouts[0].exercises[0].sets).toHaveLength(3);
+  });
+
+  it('reports workouts that do not parse', () => {
+    const file = join(dir, 'bad.md');
+    writeFileSync(file, '# W\n## Squat\n## Bench Press\n- 135 x 5');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['periodize', '--scheme', 'block', file], streams)).toBe(1);
+    expect(io.err).toContain(`${file}: Line`);
+  });
+
+  it('rejects missing or unknown schemes and bad week counts', () => {
+    const { io, streams } = captureIO();
+    expect(runCli(['periodize', 'a.md'], streams)).toBe(2);
+    expect(runCli(['periodize', '--scheme', 'conjugate', 'a.md'], streams)).toBe(2);
+    expect(runCli(['periodize', '--scheme', 'linear', '--weeks', '0', 'a.md'], streams)).toBe(2);
+    expect(io.err).toContain('unknown scheme "conjugate"');
+  });
+});
+
+describe('lmwf convert', () => {
+  const exported = {
+    exportedAt: '2026-02-20T10:30:00.000Z',
+    appVersion: '1.5.0',
+    sessions: ['Push Day', 'Pull Day'].map((name) => ({
+      name,
+      date: '2026-02-20',
+      status: 'completed',
+      exercises: [{ exerciseName: 'Row', orderIndex: 0, status: 'completed', sets: [{ orderIndex: 0, targetReps: 10, status: 'completed' }] }],
+    })),
+  };
+
+  it('prints a workout log per session', () => {
+    const file = join(dir, 'export.json');
+    writeFileSync(file, JSON.stringify(exported));
+    const { io, streams } = captureIO();
+
+    expect(runCli(['convert', file], streams)).toBe(0);
+    expect(io.out).toBe('# Push Day\n@date: 2026-02-20\n\n## Row\n- [x] 10\n\n# Pull Day\n@date: 2026-02-20\n\n## Row\n- [x] 10\n');
+  });
+
+  it('--out-dir writes one file per session', () => {
+    const file = join(dir, 'export.json');
+    writeFileSync(file, JSON.stringify(exported));
+    const { io, streams } = captureIO();
+
+    expect(runCli(['convert', '--out-dir', join(dir, 'logs'), file], streams)).toBe(0);
+    expect(io.out).toBe(`${join(dir, 'logs', 'workout-push-day-2026-02-20.md')}\n${join(dir, 'logs', 'workout-pull-day-2026-02-20.md')}\n`);
+    expect(readFileSync(join(dir, 'logs', 'workout-pull-day-2026-02-20.md'), 'utf-8')).toMatch(/^# Pull Day\n/);
+  });
+
+  it('fails on exports that do not match the schema', () => {
+    const file = join(dir, 'export.json');
+    writeFileSync(file, JSON.stringify({ ...exported, appVersion: 15 }));
+    const { io, streams } = captureIO();
+
+    expect(runCli(['convert', '--multi', file], streams)).toBe(1);
+    expect(io.err).toBe(`${file}: appVersion: 15 is not of type 'string'\n`);
+  });
+
+  it('rejects unreadable files and conflicting formats', () => {
+    const file = join(dir, 'export.json');
+    writeFileSync(file, '{');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['convert', file], streams)).toBe(2);
+    expect(runCli(['convert', '--single', '--multi', file], streams)).toBe(2);
+    expect(io.err).toContain('is not valid JSON');
+  });
+});
+
+describe('lmwf validate', () => {
+  const VALID = '# Push\n## Bench Press\n- 135 x 5\n';
+  const INVALID = '# Push\n## Bench Press\n- heavy\n- 135 x 5\n';
+
+  function writeWorkouts(files: Record<string, string>) {
+    for (const [name, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(dir, name)), { recursive: true });
+      writeFileSync(join(dir, name), content);
+    }
+  }
+
+  it('reports each problem as file:line:column and exits 1 on errors', () => {
+    writeWorkouts({ 'good.md': VALID, 'bad.md': INVALID });
+    const { io, streams } = captureIO();
+
+    expect(runCli(['validate', join(dir, 'good.md')], streams)).toBe(0);
+    expect(io.out).toBe('1 file valid\n');
+
+    io.out = '';
+    expect(runCli(['validate', join(dir, 'good.md'), join(dir, 'bad.md')], streams)).toBe(1);
+    expect(io.out).toMatch(new RegExp(`^${join(dir, 'bad.md')}:3:3: error: .+ \\[\\w+\\]\\n1 error and 0 warnings in 2 files\\n$`));
+  });
+
+  it('expands quoted globs and directories', () => {
+    writeWorkouts({ 'a.md': VALID, 'week1/b.md': VALID, 'week1/deep/c.md': VALID, 'week1/notes.txt': 'x', '.hidden/d.md': INVALID });
+    const { io, streams } = captureIO();
+
+    expect(runCli(['validate', `${dir}/**/*.md`], streams)).toBe(0);
+    expect(io.out).toBe('3 files valid\n');
+    expect(runCli(['validate', join(dir, 'week1'), `${dir}/week1/*.{md,txt}`], streams)).toBe(1);
+    expect(runCli(['validate', `${dir}/missing/*.md`], streams)).toBe(2);
+    expect(io.err).toContain('no files match');
+  });
+
+  it('gates warnings with --warnings-as-errors and --max-warnings', () => {
+    writeWorkouts({ 'warn.md': '# Push\n## Bench Press\n- 135 x 5 @rest: 5s\n' });
+    const file = join(dir, 'warn.md');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['validate', file], streams)).toBe(0);
+    expect(io.out).toMatch(/warning: .+\n0 errors and 1 warning in 1 file\n$/);
+    expect(runCli(['validate', '--warnings-as-errors', file], streams)).toBe(1);
+    expect(runCli(['validate', '--max-warnings', '1', file], streams)).toBe(0);
+    expect(runCli(['validate', '--max-warnings', '0', file], streams)).toBe(1);
+    expect(io.err).toBe('lmwf validate: too many warnings (1, max 0)\n');
+  });
+
+  it('prints JSON, JUnit XML and SARIF', () => {
+    writeWorkouts({ 'good.md': VALID, 'bad.md': INVALID });
+    const files = [join(dir, 'bad.md'), join(dir, 'good.md')];
+    const run = (format: string) => {
+      const { io, streams } = captureIO();
+      expect(runCli(['validate', '--format', format, ...files], streams)).toBe(1);
+      return io.out;
+    };
+
+    const json = JSON.parse(run('json'));
+    expect(json).toMatchObject({ errorCount: 1, warningCount: 0 });
+    expect(json.files.map((f: { success: boolean }) => f.success)).toEqual([false, true]);
+    expect(json.files[0].diagnostics[0]).toMatchObject({ severity: 'error', line: 3, startColumn: 3 });
+
+    const junit = run('junit');
+    expect(junit).toContain('<testsuites name="lmwf" tests="2" failures="1">');
+    expect(junit).toContain(`<testcase classname="lmwf" name="${files[1]}"/>`);
+    expect(junit).toMatch(/<failure message="1 error: [^"]+" type="\w+">/);
+
+    const sarif = JSON.parse(run('sarif'));
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].results).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        locations: [{ physicalLocation: { artifactLocation: { uri: files[0] }, region: expect.objectContaining({ startLine: 3 }) } }],
+      }),
+    ]);
+    expect(sarif.runs[0].tool.driver.rules).toEqual([{ id: sarif.runs[0].results[0].ruleId }]);
+  });
+
+  it('configures rules from the nearest .lmwfrc', () => {
+    writeWorkouts({
+      'warn.md': '# Push\n## Bench Press\n- 135 x 5 @rest: 5s\n',
+      'strict/warn.md': '# Push\n## Bench Press\n- 135 x 5 @rest: 5s\n',
+      'strict/.lmwfrc': JSON.stringify({ rules: { SHORT_REST: ['error', { min: 3 }] } }),
+      'relaxed/warn.md': '# Push\n## Bench Press\n- 135 x 5 @rest: 5s\n',
+      'relaxed/.lmwfrc': JSON.stringify({ rules: { SHORT_REST: 'off' } }),
+      'broken/warn.md': VALID,
+      'broken/.lmwfrc': JSON.stringify({ rules: { SHORT_REST: 'never' } }),
+    });
+    const { io, streams } = captureIO();
+
+    expect(runCli(['validate', join(dir, 'relaxed')], streams)).toBe(0);
+    expect(io.out).toBe('1 file valid\n');
+    expect(runCli(['validate', '--warnings-as-errors', join(dir, 'relaxed')], streams)).toBe(0);
+    expect(runCli(['validate', '--max-warnings', '0', join(dir, 'warn.md')], streams)).toBe(1);
+    expect(runCli(['validate', join(dir, 'strict', 'warn.md')], streams)).toBe(0);
+    writeFileSync(join(dir, 'strict', '.lmwfrc'), JSON.stringify({ rules: { SHORT_REST: 'error' } }));
+    expect(runCli(['validate', join(dir, 'strict', 'warn.md')], streams)).toBe(1);
+
+    expect(runCli(['validate', join(dir, 'broken')], streams)).toBe(2);
+    expect(io.err).toContain(`${join(dir, 'broken', '.lmwfrc')}: rules.SHORT_REST must be "error", "warning" or "off"`);
+  });
+
+  it('rejects bad options and unreadable files', () => {
+    const { io, streams } = captureIO();
+
+    expect(runCli(['validate'], streams)).toBe(2);
+    expect(runCli(['validate', '--format', 'xml', 'a.md'], streams)).toBe(2);
+    expect(runCli(['validate', '--max-warnings', '-1', 'a.md'], streams)).toBe(2);
+    expect(runCli(['validate', join(dir, 'nope.md')], streams)).toBe(2);
+    expect(io.err).toContain('unknown format "xml"');
+    expect(io.err).toContain(`cannot read ${join(dir, 'nope.md')}`);
+  });
+});
+
+describe('lmwf fix', () => {
+  it('prints the fixed file to stdout', () => {
+    const file = join(dir, 'a.md');
+    writeFileSync(file, '# W\n@units: pounds\n## A\n- AMRAP\n');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['fix', file], streams)).toBe(0);
+    expect(io.out).toBe('# W\n@units: lbs\n## A\n- bw x AMRAP\n');
+    expect(readFileSync(file, 'utf-8')).toBe('# W\n@units: pounds\n## A\n- AMRAP\n');
+  });
+
+  it('--write rewrites files and lists errors it cannot fix', () => {
+    const fixable = join(dir, 'fixable.md');
+    const broken = join(dir, 'broken.md');
+    writeFileSync(fixable, '# W\n## A\n- 135 lbs\n- 5 @rpe: 8\n');
+    writeFileSync(broken, '# W\n## A\n- heavy\n- 5\n');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['fix', '--write', `${dir}/*.md`], streams)).toBe(1);
+    expect(readFileSync(fixable, 'utf-8')).toBe('# W\n## A\n- 135 lbs x 1\n- 5 RPE 8\n');
+    expect(io.out).toBe(`fixed ${fixable} (2 fixes)\n`);
+    expect(io.err).toMatch(new RegExp(`^${broken}:3:3: error: .+ \\[INVALID_SET_FORMAT\\]\\n$`));
+  });
+
+  it('needs --write for several files', () => {
+    writeFileSync(join(dir, 'a.md'), '# W\n## A\n- 5\n');
+    writeFileSync(join(dir, 'b.md'), '# W\n## A\n- 5\n');
+    const { io, streams } = captureIO();
+
+    expect(runCli(['fix', join(dir, 'a.md'), join(dir, 'b.md')], streams)).toBe(2);
+    expect(runCli(['fix', '--check', join(dir, 'a.md')], streams)).toBe(2);
+    expect(io.err).toContain('Usage: lmwf fix');
+  });
+});
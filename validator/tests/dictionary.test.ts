@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import bundled from '../src/data/exercise-dictionary.json' with { type: 'json' };
+import {
+  exerciseDictionary,
+  createExerciseDictionary,
+  resolveExerciseName,
+  canonicalIdFor,
+} from '../src/dictionary/index.js';
+
+describe('exerciseDictionary', () => {
+  it('matches the shared dictionary in spec/data', () => {
+    const shared = JSON.parse(readFileSync(join(__dirname, '../../spec/data/exercise-dictionary.json'), 'utf-8'));
+    expect(bundled).toEqual(shared);
+  });
+
+  it('looks up canonical names and aliases ignoring case and spacing', () => {
+    expect(exerciseDictionary.lookup('Romanian Deadlift')?.canonical).toBe('Romanian Deadlift');
+    expect(exerciseDictionary.lookup('BB  RDL')?.canonical).toBe('Romanian Deadlift');
+    expect(exerciseDictionary.lookup(' flat bench ')?.canonical).toBe('Bench Press');
+    expect(exerciseDictionary.lookup('Underwater Basket Weaving')).toBeNull();
+  });
+
+  it('suggests close canonical names, closest first', () => {
+    expect(exerciseDictionary.suggest('Bench Pres')[0]).toBe('Bench Press');
+    expect(exerciseDictionary.suggest('Romanain Deadlift')).toContain('Romanian Deadlift');
+    expect(exerciseDictionary.suggest('Underwater Basket Weaving')).toEqual([]);
+  });
+
+  it('respects the suggestion limit', () => {
+    expect(exerciseDictionary.suggest('press', 1).length).toBeLessThanOrEqual(1);
+  });
+
+  it('prefers the first definition that claims an alias', () => {
+    const dictionary = createExerciseDictionary([
+      { canonical: 'Alpha', aliases: ['shared'], muscleGroups: [], category: 'compound' },
+      { canonical: 'Beta', aliases: ['shared'], muscleGroups: [], category: 'isolation' },
+    ]);
+    expect(dictionary.lookup('shared')?.canonical).toBe('Alpha');
+  });
+});
+
+describe('resolveExerciseName', () => {
+  it('keeps a trailing bracketed qualifier', () => {
+    expect(resolveExerciseName(exerciseDictionary, 'bb rdl (paused)')?.name).toBe('Romanian Deadlift (paused)');
+    expect(resolveExerciseName(exerciseDictionary, 'flat bench [close grip]')?.name).toBe('Bench Press [close grip]');
+  });
+
+  it('returns null for unknown names', () => {
+    expect(resolveExerciseName(exerciseDictionary, 'Mystery Lift (paused)')).toBeNull();
+  });
+});
+
+describe('canonicalIdFor', () => {
+  it('slugifies the canonical name', () => {
+    expect(canonicalIdFor(exerciseDictionary.lookup('rdl')!)).toBe('romanian-deadlift');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { diffWorkouts } from '../src/differ/index.js';
+import { parseOrThrow } from './helpers.js';
+
+const PUSH_DAY = `# Push Day
+@units: lbs
+
+## Bench Press
+- 185 x 5 @rest: 120s
+- 205 x 5 @rest: 120s
+- 225 x 5 @rest: 120s
+
+## Superset: Arms
+### Bicep Curl
+- 25 x 10
+### Tricep Pushdown
+- 40 x 10`;
+
+describe('diffWorkouts', () => {
+  it('reports no changes for the same markdown', () => {
+    const diff = diffWorkouts(parseOrThrow(PUSH_DAY), parseOrThrow(PUSH_DAY));
+
+    expect(diff).toEqual({ hasChanges: false, metadata: [], exercises: [], summary: [] });
+  });
+
+  it('describes set, rest and exercise changes', () => {
+    const edited = PUSH_DAY
+      .replace('- 225 x 5 @rest: 120s', '- 235 x 5 @rest: 180s')
+      .concat('\n\n## Face Pulls\n- 30 x 15');
+    const diff = diffWorkouts(parseOrThrow(PUSH_DAY), parseOrThrow(edited));
+
+    expect(diff.summary).toEqual([
+      'Bench Press set 3: 225×5 → 235×5, rest 120s → 180s',
+      'Added Face Pulls',
+    ]);
+    expect(diff.exercises[0]).toMatchObject({
+      change: 'modified',
+      path: ['Bench Press'],
+      sets: [{
+        change: 'modified',
+        index: 2,
+        fields: [
+          { field: 'targetWeight', before: 225, after: 235 },
+          { field: 'restSeconds', before: 120, after: 180 },
+        ],
+      }],
+    });
+  });
+
+  it('reports added and removed sets', () => {
+    const edited = PUSH_DAY.replace('- 205 x 5 @rest: 120s\n- 225 x 5 @rest: 120s', '- 205 x 5 @rest: 120s');
+    const diff = diffWorkouts(parseOrThrow(PUSH_DAY), parseOrThrow(edited));
+    const reversed = diffWorkouts(parseOrThrow(edited), parseOrThrow(PUSH_DAY));
+
+    expect(diff.summary).toEqual(['Bench Press: removed set 3 (225×5)']);
+    expect(reversed.summary).toEqual(['Bench Press: added set 3 (225×5)']);
+  });
+
+  it('matches exercises by name when they move', () => {
+    const moved = `# Push Day
+@units: lbs
+
+## Superset: Arms
+### Tricep Pushdown
+- 40 x 10
+### Bicep Curl
+- 25 x 12
+
+## Bench Press
+- 185 x 5 @rest: 120s
+- 205 x 5 @rest: 120s
+- 225 x 5 @rest: 120s`;
+    const diff = diffWorkouts(parseOrThrow(PUSH_DAY), parseOrThrow(moved));
+
+    expect(diff.summary).toEqual(['Superset: Arms > Bicep Curl set 1: 25×10 → 25×12']);
+  });
+
+  it('matches within groups, so the same name in another group is not a match', () => {
+    const edited = PUSH_DAY.replace('### Bicep Curl\n- 25 x 10\n', '').concat('\n\n## Bicep Curl\n- 25 x 10');
+    const diff = diffWorkouts(parseOrThrow(PUSH_DAY), parseOrThrow(edited));
+
+    expect(diff.summary).toEqual(['Removed Superset: Arms > Bicep Curl', 'Added Bicep Curl']);
+  });
+
+  it('treats a different name in the same position as a rename', () => {
+    const edited = PUSH_DAY.replace('## Bench Press', '## Incline Bench Press');
+    const diff = diffWorkouts(parseOrThrow(PUSH_DAY), parseOrThrow(edited));
+
+    expect(diff.summary).toEqual(['Renamed Bench Press → Incline Bench Press']);
+    expect(diff.exercises[0]).toMatchObject({ change: 'modified', path: ['Incline Bench Press'], sets: [] });
+  });
+
+  it('lists added groups with their exercises', () => {
+    const edited = PUSH_DAY.concat('\n\n## Superset: Shoulders\n### Lateral Raise\n- 15 x 12\n### Face Pulls\n- 30 x 15');
+    const diff = diffWorkouts(parseOrThrow(PUSH_DAY), parseOrThrow(edited));
+
+    expect(diff.summary).toEqual([
+      'Added Superset: Shoulders',
+      'Added Superset: Shoulders > Lateral Raise',
+      'Added Superset: Shoulders > Face Pulls',
+    ]);
+  });
+
+  it('reports metadata changes', () => {
+    const before = parseOrThrow('# Legs\n@tags: strength\n@1rm: Squat = 315\n## Squat\n- 225 x 5');
+    const after = parseOrThrow('# Leg Day\n@tags: strength, volume\n@units: kg\n@1rm: Squat = 150\n## Squat\n- 225 x 5');
+    const diff = diffWorkouts(before, after);
+
+    expect(diff.summary).toEqual([
+      'Name: Legs → Leg Day',
+      'Tags: strength → strength, volume',
+      'Units: none → kg',
+      '1RM Squat: 315 → 150 kg',
+      'Squat set 1: 225×5 → 225 kg×5',
+    ]);
+    expect(diff.metadata[0]).toEqual({ field: 'name', before: 'Legs', after: 'Leg Day' });
+  });
+
+  it('describes other set fields', () => {
+    const before = parseOrThrow('# W\n## Plank\n- 60s\n## Squat\n- 225 x 5 @rpe: 8 @tempo: 3-0-1-0');
+    const after = parseOrThrow('# W\n## Plank\n- 90s @perside\n## Squat\n- 225 x 5 @rpe: 9 @dropset');
+    const diff = diffWorkouts(before, after);
+
+    expect(diff.summary).toEqual([
+      'Plank set 1: 60s → 90s, now per side',
+      'Squat set 1: RPE 8 → 9, tempo 3-0-1-0 → none, now a drop set',
+    ]);
+  });
+});
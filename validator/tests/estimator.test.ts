@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { estimateDuration } from '../src/estimator/index.js';
+import { parseOrThrow } from './helpers.js';
+
+describe('estimateDuration', () => {
+  it('sums rep execution time and rest', () => {
+    const estimate = estimateDuration(parseOrThrow(`# W
+## Squat
+- 3 x 5 @ 225 @rest: 120s`));
+
+    // 3 sets x (5 reps x 3s + 120s rest)
+    expect(estimate.totalSeconds).toBe(3 * (15 + 120));
+  });
+
+  it('uses targetTime for timed sets', () => {
+    const estimate = estimateDuration(parseOrThrow(`# W
+## Plank
+- 60s @rest: 30s
+- 45s`));
+
+    expect(estimate.totalSeconds).toBe(135);
+  });
+
+  it('uses the tempo for rep duration when present', () => {
+    const estimate = estimateDuration(parseOrThrow(`# W
+## Squat
+- 225 x 5 @tempo: 3-1-1-0`));
+
+    expect(estimate.totalSeconds).toBe(25);
+  });
+
+  it('doubles work for per-side sets but not rest', () => {
+    const estimate = estimateDuration(parseOrThrow(`# W
+## Lunge
+- 10 @perside @rest: 60s`));
+
+    expect(estimate.totalSeconds).toBe(10 * 3 * 2 + 60);
+  });
+
+  it('uses range midpoints and assumed AMRAP reps', () => {
+    const plan = parseOrThrow(`# W
+## Curl
+- 25 x 8-12
+- 25 x AMRAP`);
+
+    expect(estimateDuration(plan).totalSeconds).toBe(10 * 3 + 10 * 3);
+    expect(estimateDuration(plan, { secondsPerRep: 2, amrapReps: 15 }).totalSeconds).toBe(10 * 2 + 15 * 2);
+  });
+
+  it('rests only after the last exercise in each superset round', () => {
+    const estimate = estimateDuration(parseOrThrow(`# Arms
+## Superset: Arms
+### Bicep Curl
+- 25 x 10 @rest: 30s
+- 25 x 10 @rest: 30s
+- 25 x 10 @rest: 30s
+### Tricep Pushdown
+- 40 x 10 @rest: 90s
+- 40 x 10 @rest: 90s`));
+
+    const [group, curl, pushdown] = estimate.exercises;
+    // Round 3 has only curls, so the curl rests there
+    expect(curl.seconds).toBe(3 * 30 + 30);
+    expect(pushdown.seconds).toBe(2 * 30 + 2 * 90);
+    expect(group.seconds).toBe(curl.seconds + pushdown.seconds);
+    expect(estimate.totalSeconds).toBe(group.seconds);
+  });
+
+  it('keeps rest inside sections', () => {
+    const estimate = estimateDuration(parseOrThrow(`# W
+## Warmup
+### Jumping Jacks
+- 30s @rest: 15s
+### Arm Circles
+- 30s @rest: 15s`));
+
+    expect(estimate.totalSeconds).toBe(90);
+  });
+});
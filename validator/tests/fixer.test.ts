@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseWorkout } from '../src/parser/index.js';
+import { applyEdits, fixWorkout } from '../src/fixer/index.js';
+
+const ERRORS_DIR = join(__dirname, '../../liftmark-workout-format/examples/errors');
+
+describe('diagnostic fixes', () => {
+  it('are attached to diagnostics with an obvious correction', () => {
+    const result = parseWorkout('# W\n@units: pounds\n## A\n- heavy');
+
+    expect(result.diagnostics.find((d) => d.code === 'INVALID_UNITS')!.fix).toEqual({
+      title: 'Replace "pounds" with "lbs"',
+      edits: [{ line: 2, startColumn: 9, endColumn: 15, newText: 'lbs' }],
+    });
+    expect(result.diagnostics.find((d) => d.code === 'INVALID_SET_FORMAT')).not.toHaveProperty('fix');
+  });
+
+  it('are left out when the correction is not obvious', () => {
+    const result = parseWorkout('# W\n@units: stone\n## A\n- 5');
+
+    expect(result.diagnostics[0]).toMatchObject({ code: 'INVALID_UNITS' });
+    expect(result.diagnostics[0]).not.toHaveProperty('fix');
+  });
+});
+
+describe('fixWorkout', () => {
+  it('fixes the error examples it knows', () => {
+    const cases: Array<[string, string]> = [
+      ['tc-invalid-units-pounds.md', '@units: lbs'],
+      ['tc-invalid-units-kilograms.md', '@units: kg'],
+      ['tc-weight-no-reps.md', '- 135 lbs x 1\n- 225 lbs x 1\n- 100 kg x 1'],
+      ['tc-standalone-amrap.md', '- bw x AMRAP'],
+    ];
+
+    for (const [file, expected] of cases) {
+      const result = fixWorkout(readFileSync(join(ERRORS_DIR, file), 'utf-8'));
+      expect(result.markdown, file).toContain(expected);
+      expect(result.diagnostics, file).toEqual([]);
+      expect(parseWorkout(result.markdown).success, file).toBe(true);
+    }
+  });
+
+  it('moves deprecated @rpe and @tempo into the set notes', () => {
+    const result = fixWorkout('# W\n## Squat\n- 225 x 5 @rpe: 8.5 @tempo: 3-0-1-0 Slow down\n- 225 x 5 @rest: 90s @rpe: 8\n');
+
+    expect(result.markdown).toBe('# W\n## Squat\n- 225 x 5 RPE 8.5 Tempo 3-0-1-0 Slow down\n- 225 x 5 @rest: 90s RPE 8\n');
+    expect(result.applied).toEqual(['Move @rpe into the set notes', 'Move @tempo into the set notes', 'Move @rpe into the set notes']);
+    expect(parseWorkout(result.markdown).data!.exercises[0].sets.map((s) => [s.notes, s.restSeconds])).toEqual([
+      ['RPE 8.5 Tempo 3-0-1-0 Slow down', null],
+      ['RPE 8', 90],
+    ]);
+  });
+
+  it('keeps notes after a reference lift out of its name', () => {
+    const result = fixWorkout('# W\n@1rm: Back Squat = 300 lbs\n## Front Squat\n- 3 @ 60% of Back Squat @rpe: 8\n');
+
+    expect(result.markdown).toBe('# W\n@1rm: Back Squat = 300 lbs\n## Front Squat\n- 3 @ 60% of Back Squat @ RPE 8\n');
+    expect(result.diagnostics).toEqual([]);
+    const [set] = parseWorkout(result.markdown).data!.exercises[0].sets;
+    expect([set.percentageOf, set.notes]).toEqual(['Back Squat', 'RPE 8']);
+  });
+
+  it('reads a rest without a unit as seconds', () => {
+    const result = fixWorkout('# W\n## Squat\n- 225 x 5 @rest: 90\n- 225 x 5 @rest: 120 then walk\n');
+
+    expect(result.markdown).toBe('# W\n## Squat\n- 225 x 5 @rest: 90s\n- 225 x 5 @rest: 120s then walk\n');
+    expect(result.applied).toEqual(['Read "90" as seconds (90s)', 'Read "120" as seconds (120s)']);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('keeps line endings and reports what it could not fix', () => {
+    const result = fixWorkout('# W\r\n@units: Pounds\r\n## A\r\n- heavy\r\n- 5\r\n');
+
+    expect(result.markdown).toBe('# W\r\n@units: lbs\r\n## A\r\n- heavy\r\n- 5\r\n');
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['INVALID_SET_FORMAT']);
+  });
+
+  it('leaves rules that are off alone', () => {
+    const markdown = '# W\n## A\n- 5 @rpe: 8';
+    expect(fixWorkout(markdown, { rules: { DEPRECATED_RPE: 'off' } }).markdown).toBe(markdown);
+  });
+});
+
+describe('applyEdits', () => {
+  it('applies edits right to left so columns stay valid', () => {
+    const edits = [
+      { line: 1, startColumn: 1, endColumn: 2, newText: 'AA' },
+      { line: 1, startColumn: 3, endColumn: 3, newText: '-' },
+      { line: 2, startColumn: 1, endColumn: 4, newText: '' },
+    ];
+    expect(applyEdits('abc\ndef', edits)).toBe('AAb-c\n');
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseWorkout } from '../src/parser/index.js';
+import type { WorkoutPlan } from '../src/parser/index.js';
+import { formatWorkout, formatSetLine } from '../src/formatter/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const EXAMPLES_DIR = resolve(__dirname, '../../liftmark-workout-format/examples');
+
+function structureOf(plan: WorkoutPlan | null) {
+  if (!plan) return null;
+  const positions = new Map(plan.exercises.map((e, index) => [e.id, index]));
+  return {
+    name: plan.name,
+    description: plan.description,
+    tags: plan.tags,
+    defaultWeightUnit: plan.defaultWeightUnit,
+    exercises: plan.exercises.map(({ id, workoutPlanId, parentExerciseId, sets, ...exercise }) => ({
+      ...exercise,
+      parent: parentExerciseId != null ? positions.get(parentExerciseId) : null,
+      sets: sets.map(({ id: setId, plannedExerciseId, ...set }) => set),
+    })),
+  };
+}
+
+// MARK: - Examples
+
+describe('Formatting Examples', () => {
+  const files = ['valid', 'errors'].flatMap((dir) =>
+    readdirSync(resolve(EXAMPLES_DIR, dir))
+      .filter((f) => f.endsWith('.md'))
+      .map((f) => `${dir}/${f}`)
+  );
+
+  it.each(files)('preserves the parse of examples/%s', (file) => {
+    const source = readFileSync(resolve(EXAMPLES_DIR, file), 'utf-8');
+    const formatted = formatWorkout(source);
+    const before = parseWorkout(source);
+    const after = parseWorkout(formatted);
+
+    expect(after.success).toBe(before.success);
+    expect(after.errors.length).toBe(before.errors.length);
+    expect(structureOf(after.data)).toEqual(structureOf(before.data));
+    expect(formatWorkout(formatted)).toBe(formatted);
+  });
+});
+
+// MARK: - Normalization
+
+describe('Formatting', () => {
+  it('normalizes whitespace, units and x spacing', () => {
+    const source = `
+
+# Push Day
+@UNITS:lb
+@tags:push,strength
+
+
+## Bench Press
+Keep elbows tucked.
+  -   225lb x5reps   @rest:90 sec
+- 100 kgs x 8
+-  bw for 60sec
+`;
+    expect(formatWorkout(source)).toBe(`# Push Day
+@units: lbs
+@tags: push, strength
+
+## Bench Press
+Keep elbows tucked.
+- 225 lbs x 5 @rest: 90s
+- 100 kg x 8
+- 60s
+`);
+  });
+
+  it('shifts headers so the shallowest level is #', () => {
+    const source = `### Workout
+#### Squat
+- 225 x 5
+#### Superset: Arms
+###### Curl
+- 20 x 10`;
+
+    expect(formatWorkout(source)).toBe(`# Workout
+
+## Squat
+- 225 x 5
+
+## Superset: Arms
+
+#### Curl
+- 20 x 10
+`);
+  });
+
+  it('orders known modifiers and keeps notes and unknown modifiers in place', () => {
+    expect(formatSetLine('135 x 8 slow @perside @RPE: 8 @dropset @rest: 2 min then stretch @pace: fast'))
+      .toBe('135 x 8 slow @rest: 2m @dropset @perside @rpe: 8 then stretch @pace: fast');
+  });
+
+  it('leaves unparseable set content untouched', () => {
+    expect(formatSetLine('heavy  triple @rest: soon')).toBe('heavy  triple @rest: soon');
+    expect(formatSetLine('135 lbs')).toBe('135 lbs');
+    expect(formatSetLine('AMRAP')).toBe('AMRAP');
+  });
+
+  it('normalizes rep ranges and keeps shorthand loads next to the set count', () => {
+    expect(formatSetLine('135x08-12 @rest:60s')).toBe('135 x 8-12 @rest: 60s');
+    expect(formatSetLine('3x5 @rest: 3 min @225lb   paused')).toBe('3 x 5 @rest: 3m @225lb   paused');
+    expect(formatSetLine('5x5 @ 225lb @rpe:8 @rest: 3 min')).toBe('5 x 5 @ 225 lbs @rest: 3m @rpe: 8');
+    expect(formatSetLine('3 x amrap @bw')).toBe('3 x AMRAP @ bw');
+    expect(formatSetLine('1@100 kgs top single')).toBe('1 @ 100 kg top single');
+  });
+
+  it('normalizes percentage and RPE loads', () => {
+    expect(formatSetLine('5x75%  1RM')).toBe('75% x 5');
+    expect(formatSetLine('80.0%x3 @rest:2m')).toBe('80% x 3 @rest: 2m');
+    expect(formatSetLine('3x5 @rest: 3m @70% 1rm of Back Squat')).toBe('3 x 5 @rest: 3m @70% 1rm of Back Squat');
+    expect(formatSetLine('3 x 5 @ 70% 1rm of  Back Squat @rest:3m')).toBe('3 x 5 @ 70% of Back Squat @rest: 3m');
+    expect(formatSetLine('2 @rpe 9')).toBe('2 @ RPE 9');
+  });
+
+  it('normalizes distance units', () => {
+    expect(formatSetLine('400yd')).toBe('400 yards');
+    expect(formatSetLine('1 mi easy pace')).toBe('1 miles easy pace');
+  });
+
+  it('preserves HTML comments and fenced code blocks verbatim', () => {
+    const source = `# Workout
+<!--
+  - 225x5   draft
+-->
+\`\`\`
+##   not a header
+\`\`\`
+## Squat
+- 225x5`;
+
+    expect(formatWorkout(source)).toBe(`# Workout
+<!--
+  - 225x5   draft
+-->
+\`\`\`
+##   not a header
+\`\`\`
+
+## Squat
+- 225 x 5
+`);
+  });
+
+  it('normalizes one-rep max metadata', () => {
+    expect(formatWorkout('# W\n@1rm:Bench Press=275lb\n## Bench Press\n- 5 x 75%')).toBe('# W\n@1rm: Bench Press = 275 lbs\n\n## Bench Press\n- 75% x 5\n');
+  });
+
+  it('keeps invalid unit metadata for the parser to report', () => {
+    expect(formatWorkout('# W\n@units: pounds\n## A\n- 5')).toBe('# W\n@units: pounds\n\n## A\n- 5\n');
+  });
+});
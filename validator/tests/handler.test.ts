@@ -144,6 +144,27 @@ describe('Lambda Handler', () => {
     expect(body.warnings.length).toBeGreaterThan(0);
   });
 
+  it('returns structured diagnostics in response', async () => {
+    const markdown = `# Workout
+## Bench Press
+- 135 x 5 @rest: soon`;
+    const event = makeEvent({ body: JSON.stringify({ markdown }) });
+    const result = await handler(event);
+
+    expect(result).toHaveProperty('statusCode', 200);
+    const body = parseBody(result as { body: string });
+    expect(body.success).toBe(false);
+    expect(body.diagnostics).toHaveLength(1);
+    expect(body.diagnostics[0]).toMatchObject({
+      code: 'INVALID_REST',
+      severity: 'error',
+      line: 3,
+      startColumn: 18,
+      endColumn: 22,
+      text: 'soon',
+    });
+  });
+
   it('includes group info in exercise summary', async () => {
     const markdown = `# Workout
 ## Superset: Arms
@@ -209,3 +230,427 @@ describe('Lambda Handler', () => {
     expect(body.warnings).toEqual([]);
   });
 });
+
+// MARK: - Program Validation
+
+describe('POST /validate-program', () => {
+  const program = `# Beginner Strength
+@units: lbs
+@tags: strength
+
+## Week 1
+### Day 1
+#### Squat
+- 3 x 5 @ 135
+### Day 2
+#### Deadlift
+- 1 x 5 @ 185
+
+## Week 2
+### Day 1
+#### Squat
+- 3 x 5 @ 145`;
+
+  it('summarizes each workout with its week', async () => {
+    const event = makeEvent({ rawPath: '/validate-program', body: JSON.stringify({ markdown: program }) });
+    const result = await handler(event);
+
+    expect(result).toHaveProperty('statusCode', 200);
+    const body = parseBody(result as { body: string });
+    expect(body.success).toBe(true);
+    expect(body.summary).toMatchObject({
+      programName: 'Beginner Strength',
+      defaultWeightUnit: 'lbs',
+      tags: ['strength'],
+      weekCount: 2,
+      workoutCount: 3,
+      totalSetCount: 7,
+    });
+    expect(body.summary.workouts).toEqual([
+      { name: 'Day 1', week: 'Week 1', exerciseCount: 1, setCount: 3 },
+      { name: 'Day 2', week: 'Week 1', exerciseCount: 1, setCount: 1 },
+      { name: 'Day 1', week: 'Week 2', exerciseCount: 1, setCount: 3 },
+    ]);
+  });
+
+  it('reports errors with program line numbers', async () => {
+    const markdown = program.replace('- 1 x 5 @ 185', '- heavy');
+    const event = makeEvent({ rawPath: '/validate-program', body: JSON.stringify({ markdown }) });
+    const body = parseBody((await handler(event)) as { body: string });
+
+    expect(body.success).toBe(false);
+    expect(body.summary).toBeNull();
+    expect(body.diagnostics.map((d: { code: string; line: number }) => [d.code, d.line])).toEqual([
+      ['NO_SETS', 10],
+      ['INVALID_SET_FORMAT', 11],
+    ]);
+  });
+
+  it('keeps /validate treating the document as a single workout', async () => {
+    const event = makeEvent({ body: JSON.stringify({ markdown: program }) });
+    const body = parseBody((await handler(event)) as { body: string });
+
+    expect(body.summary).not.toHaveProperty('programName');
+    expect(body.summary).toHaveProperty('workoutName');
+  });
+});
+
+describe('POST /analyze', () => {
+  it('returns volume stats for the workout', async () => {
+    const markdown = `# Leg Day
+@units: lbs
+
+## Back Squat
+- 3 x 5 @ 225 @rest: 180s
+
+## Plank
+- 60s`;
+    const event = makeEvent({ rawPath: '/analyze', body: JSON.stringify({ markdown }) });
+    const result = await handler(event);
+
+    expect(result).toHaveProperty('statusCode', 200);
+    const body = parseBody(result as { body: string });
+    expect(body.success).toBe(true);
+    expect(body.summary).toMatchObject({
+      workoutName: 'Leg Day',
+      defaultWeightUnit: 'lbs',
+      exerciseCount: 2,
+      totalSetCount: 4,
+      totalReps: 15,
+      tonnage: { lbs: 3375, kg: 0 },
+      timeUnderLoadSeconds: 60,
+      totalRestSeconds: 540,
+    });
+    expect(body.summary.setsPerMuscleGroup.quadriceps).toBe(3);
+  });
+
+  it('counts percentage sets at the load resolved from @1rm', async () => {
+    const markdown = '# W\n@units: lbs\n@1rm: Back Squat = 300 lbs\n## Back Squat\n- 5 x 5 @ 75%\n## Bench Press\n- 3 x 5 @ 80%';
+    const body = parseBody((await handler(makeEvent({ rawPath: '/analyze', body: JSON.stringify({ markdown }) }))) as { body: string });
+
+    expect(body.summary.tonnage).toEqual({ lbs: 5625, kg: 0 });
+    expect(body.summary.unresolvedLifts).toEqual(['Bench Press']);
+  });
+
+  it('returns no summary for an invalid workout', async () => {
+    const event = makeEvent({ rawPath: '/analyze', body: JSON.stringify({ markdown: '# W\n## A\n- heavy' }) });
+    const body = parseBody((await handler(event)) as { body: string });
+
+    expect(body.success).toBe(false);
+    expect(body.summary).toBeNull();
+    expect(body.errors.length).toBeGreaterThan(0);
+  });
+});
+
+describe('Estimated duration', () => {
+  it('includes the estimate in the summary with a per-exercise breakdown', async () => {
+    const markdown = `# Quick
+## Squat
+- 3 x 5 @ 225 @rest: 120s
+## Plank
+- 60s`;
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown }) }))) as { body: string });
+
+    expect(body.summary.estimatedDurationSeconds).toBe(3 * (15 + 120) + 60);
+    expect(body.summary.exercises.map((e: { estimatedDurationSeconds: number }) => e.estimatedDurationSeconds)).toEqual([405, 60]);
+  });
+});
+
+describe('targetUnits', () => {
+  const markdown = `# International Gym
+@units: lbs
+
+## Dumbbell Press
+- 50 x 10
+- 25 kg x 8`;
+
+  it('converts the workout and returns it as markdown', async () => {
+    const event = makeEvent({ body: JSON.stringify({ markdown, targetUnits: { weight: 'kg' } }) });
+    const body = parseBody((await handler(event)) as { body: string });
+
+    expect(body.success).toBe(true);
+    expect(body.summary.defaultWeightUnit).toBe('kg');
+    expect(body.convertedMarkdown).toBe('# International Gym\n@units: kg\n\n## Dumbbell Press\n- 22.5 x 10\n- 25 x 8\n');
+  });
+
+  it('omits convertedMarkdown when not requested', async () => {
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown }) }))) as { body: string });
+
+    expect(body).not.toHaveProperty('convertedMarkdown');
+  });
+
+  it('totals /analyze tonnage in the target unit', async () => {
+    const event = makeEvent({ rawPath: '/analyze', body: JSON.stringify({ markdown, targetUnits: { weight: 'kg' } }) });
+    const body = parseBody((await handler(event)) as { body: string });
+
+    expect(body.summary.tonnage).toEqual({ lbs: 0, kg: 22.5 * 10 + 25 * 8 });
+  });
+
+  it('rejects invalid target units', async () => {
+    for (const targetUnits of ['kg', { weight: 'stone' }, { distance: 'furlongs' }, { rounding: -1 }]) {
+      const result = await handler(makeEvent({ body: JSON.stringify({ markdown, targetUnits }) }));
+      expect(result).toHaveProperty('statusCode', 400);
+    }
+  });
+});
+
+describe('plates', () => {
+  const markdown = `# Strength
+@units: lbs
+
+## Back Squat
+- 225 x 5
+- 230 x 3
+
+## Dumbbell Row
+- 60 x 10`;
+
+  it('annotates barbell sets with per-side plates', async () => {
+    const event = makeEvent({ body: JSON.stringify({ markdown, plates: true }) });
+    const body = parseBody((await handler(event)) as { body: string });
+    const [squat, row] = body.summary.exercises;
+
+    expect(squat.plateLoading.map((p: { perSide: string }) => p.perSide)).toEqual(['2×45lbs', '2×45lbs + 2.5lbs']);
+    expect(squat.plateLoading[0]).toMatchObject({ orderIndex: 0, targetWeight: 225, barWeight: 45, isAchievable: true });
+    expect(row.plateLoading).toEqual([]);
+  });
+
+  it('uses a custom bar and inventory per unit', async () => {
+    const plates = { lbs: { barWeight: 35, plates: [{ weight: 45, count: 1 }, { weight: 25, count: 1 }] } };
+    const event = makeEvent({ body: JSON.stringify({ markdown, plates }) });
+    const body = parseBody((await handler(event)) as { body: string });
+
+    expect(body.summary.exercises[0].plateLoading[0]).toMatchObject({
+      plates: [{ weight: 45, count: 1 }, { weight: 25, count: 1 }],
+      isAchievable: false,
+      remainder: 25,
+    });
+  });
+
+  it('omits plate loading when not requested', async () => {
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown }) }))) as { body: string });
+
+    expect(body.summary.exercises[0]).not.toHaveProperty('plateLoading');
+  });
+
+  it('rejects a malformed plate configuration', async () => {
+    const manyPlates = Array.from({ length: 21 }, (_, i) => ({ weight: 45 - i }));
+    for (const plates of [
+      'yes',
+      { stone: {} },
+      { lbs: { barWeight: -1 } },
+      { kg: { plates: [{ weight: 0 }] } },
+      { kg: { plates: [{ weight: 0.1 }] } },
+      { lbs: { plates: [{ weight: 2.6 }] } },
+      { lbs: { plates: manyPlates } },
+    ]) {
+      const result = await handler(makeEvent({ body: JSON.stringify({ markdown, plates }) }));
+      expect(result).toHaveProperty('statusCode', 400);
+    }
+  });
+});
+
+describe('fix', () => {
+  const markdown = '# Push\n@units: pounds\n## Bench Press\n- 135 x 5 @rpe: 8';
+
+  it('returns the markdown with every fix applied', async () => {
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown, fix: true }) }))) as { body: string });
+
+    expect(body.success).toBe(false);
+    expect(body.diagnostics[0].fix).toMatchObject({ title: 'Replace "pounds" with "lbs"' });
+    expect(body.fixedMarkdown).toBe('# Push\n@units: lbs\n## Bench Press\n- 135 x 5 RPE 8');
+  });
+
+  it('omits fixedMarkdown unless requested and rejects non-boolean values', async () => {
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown }) }))) as { body: string });
+    const result = await handler(makeEvent({ body: JSON.stringify({ markdown, fix: 'yes' }) }));
+
+    expect(body).not.toHaveProperty('fixedMarkdown');
+    expect(result).toHaveProperty('statusCode', 400);
+  });
+});
+
+describe('lenient', () => {
+  const markdown = '# Push\n## Bench Press\n- 135 x 5\n- this set was amazing\n## Squat\n- heavy';
+
+  it('summarizes what parsed and marks the response partial', async () => {
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown, lenient: true }) }))) as { body: string });
+
+    expect(body.success).toBe(false);
+    expect(body.partial).toBe(true);
+    expect(body.summary).toMatchObject({ exerciseCount: 1, totalSetCount: 1 });
+    expect(body.errors).toHaveLength(3);
+  });
+
+  it('omits partial unless requested and rejects non-boolean values', async () => {
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown }) }))) as { body: string });
+    const result = await handler(makeEvent({ body: JSON.stringify({ markdown, lenient: 'yes' }) }));
+
+    expect(body.summary).toBeNull();
+    expect(body).not.toHaveProperty('partial');
+    expect(result).toHaveProperty('statusCode', 400);
+  });
+
+  it('summarizes partial programs and analyses', async () => {
+    const program = parseBody((await handler(makeEvent({
+      rawPath: '/validate-program',
+      body: JSON.stringify({ markdown: `# Program\n${markdown.replace(/^# /, '## ').replace(/\n## /g, '\n### ')}`, lenient: true }),
+    }))) as { body: string });
+    const analyze = parseBody((await handler(makeEvent({ rawPath: '/analyze', body: JSON.stringify({ markdown, lenient: true }) }))) as { body: string });
+
+    expect(program).toMatchObject({ success: false, partial: true, summary: { workoutCount: 1, totalSetCount: 1 } });
+    expect(analyze).toMatchObject({ success: false, partial: true, summary: { exerciseCount: 1, totalSetCount: 1 } });
+  });
+});
+
+describe('route options', () => {
+  it('rejects options the route does not support', async () => {
+    const markdown = '# Push\n## Bench Press\n- 135 x 5';
+    const errorFor = async (rawPath: string, options: object) => {
+      const result = await handler(makeEvent({ rawPath, body: JSON.stringify({ markdown, ...options }) }));
+      return [(result as { statusCode: number }).statusCode, parseBody(result as { body: string }).error];
+    };
+
+    expect(await errorFor('/validate-program', { targetUnits: { weight: 'kg' } })).toEqual([400, 'targetUnits is not supported by /validate-program']);
+    expect(await errorFor('/validate-program', { fix: true })).toEqual([400, 'fix is not supported by /validate-program']);
+    expect(await errorFor('/analyze', { plates: true })).toEqual([400, 'plates is not supported by /analyze']);
+    expect(await errorFor('/analyze', { sourceMap: false })).toEqual([400, 'sourceMap is not supported by /analyze']);
+    expect(await errorFor('/analyze', { targetUnits: { weight: 'kg' }, lenient: false })).toEqual([200, undefined]);
+  });
+});
+
+describe('sourceMap', () => {
+  const markdown = '# Push\n\n## Bench Press\n@rest: 90s\n- 135 x 5\n  - 3 x 5 @ 185';
+
+  it('locates each exercise header, metadata and set', async () => {
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown, sourceMap: true }) }))) as { body: string });
+    const range = (line: number, endColumn: number, startColumn = 1) => ({ startLine: line, startColumn, endLine: line, endColumn });
+
+    expect(body.summary.exercises[0].source).toEqual({
+      header: range(3, 15),
+      metadata: range(4, 11),
+      sets: [range(5, 10), range(6, 16, 3), range(6, 16, 3), range(6, 16, 3)],
+    });
+  });
+
+  it('omits source unless requested and rejects non-boolean values', async () => {
+    const body = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown }) }))) as { body: string });
+    const result = await handler(makeEvent({ body: JSON.stringify({ markdown, sourceMap: 'yes' }) }));
+
+    expect(body.summary.exercises[0]).not.toHaveProperty('source');
+    expect(result).toHaveProperty('statusCode', 400);
+  });
+});
+
+describe('rules', () => {
+  const markdown = '# Push\n## Bench Press\n- 135 x 150\n- 135 x 5 @rest: 5s';
+
+  it('configures lint rules for /validate, /validate-program and /analyze', async () => {
+    const rules = { HIGH_REPS: ['warning', { max: 200 }], SHORT_REST: 'error' };
+    const validate = parseBody((await handler(makeEvent({ body: JSON.stringify({ markdown, rules }) }))) as { body: string });
+    const program = parseBody((await handler(makeEvent({
+      rawPath: '/validate-program',
+      body: JSON.stringify({ markdown: `# Program\n${markdown.replace(/^# /, '## ').replace(/\n## /, '\n### ')}`, rules }),
+    }))) as { body: string });
+    const analyze = parseBody((await handler(makeEvent({ rawPath: '/analyze', body: JSON.stringify({ markdown, rules }) }))) as { body: string });
+
+    expect(validate).toMatchObject({ success: false, summary: null, warnings: [] });
+    expect(validate.errors).toEqual(['Line 4: Very short rest period (5s). Double-check for typos.']);
+    expect(program).toMatchObject({ success: false, warnings: [] });
+    expect(analyze).toMatchObject({ success: false, summary: null });
+  });
+
+  it('rejects unknown rules and options', async () => {
+    const result = await handler(makeEvent({ body: JSON.stringify({ markdown, rules: { HIGH_REPS: ['warning', { min: 1 }] } }) }));
+
+    expect(result).toHaveProperty('statusCode', 400);
+    expect(parseBody(result as { body: string }).error).toBe('rules.HIGH_REPS has no option "min"; options are max');
+  });
+});
+
+describe('POST /diff', () => {
+  const before = '# Push Day\n@units: lbs\n## Bench Press\n- 225 x 5 @rest: 120s';
+  const after = '# Push Day\n@units: lbs\n## Bench Press\n- 235 x 5 @rest: 180s\n## Face Pulls\n- 30 x 15';
+
+  it('returns a semantic diff of two workouts', async () => {
+    const event = makeEvent({ rawPath: '/diff', body: JSON.stringify({ before, after }) });
+    const result = await handler(event);
+
+    expect(result).toHaveProperty('statusCode', 200);
+    const body = parseBody(result as { body: string });
+    expect(body.success).toBe(true);
+    expect(body.diff.summary).toEqual(['Bench Press set 1: 225×5 → 235×5, rest 120s → 180s', 'Added Face Pulls']);
+    expect(body.after.errors).toEqual([]);
+  });
+
+  it('returns no diff when either workout is invalid', async () => {
+    const event = makeEvent({ rawPath: '/diff', body: JSON.stringify({ before, after: '# W\n## A\n- heavy' }) });
+    const body = parseBody((await handler(event)) as { body: string });
+
+    expect(body.success).toBe(false);
+    expect(body.diff).toBeNull();
+    expect(body.before.success).toBe(true);
+    expect(body.after.errors.length).toBeGreaterThan(0);
+  });
+
+  it('requires both markdown fields', async () => {
+    for (const body of [JSON.stringify({ before }), JSON.stringify({ markdown: before }), JSON.stringify({ before, after: ' ' }), 'null']) {
+      const result = await handler(makeEvent({ rawPath: '/diff', body }));
+      expect(result).toHaveProperty('statusCode', 400);
+    }
+  });
+
+  it('applies the input limits to each workout', async () => {
+    const huge = `# W\n## A\n${'- 5\n'.repeat(50_001)}`;
+    const result = await handler(makeEvent({ rawPath: '/diff', body: JSON.stringify({ before, after: huge }) }));
+
+    expect(result).toHaveProperty('statusCode', 413);
+  });
+});
+
+describe('POST /convert', () => {
+  const exported = {
+    exportedAt: '2026-02-20T10:30:00.000Z',
+    appVersion: '1.5.0',
+    session: {
+      name: 'Push Day',
+      date: '2026-02-20',
+      duration: 2700,
+      status: 'completed',
+      exercises: [{
+        exerciseName: 'Bench Press',
+        orderIndex: 0,
+        status: 'completed',
+        sets: [{ orderIndex: 0, targetWeight: 225, targetWeightUnit: 'lbs', targetReps: 5, actualReps: 4, status: 'failed' }],
+      }],
+    },
+  };
+
+  it('returns a workout log per session', async () => {
+    const result = await handler(makeEvent({ rawPath: '/convert', body: JSON.stringify(exported) }));
+
+    expect(result).toHaveProperty('statusCode', 200);
+    const body = parseBody(result as { body: string });
+    expect(body).toMatchObject({ success: true, format: 'single', errors: [], warnings: [] });
+    expect(body.sessions).toEqual([{
+      name: 'Push Day',
+      date: '2026-02-20',
+      fileName: 'workout-push-day-2026-02-20.md',
+      markdown: '# Push Day\n@units: lbs\n@date: 2026-02-20\n@duration: 45m\n\n## Bench Press\n- [!] 225 x 5 -> 225 x 4\n',
+    }]);
+  });
+
+  it('reports exports that do not match the schema', async () => {
+    const body = parseBody((await handler(makeEvent({ rawPath: '/convert', body: JSON.stringify({ sessions: [] }) }))) as { body: string });
+
+    expect(body.success).toBe(false);
+    expect(body.errors).toEqual(["(root): 'exportedAt' is a required property", "(root): 'appVersion' is a required property"]);
+  });
+
+  it('rejects missing and malformed bodies', async () => {
+    for (const body of [undefined, '{']) {
+      const result = await handler(makeEvent({ rawPath: '/convert', body }));
+      expect(result).toHaveProperty('statusCode', 400);
+    }
+  });
+});
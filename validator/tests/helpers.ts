@@ -0,0 +1,11 @@
+import { parseWorkout } from '../src/parser/index.js';
+import type { WorkoutPlan } from '../src/parser/index.js';
+
+/// Parses a workout that the test expects to be valid, failing with the parse errors otherwise.
+export function parseOrThrow(markdown: string): WorkoutPlan {
+  const result = parseWorkout(markdown);
+  if (!result.data) {
+    throw new Error(`Expected markdown to parse:\n${result.errors.join('\n')}\n\n${markdown}`);
+  }
+  return result.data;
+}
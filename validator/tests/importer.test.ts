@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseSession } from '../src/parser/session.js';
+import { convertExport, detectExportFormat, EXPORT_SCHEMAS } from '../src/importer/index.js';
+import type { ExportedExercise, ExportedSet } from '../src/importer/index.js';
+
+const SAMPLE = JSON.parse(readFileSync(join(__dirname, '../../test-fixtures/unified-export-sample.json'), 'utf-8'));
+
+function set(overrides: Partial<ExportedSet> = {}): ExportedSet {
+  return { orderIndex: 0, targetWeight: 135, targetWeightUnit: 'lbs', targetReps: 10, status: 'completed', ...overrides };
+}
+
+function exercise(exerciseName: string, orderIndex: number, overrides: Partial<ExportedExercise> = {}): ExportedExercise {
+  return { exerciseName, orderIndex, status: 'completed', sets: [set()], ...overrides };
+}
+
+function singleExport(exercises: ExportedExercise[]) {
+  return {
+    exportedAt: '2026-02-20T10:30:00.000Z',
+    appVersion: '1.5.0',
+    session: { name: 'Push Day', date: '2026-02-20', status: 'completed', exercises },
+  };
+}
+
+describe('convertExport', () => {
+  it('matches the shared schemas in spec/data', () => {
+    for (const [format, schema] of Object.entries(EXPORT_SCHEMAS)) {
+      const path = join(__dirname, `../../spec/data/schemas/liftmark-export-${format}.schema.json`);
+      expect(schema).toEqual(JSON.parse(readFileSync(path, 'utf-8')));
+    }
+  });
+
+  it('detects the export format like tools/validate_export.py', () => {
+    expect(detectExportFormat(SAMPLE)).toBe('unified');
+    expect(detectExportFormat({ session: {} })).toBe('single');
+    expect(detectExportFormat({ sessions: [] })).toBe('multi');
+    expect(detectExportFormat({ session: {}, sessions: [] })).toBeNull();
+    expect(detectExportFormat([])).toBeNull();
+  });
+
+  it('writes each session as a workout log', () => {
+    const result = convertExport(SAMPLE);
+
+    expect(result).toMatchObject({ success: true, format: 'unified', errors: [], warnings: [] });
+    expect(result.sessions.map((s) => s.fileName)).toEqual(['workout-test-push-day-2026-02-15.md']);
+    expect(result.sessions[0].markdown).toBe(`# Test Push Day
+@units: lbs
+@date: 2026-02-15
+@duration: 1h 15m
+
+Good session, hit all targets
+
+## Bench Press
+@type: barbell
+Felt strong today
+- [x] 135 x 10 @rest: 90s -> 135 x 10 @rpe 6
+- [x] 185 x 8 @rest: 120s @rpe: 7
+- [x] 225 x 5 @rest: 180s @rpe: 8 @tempo: 3-0-1-0
+
+## Overhead Press
+@type: barbell
+- [x] 95 x 10
+- [x] 115 x 8 Missed last rep -> 115 x 7
+`);
+  });
+
+  it('keeps statuses and actual results', () => {
+    const exported = singleExport([
+      exercise('Squat', 0, {
+        sets: [
+          set({ orderIndex: 0, actualWeight: 140, actualWeightUnit: 'lbs', actualReps: 8, actualRpe: 9 }),
+          set({ orderIndex: 1, status: 'failed', actualReps: 4 }),
+          set({ orderIndex: 2, status: 'skipped', isDropset: true }),
+          set({ orderIndex: 3, targetWeight: 60, targetWeightUnit: 'kg', status: 'pending' }),
+        ],
+      }),
+    ]);
+    const session = parseSession(convertExport(exported).sessions[0].markdown).data!;
+
+    expect(session.exercises[0].sets.map((s) => [s.status, s.actualWeight, s.actualReps, s.actualRpe, s.isDropset]))
+      .toEqual([
+        ['completed', 140, 8, 9, false],
+        ['failed', 135, 4, null, false],
+        ['skipped', null, null, null, true],
+        ['pending', null, null, null, false],
+      ]);
+    expect(session.exercises[0].sets[3].targetWeightUnit).toBe('kg');
+    expect(session.status).toBe('in_progress');
+  });
+
+  it('rebuilds supersets and sections from the group fields', () => {
+    const exported = singleExport([
+      exercise('Main', 0, { groupType: 'section', groupName: 'Main', sets: [] }),
+      exercise('Squat', 1, { groupType: 'section', groupName: 'Main' }),
+      exercise('Arms', 2, { groupType: 'superset', groupName: 'Arms', sets: [] }),
+      exercise('Bicep Curl', 3, { groupType: 'superset', groupName: 'Arms' }),
+      exercise('Tricep Pushdown', 4, { groupType: 'superset', groupName: 'Arms' }),
+      exercise('Leg Curl', 5, { groupType: 'section', groupName: 'Main' }),
+      exercise('Lunge', 6, { groupType: 'superset', groupName: 'Legs' }),
+      exercise('Plank', 7, { sets: [set({ targetWeight: null, targetReps: null, targetTime: 60 })] }),
+    ]);
+    const result = convertExport(exported);
+    const session = parseSession(result.sessions[0].markdown).data!;
+    const parentOf = (name: string) => {
+      const parentId = session.exercises.find((e) => e.exerciseName === name)!.parentExerciseId;
+      return session.exercises.find((e) => e.id === parentId)?.exerciseName ?? null;
+    };
+
+    expect(result.success).toBe(true);
+    expect(session.exercises.map((e) => e.exerciseName)).toEqual([
+      'Main', 'Squat', 'Superset: Arms', 'Bicep Curl', 'Tricep Pushdown', 'Leg Curl', 'Superset: Legs', 'Lunge', 'Plank',
+    ]);
+    expect(['Squat', 'Superset: Arms', 'Bicep Curl', 'Leg Curl', 'Lunge', 'Plank'].map(parentOf))
+      .toEqual(['Main', 'Main', 'Superset: Arms', 'Main', 'Superset: Legs', null]);
+    expect(session.exercises.find((e) => e.exerciseName === 'Superset: Legs')!.groupType).toBe('superset');
+  });
+
+  it('fills missing targets from actual results and skips sets with neither', () => {
+    const exported = singleExport([
+      exercise('Pull-up', 0, {
+        sets: [
+          set({ targetWeight: null, targetReps: null, actualReps: 12 }),
+          set({ orderIndex: 1, targetWeight: null, targetReps: null, status: 'skipped' }),
+        ],
+      }),
+      exercise('Stretch', 1, { sets: [] }),
+    ]);
+    const result = convertExport(exported);
+
+    expect(result.sessions[0].markdown).toContain('## Pull-up\n- [x] 12\n');
+    expect(result.warnings).toEqual([
+      'Session 1 (Push Day): skipped set 2 of Pull-up, which has no reps or time',
+      'Session 1 (Push Day): skipped Stretch, which has no sets',
+    ]);
+  });
+
+  it('reports schema violations by path and converts nothing', () => {
+    const exported = singleExport([exercise('Squat', 0, { sets: [set({ targetRpe: 11 })] })]);
+    const result = convertExport({ ...exported, extra: true });
+
+    expect(result.success).toBe(false);
+    expect(result.sessions).toEqual([]);
+    expect(result.errors).toEqual([
+      'session.exercises.0.sets.0.targetRpe: 11 is greater than the maximum of 10',
+      "(root): additional property 'extra' is not allowed",
+    ]);
+    expect(convertExport({ exportedAt: 'now' }).errors[0]).toMatch(/^Unrecognized export/);
+    expect(convertExport({ session: {} }, { format: 'multi' }).errors).toContain("(root): 'sessions' is a required property");
+  });
+
+  it('names files like the app and keeps them unique', () => {
+    const session = { name: 'Légs & Glutes!!', date: '2026-02-20', status: 'completed', exercises: [exercise('Squat', 0)] };
+    const result = convertExport({ exportedAt: '2026-02-20T10:30:00Z', appVersion: '1.5.0', sessions: [session, session] });
+
+    expect(result.sessions.map((s) => s.fileName)).toEqual([
+      'workout-legs-glutes-2026-02-20.md',
+      'workout-legs-glutes-2026-02-20-2.md',
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { parseWorkout } from '../src/parser/index.js';
+import { createIncrementalParser } from '../src/parser/incremental.js';
+import type { ParseResult } from '../src/parser/index.js';
+
+const WORKOUT = `# Push Day
+@units: kg
+
+## Bench Press
+- 100 x 5
+- 105 x 3 @rest: 120s
+
+## Superset: Arms
+### Bicep Curl
+- 12 x 10
+### Tricep Pushdown
+- 20 x 10
+
+## Plank
+- 60s`;
+
+/// Replaces ids with their order of first appearance and drops timestamps, so results compare by structure.
+function normalize(result: ParseResult): unknown {
+  const ids = new Map<string, string>();
+  return JSON.parse(JSON.stringify(result), (key, value) => {
+    if (key === 'createdAt' || key === 'updatedAt') return undefined;
+    if (typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-/.test(value)) {
+      if (!ids.has(value)) ids.set(value, `id-${ids.size}`);
+      return ids.get(value);
+    }
+    return value;
+  });
+}
+
+function exerciseIds(result: ParseResult): Record<string, string> {
+  return Object.fromEntries(result.data!.exercises.map((e) => [e.exerciseName, e.id]));
+}
+
+// MARK: - Results
+
+describe('createIncrementalParser', () => {
+  it('matches parseWorkout on the initial text', () => {
+    const parser = createIncrementalParser(WORKOUT);
+
+    expect(normalize(parser.result)).toEqual(normalize(parseWorkout(WORKOUT)));
+  });
+
+  it('matches parseWorkout after edits', () => {
+    const parser = createIncrementalParser(WORKOUT);
+    const result = parser.update([
+      { range: { start: { line: 4, character: 2 }, end: { line: 4, character: 5 } }, text: '110' },
+      { range: { start: { line: 13, character: 0 }, end: { line: 13, character: 0 } }, text: '## Dips\n- 10 @ bw\n\n' },
+    ]);
+
+    expect(parser.text).toContain('- 110 x 5');
+    expect(parser.text).toContain('## Dips');
+    expect(normalize(result)).toEqual(normalize(parseWorkout(parser.text)));
+  });
+
+  it('gives the same ids as parseWorkout with deterministic ids', () => {
+    const options = { ids: 'deterministic' as const, clock: () => new Date(0) };
+    const parser = createIncrementalParser(WORKOUT, options);
+    parser.update([{ range: { start: { line: 14, character: 2 }, end: { line: 14, character: 5 } }, text: '90s' }]);
+
+    expect(parser.result).toEqual(parseWorkout(parser.text, options));
+  });
+
+  it('replaces the whole document for a change without a range', () => {
+    const parser = createIncrementalParser(WORKOUT);
+    parser.update([{ text: '# Legs\n## Squat\n- 100 x 5' }]);
+
+    expect(parser.result.data?.exercises.map((e) => e.exerciseName)).toEqual(['Squat']);
+  });
+
+  it('keeps the workout id across updates', () => {
+    const parser = createIncrementalParser(WORKOUT);
+    const id = parser.result.data!.id;
+    parser.update([{ range: { start: { line: 0, character: 2 }, end: { line: 0, character: 6 } }, text: 'Pull' }]);
+
+    expect(parser.result.data?.name).toBe('Pull Day');
+    expect(parser.result.data?.id).toBe(id);
+  });
+});
+
+// MARK: - Block Reuse
+
+describe('Block Reuse', () => {
+  it('keeps ids of unchanged blocks and re-parses the edited one', () => {
+    const parser = createIncrementalParser(WORKOUT);
+    const before = exerciseIds(parser.result);
+    parser.update([{ range: { start: { line: 14, character: 2 }, end: { line: 14, character: 5 } }, text: '90s' }]);
+    const after = exerciseIds(parser.result);
+
+    expect(after['Bench Press']).toBe(before['Bench Press']);
+    expect(after['Superset: Arms']).toBe(before['Superset: Arms']);
+    expect(after['Bicep Curl']).toBe(before['Bicep Curl']);
+    expect(after['Plank']).not.toBe(before['Plank']);
+    expect(parser.result.data?.exercises.at(-1)?.sets[0].targetTime).toBe(90);
+  });
+
+  it('keeps ids of blocks that move, with updated order', () => {
+    const parser = createIncrementalParser(WORKOUT);
+    const before = exerciseIds(parser.result);
+    parser.update([{ range: { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } }, text: '## Push-up\n- 10 @ bw\n\n' }]);
+    const exercises = parser.result.data!.exercises;
+
+    expect(exercises[0].exerciseName).toBe('Push-up');
+    expect(exercises[1].id).toBe(before['Bench Press']);
+    expect(exercises.map((e) => e.orderIndex)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(exercises[3].parentExerciseId).toBe(before['Superset: Arms']);
+  });
+
+  it('gives duplicated blocks their own ids', () => {
+    const text = '# W\n\n## Squat\n- 100 x 5\n';
+    const parser = createIncrementalParser(text);
+    parser.update([{ range: { start: { line: 4, character: 0 }, end: { line: 4, character: 0 } }, text: '\n## Squat\n- 100 x 5\n' }]);
+    const [first, second] = parser.result.data!.exercises;
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.sets[0].id).not.toBe(second.sets[0].id);
+  });
+
+  it('shifts diagnostics of reused blocks to their new lines', () => {
+    const parser = createIncrementalParser('# W\n## Squat\n- heavy');
+    expect(parser.result.diagnostics.map((d) => d.line)).toEqual([2, 3]);
+
+    parser.update([{ range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } }, text: '@units: kg\n\n' }]);
+
+    expect(parser.result.diagnostics.map((d) => d.line)).toEqual([4, 5]);
+    expect(normalize(parser.result)).toEqual(normalize(parseWorkout(parser.text)));
+  });
+
+  it('shifts source locations of reused blocks to their new lines', () => {
+    const parser = createIncrementalParser(WORKOUT, { sourceMap: true });
+    parser.update([{ range: { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } }, text: '## Push-up\n- 10 @ bw\n\n' }]);
+    const bench = parser.result.data!.exercises[1];
+
+    expect(bench.source?.header.startLine).toBe(7);
+    expect(bench.sets.map((s) => s.source?.startLine)).toEqual([8, 9]);
+    expect(normalize(parser.result)).toEqual(normalize(parseWorkout(parser.text, { sourceMap: true })));
+  });
+
+  it('does not reuse blocks across a change of default units', () => {
+    const parser = createIncrementalParser(WORKOUT);
+    parser.update([{ range: { start: { line: 1, character: 8 }, end: { line: 1, character: 10 } }, text: 'lbs' }]);
+
+    expect(parser.result.data?.exercises[0].sets[0].targetWeightUnit).toBe('lbs');
+  });
+});
+
+// MARK: - Edits
+
+describe('Text Edits', () => {
+  it('applies ranges against CRLF text', () => {
+    const parser = createIncrementalParser(WORKOUT.replace(/\n/g, '\r\n'));
+    parser.update([{ range: { start: { line: 4, character: 2 }, end: { line: 4, character: 5 } }, text: '110' }]);
+
+    expect(parser.result.data?.exercises[0].sets[0].targetWeight).toBe(110);
+  });
+
+  it('clamps positions past the end of a line or the document', () => {
+    const parser = createIncrementalParser('# W\n## Squat\n- 100 x 5');
+    parser.update([{ range: { start: { line: 2, character: 99 }, end: { line: 9, character: 0 } }, text: '\n- 110 x 3' }]);
+
+    expect(parser.text).toBe('# W\n## Squat\n- 100 x 5\n- 110 x 3');
+  });
+});
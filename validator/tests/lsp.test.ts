@@ -0,0 +1,345 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { pathToFileURL } from 'node:url';
+import {
+  getCodeActions,
+  getCompletions,
+  getDiagnostics,
+  getDocumentSymbols,
+  getFormattingEdits,
+  getHover,
+} from '../src/lsp/features.js';
+import { parseWorkout } from '../src/parser/index.js';
+import { createLanguageServer, createMessageReader, encodeMessage, startStdioServer } from '../src/lsp/index.js';
+import type { Message } from '../src/lsp/index.js';
+
+const WORKOUT = `# Push Day
+@units: lbs
+@1rm: Bench Press = 300
+
+## Bench Press
+- 3 x 5 @ 225 @rest: 120s
+- 5 x 75%
+
+## Superset: Arms
+### Bicep Curl
+- 25 x 10
+### Tricep Pushdown
+- 40 x 10`;
+
+// MARK: - Features
+
+describe('getDiagnostics', () => {
+  it('maps parser diagnostics to 0-based ranges', () => {
+    const diagnostics = getDiagnostics('# W\n## Squat\n- 225 x 5\n- heavy');
+
+    expect(diagnostics).toEqual([
+      {
+        range: { start: { line: 3, character: 2 }, end: { line: 3, character: 7 } },
+        severity: 1,
+        code: 'INVALID_SET_FORMAT',
+        source: 'lmwf',
+        message: expect.any(String),
+      },
+    ]);
+  });
+
+  it('places document-level issues at the top', () => {
+    const [diagnostic] = getDiagnostics('no header here');
+
+    expect(diagnostic.code).toBe('NO_WORKOUT_HEADER');
+    expect(diagnostic.range.start).toEqual({ line: 0, character: 0 });
+  });
+});
+
+describe('getHover', () => {
+  it('describes the set under the cursor with document units', () => {
+    const hover = getHover(WORKOUT, { line: 5, character: 4 });
+
+    expect(hover!.contents.value).toBe('**3 sets**\n\n- Weight: 225 lbs\n- Reps: 5\n- Rest: 120 seconds');
+    expect(hover!.range).toEqual({ start: { line: 5, character: 0 }, end: { line: 5, character: 25 } });
+  });
+
+  it('resolves percentages from @1rm', () => {
+    expect(getHover(WORKOUT, { line: 6, character: 2 })!.contents.value).toContain('- Weight: 75% of 1RM (225 lbs)');
+  });
+
+  it('returns null off set lines and for invalid sets', () => {
+    expect(getHover(WORKOUT, { line: 4, character: 3 })).toBeNull();
+    expect(getHover('# W\n## A\n- heavy', { line: 2, character: 3 })).toBeNull();
+  });
+});
+
+describe('getCompletions', () => {
+  const labels = (text: string, line: number, character: number) =>
+    getCompletions(text, { line, character }).map((item) => item.label);
+
+  it('offers metadata keys at the start of a line', () => {
+    expect(labels('# W\n@', 1, 1)).toEqual(['@units:', '@tags:', '@type:', '@progression:']);
+  });
+
+  it('offers set modifiers on set lines', () => {
+    expect(labels('# W\n## A\n- 225 x 5 @', 2, 12)).toEqual(['@rest:', '@dropset', '@perside']);
+  });
+
+  it('offers units after @units:', () => {
+    const items = getCompletions('# W\n@units: k', { line: 1, character: 9 });
+
+    expect(items.map((i) => i.label)).toEqual(['lbs', 'kg']);
+    expect(items[1].textEdit.range).toEqual({ start: { line: 1, character: 8 }, end: { line: 1, character: 9 } });
+  });
+
+  it('offers document and dictionary exercise names in headers', () => {
+    const items = getCompletions(`${WORKOUT}\n## Ben`, { line: 13, character: 6 });
+
+    expect(items[0].label).toBe('Bench Press');
+    expect(items.map((i) => i.label)).toContain('Romanian Deadlift');
+    expect(items[0].textEdit).toEqual({
+      range: { start: { line: 13, character: 3 }, end: { line: 13, character: 6 } },
+      newText: 'Bench Press',
+    });
+  });
+
+  it('offers nothing elsewhere', () => {
+    expect(labels('# W\n## A\n- 225 x 5', 2, 5)).toEqual([]);
+    expect(labels('# W\nsome @', 1, 6)).toEqual([]);
+  });
+});
+
+describe('getDocumentSymbols', () => {
+  it('outlines workout, sections and exercises', () => {
+    const [workout] = getDocumentSymbols(WORKOUT);
+
+    expect(workout).toMatchObject({ name: 'Push Day', kind: 2 });
+    expect(workout.range).toEqual({ start: { line: 0, character: 0 }, end: { line: 12, character: 9 } });
+    expect(workout.children.map((c) => [c.name, c.kind])).toEqual([
+      ['Bench Press', 12],
+      ['Superset: Arms', 3],
+    ]);
+    expect(workout.children[0].range.end).toEqual({ line: 7, character: 0 });
+    expect(workout.children[1].children.map((c) => c.name)).toEqual(['Bicep Curl', 'Tricep Pushdown']);
+  });
+});
+
+describe('getFormattingEdits', () => {
+  it('replaces the whole document when formatting changes it', () => {
+    expect(getFormattingEdits('# W\n## A\n-  225lb x5')).toEqual([{
+      range: { start: { line: 0, character: 0 }, end: { line: 2, character: 11 } },
+      newText: '# W\n\n## A\n- 225 lbs x 5\n',
+    }]);
+    expect(getFormattingEdits('# W\n\n## A\n- 5\n')).toEqual([]);
+  });
+});
+
+// MARK: - Server
+
+function startServer() {
+  const sent: any[] = [];
+  const exits: number[] = [];
+  const server = createLanguageServer({ send: (m) => sent.push(m), onExit: (code) => exits.push(code) });
+  return { server, sent, exits };
+}
+
+describe('getCodeActions', () => {
+  it('offers a quick fix for each fixable diagnostic in range', () => {
+    const result = parseWorkout('# W\n@units: pounds\n## A\n- AMRAP\n- heavy');
+    const range = (start: number, end: number) => ({ start: { line: start, character: 0 }, end: { line: end, character: 0 } });
+    const actions = getCodeActions(result, 'file:///w.md', range(0, 4));
+
+    expect(actions.map((a) => a.title)).toEqual(['Replace "pounds" with "lbs"', 'Make it a bodyweight AMRAP set (bw x AMRAP)']);
+    expect(actions[0]).toMatchObject({ kind: 'quickfix', diagnostics: [{ code: 'INVALID_UNITS' }], isPreferred: true });
+    expect(actions[1].edit.changes['file:///w.md']).toEqual([
+      { range: { start: { line: 3, character: 2 }, end: { line: 3, character: 7 } }, newText: 'bw x AMRAP' },
+    ]);
+    expect(getCodeActions(result, 'file:///w.md', range(4, 4))).toEqual([]);
+  });
+});
+
+describe('createLanguageServer', () => {
+  it('rejects requests before initialize', () => {
+    const { server, sent } = startServer();
+    server.handle({ jsonrpc: '2.0', id: 1, method: 'textDocument/hover', params: {} });
+
+    expect(sent[0].error.code).toBe(-32002);
+  });
+
+  it('advertises its capabilities', () => {
+    const { server, sent } = startServer();
+    server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+    expect(sent[0].result.capabilities).toMatchObject({
+      hoverProvider: true,
+      documentSymbolProvider: true,
+      documentFormattingProvider: true,
+      codeActionProvider: { codeActionKinds: ['quickfix'] },
+    });
+  });
+
+  it('publishes diagnostics on open, change and close', () => {
+    const { server, sent } = startServer();
+    const uri = 'file:///w.md';
+    server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    server.handle({ jsonrpc: '2.0', method: 'initialized', params: {} });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri, text: '# W\n## A\n- heavy' } } });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didChange', params: { textDocument: { uri }, contentChanges: [{ text: '# W\n## A\n- 5' }] } });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didClose', params: { textDocument: { uri } } });
+
+    const published = sent.filter((m) => m.method === 'textDocument/publishDiagnostics');
+    expect(published.map((m) => m.params.diagnostics.length)).toEqual([2, 0, 0]);
+  });
+
+  it('applies ranged changes to the open document', () => {
+    const { server, sent } = startServer();
+    const uri = 'file:///w.md';
+    server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri, text: '# W\n## A\n- heavy' } } });
+    const range = { start: { line: 2, character: 2 }, end: { line: 2, character: 7 } };
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didChange', params: { textDocument: { uri }, contentChanges: [{ range, text: '100 x 5' }] } });
+    server.handle({ jsonrpc: '2.0', id: 2, method: 'textDocument/formatting', params: { textDocument: { uri } } });
+
+    const published = sent.filter((m) => m.method === 'textDocument/publishDiagnostics');
+    expect(sent[0].result.capabilities.textDocumentSync.change).toBe(2);
+    expect(published.map((m) => m.params.diagnostics.length)).toEqual([2, 0]);
+    expect(sent.at(-1).result[0].newText).toContain('- 100 x 5');
+  });
+
+  it('answers feature requests against the open document', () => {
+    const { server, sent } = startServer();
+    const uri = 'file:///w.md';
+    server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri, text: WORKOUT } } });
+    server.handle({ jsonrpc: '2.0', id: 2, method: 'textDocument/hover', params: { textDocument: { uri }, position: { line: 5, character: 3 } } });
+    server.handle({ jsonrpc: '2.0', id: 3, method: 'textDocument/documentSymbol', params: { textDocument: { uri } } });
+    server.handle({ jsonrpc: '2.0', id: 4, method: 'workspace/symbol', params: {} });
+
+    const byId = new Map(sent.filter((m) => 'id' in m).map((m) => [m.id, m]));
+    expect(byId.get(2).result.contents.value).toContain('225 lbs');
+    expect(byId.get(3).result[0].name).toBe('Push Day');
+    expect(byId.get(4).error.code).toBe(-32601);
+  });
+
+  it('logs malformed notifications and rejects malformed requests', () => {
+    const { server, sent } = startServer();
+    const uri = 'file:///w.md';
+    server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: {} });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri, text: '# W\n## A\n- 5' } } });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didChange', params: { textDocument: { uri }, contentChanges: [{ text: 5 }] } });
+    server.handle({ jsonrpc: '2.0', id: 2, method: 'textDocument/hover', params: { textDocument: { uri }, position: { line: '2' } } });
+
+    expect(sent.filter((m) => m.method === 'window/logMessage').map((m) => m.params)).toEqual([
+      { type: 1, message: 'textDocument/didOpen failed: textDocument must be an object' },
+      { type: 1, message: 'textDocument/didChange failed: contentChanges[0].text must be a string' },
+    ]);
+    expect(sent.find((m) => m.id === 2).error).toEqual({ code: -32602, message: 'position.line must be a non-negative integer' });
+    expect(sent.filter((m) => m.method === 'textDocument/publishDiagnostics')).toHaveLength(1);
+  });
+
+  it('logs a malformed rules config and keeps the default rules', () => {
+    const sent: any[] = [];
+    const server = createLanguageServer({ send: (m) => sent.push(m), rulesFor: () => '.lmwfrc: not valid JSON' });
+    server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri: 'file:///w.md', text: '# W\n## A\n- 150' } } });
+
+    expect(sent[1]).toMatchObject({ method: 'window/logMessage', params: { type: 1, message: '.lmwfrc: not valid JSON' } });
+    expect(sent[2].params.diagnostics.map((d: { code: string }) => d.code)).toEqual(['HIGH_REPS']);
+  });
+
+  it('exits with 0 only after shutdown', () => {
+    const first = startServer();
+    first.server.handle({ jsonrpc: '2.0', method: 'exit' });
+    expect(first.exits).toEqual([1]);
+
+    const second = startServer();
+    second.server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    second.server.handle({ jsonrpc: '2.0', id: 2, method: 'shutdown' });
+    second.server.handle({ jsonrpc: '2.0', method: 'exit' });
+    expect(second.sent[1]).toEqual({ jsonrpc: '2.0', id: 2, result: null });
+    expect(second.exits).toEqual([0]);
+  });
+});
+
+// MARK: - Transport
+
+describe('message framing', () => {
+  it('reassembles messages split across chunks', () => {
+    const received: Message[] = [];
+    const read = createMessageReader((m) => received.push(m));
+    const wire = Buffer.from(
+      encodeMessage({ jsonrpc: '2.0', id: 1, method: 'a' }) + encodeMessage({ jsonrpc: '2.0', method: 'é' })
+    );
+
+    for (let i = 0; i < wire.length; i += 7) read(wire.subarray(i, i + 7));
+
+    expect(received).toEqual([{ jsonrpc: '2.0', id: 1, method: 'a' }, { jsonrpc: '2.0', method: 'é' }]);
+  });
+
+  it('reports bodies that are not JSON and keeps reading', () => {
+    const received: Message[] = [];
+    const errors: Error[] = [];
+    const read = createMessageReader((m) => received.push(m), (e) => errors.push(e));
+
+    read(Buffer.from('Content-Length: 3\r\n\r\n{{{' + encodeMessage({ jsonrpc: '2.0', method: 'ok' })));
+
+    expect(errors).toHaveLength(1);
+    expect(received).toEqual([{ jsonrpc: '2.0', method: 'ok' }]);
+  });
+
+  it('serves requests over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const responses: Message[] = [];
+    output.on('data', createMessageReader((m) => responses.push(m)));
+    let exitCode: number | null = null;
+    startStdioServer(input, output, (code) => { exitCode = code; });
+
+    input.write(encodeMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }));
+    input.write(encodeMessage({ jsonrpc: '2.0', id: 2, method: 'shutdown' }));
+    input.write(encodeMessage({ jsonrpc: '2.0', method: 'exit' }));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(responses.map((m) => 'id' in m && m.id)).toEqual([1, 2]);
+    expect(exitCode).toBe(0);
+  });
+
+  it('applies the .lmwfrc above a document on disk', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'lmwf-lsp-'));
+    writeFileSync(join(dir, '.lmwfrc'), JSON.stringify({ rules: { HIGH_REPS: 'off', SHORT_REST: ['warning', { min: 3 }] } }));
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const messages: any[] = [];
+    output.on('data', createMessageReader((m) => messages.push(m)));
+    startStdioServer(input, output, () => {});
+
+    const text = '# W\n## A\n- 150\n- 5 @rest: 5s\n- 5 @rest: 2s';
+    input.write(encodeMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }));
+    input.write(encodeMessage({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri: pathToFileURL(join(dir, 'w.md')).href, text } } }));
+    input.write(encodeMessage({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri: 'untitled:1', text } } }));
+    await new Promise((resolve) => setImmediate(resolve));
+    rmSync(dir, { recursive: true, force: true });
+
+    const published = messages.filter((m) => m.method === 'textDocument/publishDiagnostics');
+    expect(published.map((m) => m.params.diagnostics.map((d: { code: string }) => d.code))).toEqual([
+      ['SHORT_REST'],
+      ['HIGH_REPS', 'SHORT_REST', 'SHORT_REST'],
+    ]);
+  });
+
+  it('logs messages it cannot read to the client', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const responses: Message[] = [];
+    output.on('data', createMessageReader((m) => responses.push(m)));
+    startStdioServer(input, output, () => {});
+
+    input.write('Content-Length: 3\r\n\r\n{{{');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(responses).toEqual([
+      { jsonrpc: '2.0', method: 'window/logMessage', params: { type: 1, message: expect.stringContaining('Could not handle message: ') } },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { bench, describe } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseWorkout } from '../src/parser/index.js';
+import { createIncrementalParser } from '../src/parser/incremental.js';
+import type { TextChange } from '../src/parser/incremental.js';
+
+// The handler's input limit
+const TARGET_LINES = 50_000;
+
+const SOURCE = readFileSync(
+  join(__dirname, '../../liftmark-workout-format/examples/valid/tc-large-workout.md'),
+  'utf-8'
+);
+
+/// tc-large-workout.md with its exercise blocks repeated (and renamed, so they stay distinct) up to the line limit.
+function scaledWorkout(): string {
+  const lines = SOURCE.trimEnd().split('\n');
+  const firstExercise = lines.findIndex((line) => line.startsWith('## '));
+  const header = lines.slice(0, firstExercise);
+  const body = lines.slice(firstExercise);
+
+  const output = [...header];
+  for (let copy = 1; output.length + body.length + 1 <= TARGET_LINES; copy++) {
+    output.push(...body.map((line) => (line.startsWith('#') ? `${line} ${copy}` : line)), '');
+  }
+  return output.join('\n');
+}
+
+const TEXT = scaledWorkout();
+const LINES = TEXT.split('\n');
+const MIDDLE_SET = LINES.findIndex((line, index) => index > LINES.length / 2 && line.startsWith('- '));
+
+/// Alternately replaces the first character of `line` with `a` and `b`, so every update changes the text.
+function toggler(line: number, a: string, b: string): () => TextChange[] {
+  let next = a;
+  return () => {
+    const change = { range: { start: { line, character: 2 }, end: { line, character: 3 } }, text: next };
+    next = next === a ? b : a;
+    return [change];
+  };
+}
+
+describe(`${LINES.length}-line workout`, () => {
+  bench('parseWorkout (full parse)', () => {
+    parseWorkout(TEXT);
+  });
+
+  const editSet = createIncrementalParser(TEXT);
+  const nextSetEdit = toggler(MIDDLE_SET, '2', '3');
+  bench('incremental update: edit one set', () => {
+    editSet.update(nextSetEdit());
+  });
+
+  const editTop = createIncrementalParser(TEXT);
+  let insert = true;
+  bench('incremental update: add and remove a line at the top', () => {
+    editTop.update([insert
+      ? { range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } }, text: '\n' }
+      : { range: { start: { line: 1, character: 0 }, end: { line: 2, character: 0 } }, text: '' }]);
+    insert = !insert;
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { parseWorkout } from '../src/parser/index.js';
+import { parseWorkout, parseProgram } from '../src/parser/index.js';
+import { exerciseDictionary } from '../src/dictionary/index.js';
 
 // MARK: - Basic Parsing
 
@@ -977,6 +978,20 @@ Focus on driving through the floor.
     expect(result.data?.defaultWeightUnit).toBe('kg');
   });
 
+  it('parses spelled-out rest units without leaking into notes', () => {
+    const markdown = `# Workout
+## Squat
+- 225 x 5 @rest: 90 sec
+- 225 x 5 @rest: 2 min`;
+    const result = parseWorkout(markdown);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.exercises[0].sets[0].restSeconds).toBe(90);
+    expect(result.data?.exercises[0].sets[0].notes).toBeNull();
+    expect(result.data?.exercises[0].sets[1].restSeconds).toBe(120);
+    expect(result.data?.exercises[0].sets[1].notes).toBeNull();
+  });
+
   it('parses sec time unit', () => {
     const markdown = `# Workout
 ## Plank
@@ -1924,3 +1939,618 @@ describe('Mixed Section Levels Warning', () => {
     expect(mixedWarnings).toHaveLength(1);
   });
 });
+
+// MARK: - Structured Diagnostics
+
+describe('Structured Diagnostics', () => {
+  it('returns an empty diagnostics array for a clean workout', () => {
+    const result = parseWorkout(`# Workout
+## Bench Press
+- 135 x 5`);
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('reports code, severity and column span for an invalid rest', () => {
+    const markdown = `# Workout
+## Bench Press
+- 135 x 5 @rest: soon`;
+    const result = parseWorkout(markdown);
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toEqual([
+      {
+        code: 'INVALID_REST',
+        severity: 'error',
+        line: 3,
+        startColumn: 18,
+        endColumn: 22,
+        message: 'Invalid rest time format: soon. Expected format: "180s" or "3m"',
+        text: 'soon',
+      },
+    ]);
+  });
+
+  it('reports warnings alongside the legacy strings', () => {
+    const markdown = `# Workout
+## Jumping Jacks
+  - 150`;
+    const result = parseWorkout(markdown);
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(['Line 3: Very high rep count (150). Double-check for typos.']);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({
+      code: 'HIGH_REPS',
+      severity: 'warning',
+      line: 3,
+      startColumn: 5,
+      endColumn: 8,
+      text: '150',
+    });
+  });
+
+  it('narrows the span to the offending text on indented lines', () => {
+    const markdown = `# Workout
+## Bench Press
+    - heavy`;
+    const result = parseWorkout(markdown);
+
+    const diagnostic = result.diagnostics.find((d) => d.code === 'INVALID_SET_FORMAT');
+    expect(diagnostic).toMatchObject({ line: 3, startColumn: 7, endColumn: 12, text: 'heavy' });
+  });
+
+  it('points at the offending value when it also appears earlier on the line', () => {
+    const markdown = `# Workout
+## Bench Press
+- 100 lbs x 0
+- 150 lbs x 150
+- 5 x 150 @ 150 lbs
+- 45s @rest: 5s
+- 135 x 5 @rest: 5s @rpe: 5.5`;
+    const result = parseWorkout(markdown);
+
+    expect(result.diagnostics.map((d) => [d.line, d.code, d.startColumn, d.text])).toEqual([
+      [3, 'INVALID_REPS_TIME', 13, '0'],
+      [4, 'HIGH_REPS', 13, '150'],
+      [5, 'HIGH_REPS', 7, '150'],
+      [6, 'SHORT_REST', 14, '5s'],
+      [7, 'SHORT_REST', 18, '5s'],
+      [7, 'DEPRECATED_RPE', 21, '@rpe: 5.5'],
+      [7, 'RPE_ROUNDED', 27, '5.5'],
+    ]);
+  });
+
+  it('spans the trimmed line when the issue has no offending text', () => {
+    const markdown = `# Upper Push
+Warmup: spin, jumping jacks, banded pull-a-parts, push ups
+
+## Bench Press
+- 135 x 5`;
+    const result = parseWorkout(markdown);
+
+    const diagnostic = result.diagnostics.find((d) => d.code === 'DESCRIPTION_CONTAINS_LIST');
+    expect(diagnostic).toMatchObject({ line: 1, startColumn: 1, endColumn: 13, text: '# Upper Push' });
+  });
+
+  it('orders diagnostics by line and column across severities', () => {
+    const markdown = `# Workout
+## Squat
+- 225 x 150
+- 225 x 5 @rest: 5s @rpe: 11`;
+    const result = parseWorkout(markdown);
+
+    expect(result.diagnostics.map((d) => [d.line, d.code, d.severity])).toEqual([
+      [3, 'HIGH_REPS', 'warning'],
+      [4, 'SHORT_REST', 'warning'],
+      [4, 'INVALID_RPE', 'error'],
+    ]);
+  });
+
+  it('reports a line-less diagnostic when no workout header is found', () => {
+    const result = parseWorkout('Just some text');
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'NO_WORKOUT_HEADER', severity: 'error', line: 0 }),
+    ]);
+  });
+});
+
+// MARK: - Rep Ranges
+
+describe('Rep Ranges', () => {
+  it('parses weighted, bodyweight and bare rep ranges', () => {
+    const markdown = `# Workout
+## Bench Press
+- 135 x 8-12
+- bw x 10-15
+- 6-8 @rest: 90s`;
+    const result = parseWorkout(markdown);
+
+    expect(result.success).toBe(true);
+    const sets = result.data!.exercises[0].sets;
+    expect(sets.map((s) => [s.targetWeight, s.targetReps, s.targetRepsMin, s.targetRepsMax])).toEqual([
+      [135, 8, 8, 12],
+      [null, 10, 10, 15],
+      [null, 6, 6, 8],
+    ]);
+    expect(sets[2].restSeconds).toBe(90);
+  });
+
+  it('leaves range bounds null for a single rep count', () => {
+    const result = parseWorkout(`# Workout\n## Squat\n- 225 x 5\n- 225 x 5-5`);
+
+    expect(result.data!.exercises[0].sets.map((s) => [s.targetReps, s.targetRepsMin, s.targetRepsMax])).toEqual([
+      [5, null, null],
+      [5, null, null],
+    ]);
+  });
+
+  it('reports inverted ranges', () => {
+    const result = parseWorkout(`# Workout\n## Squat\n- 225 x 12-8\n- 225 x 5`);
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'INVALID_REP_RANGE', line: 3, startColumn: 9, endColumn: 13, text: '12-8' }),
+    ]);
+  });
+
+  it('rejects ranges on time-based sets', () => {
+    const result = parseWorkout(`# Workout\n## Plank\n- 30-60s\n- 60s`);
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['INVALID_REP_RANGE']);
+  });
+
+  it('warns when the top of a range is very high', () => {
+    const result = parseWorkout(`# Workout\n## Squat\n- bw x 50-150`);
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['HIGH_REPS']);
+  });
+});
+
+// MARK: - Repeated-Set Shorthand
+
+describe('Repeated-Set Shorthand', () => {
+  it('expands "sets x reps @ load" into separate sets', () => {
+    const markdown = `# Workout
+@units: lbs
+## Squat
+- 5 x 5 @ 225 @rest: 3m
+- 1 @ 245 kg top single`;
+    const result = parseWorkout(markdown);
+
+    expect(result.success).toBe(true);
+    const sets = result.data!.exercises[0].sets;
+    expect(sets).toHaveLength(6);
+    expect(new Set(sets.map((s) => s.id)).size).toBe(6);
+    expect(sets.map((s) => s.orderIndex)).toEqual([0, 1, 2, 3, 4, 5]);
+    for (const set of sets.slice(0, 5)) {
+      expect(set).toMatchObject({ targetWeight: 225, targetWeightUnit: 'lbs', targetReps: 5, restSeconds: 180 });
+    }
+    expect(sets[5]).toMatchObject({ targetWeight: 245, targetWeightUnit: 'kg', targetReps: 1, notes: 'top single' });
+  });
+
+  it('supports ranges, AMRAP and bodyweight loads', () => {
+    const markdown = `# Workout
+## Pull-ups
+- 3x8-12 @ bw
+- 2 x AMRAP @ 135`;
+    const result = parseWorkout(markdown);
+
+    const sets = result.data!.exercises[0].sets;
+    expect(sets.map((s) => [s.targetWeight, s.targetReps, s.targetRepsMax, s.isAmrap])).toEqual([
+      [null, 8, 12, false],
+      [null, 8, 12, false],
+      [null, 8, 12, false],
+      [135, null, null, true],
+      [135, null, null, true],
+    ]);
+  });
+
+  it('keeps the existing reading of "weight x reps @ ..." for large counts', () => {
+    const result = parseWorkout(`# Workout\n## Bench\n- 135 x 5 @ 8`);
+
+    const sets = result.data!.exercises[0].sets;
+    expect(sets).toHaveLength(1);
+    expect(sets[0]).toMatchObject({ targetWeight: 135, targetReps: 5 });
+  });
+
+  it('does not treat modifiers as a load', () => {
+    const result = parseWorkout(`# Workout\n## Bench\n- 5 @rest: 60s`);
+
+    const sets = result.data!.exercises[0].sets;
+    expect(sets).toHaveLength(1);
+    expect(sets[0]).toMatchObject({ targetWeight: null, targetReps: 5, restSeconds: 60 });
+  });
+
+  it('reports inverted ranges once per line', () => {
+    const result = parseWorkout(`# Workout\n## Squat\n- 3 x 10-8 @ 135\n- 135 x 8`);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({ code: 'INVALID_REP_RANGE', text: '10-8' });
+  });
+});
+
+// MARK: - Percentage Loads
+
+describe('Percentage Loads', () => {
+  it('parses percentages before and after the reps', () => {
+    const markdown = `# Workout
+## Bench Press
+- 75% x 5
+- 5 x 80% 1RM
+- 60% for 30s
+- 70% x AMRAP`;
+    const result = parseWorkout(markdown);
+
+    expect(result.success).toBe(true);
+    const sets = result.data!.exercises[0].sets;
+    expect(sets.map((s) => [s.targetPercentage, s.targetReps, s.targetTime, s.isAmrap, s.targetWeight])).toEqual([
+      [75, 5, null, false, null],
+      [80, 5, null, false, null],
+      [60, null, 30, false, null],
+      [70, null, null, true, null],
+    ]);
+    expect(sets.every((s) => s.percentageOf === null)).toBe(true);
+  });
+
+  it('expands shorthand with a percentage and reference lift', () => {
+    const markdown = `# Workout
+## Pause Squat
+- 3 @ 80% 1RM
+- 3 x 5 @ 70% of Back Squat @rest: 3m`;
+    const result = parseWorkout(markdown);
+
+    const sets = result.data!.exercises[0].sets;
+    expect(sets).toHaveLength(4);
+    expect(sets[0]).toMatchObject({ targetPercentage: 80, targetReps: 3, percentageOf: null });
+    for (const set of sets.slice(1)) {
+      expect(set).toMatchObject({ targetPercentage: 70, targetReps: 5, percentageOf: 'Back Squat', restSeconds: 180 });
+    }
+  });
+
+  it('rejects zero percentages and warns above 100%', () => {
+    const invalid = parseWorkout(`# Workout\n## Squat\n- 0% x 5\n- 225 x 5`);
+    expect(invalid.success).toBe(false);
+    expect(invalid.diagnostics[0]).toMatchObject({ code: 'INVALID_PERCENTAGE', line: 3, text: '0%' });
+
+    const high = parseWorkout(`# Workout\n## Squat\n- 105% x 1`);
+    expect(high.success).toBe(true);
+    expect(high.diagnostics.map((d) => d.code)).toEqual(['HIGH_PERCENTAGE']);
+  });
+});
+
+// MARK: - RPE Loads
+
+describe('RPE Loads', () => {
+  it('reads "@ RPE n" as the load without a deprecation warning', () => {
+    const result = parseWorkout(`# Workout\n## Deadlift\n- 3 x 3 @ RPE 8 @rest: 3m`);
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([]);
+    const sets = result.data!.exercises[0].sets;
+    expect(sets).toHaveLength(3);
+    expect(sets[0]).toMatchObject({ targetWeight: null, targetReps: 3, targetRpe: 8, restSeconds: 180 });
+  });
+
+  it('rejects RPE loads outside 1-10', () => {
+    const result = parseWorkout(`# Workout\n## Deadlift\n- 3 @ RPE 12\n- 3 @ RPE 8`);
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics[0]).toMatchObject({ code: 'INVALID_RPE', line: 3 });
+  });
+});
+
+// MARK: - One-Rep Max Metadata
+
+describe('One-Rep Max Metadata', () => {
+  it('collects @1rm lines and applies the default unit', () => {
+    const markdown = `# Strength
+@units: kg
+@1rm: Bench Press = 120
+@1rm: Back Squat = 405 lbs
+
+## Bench Press
+- 5 x 75%`;
+    const result = parseWorkout(markdown);
+
+    expect(result.data!.oneRepMaxes).toEqual([
+      { exerciseName: 'Bench Press', weight: 120, unit: 'kg' },
+      { exerciseName: 'Back Squat', weight: 405, unit: 'lbs' },
+    ]);
+  });
+
+  it('reports malformed and non-positive maxes', () => {
+    const result = parseWorkout(`# Strength
+@1rm: Bench Press 275
+@1rm: Squat = 0
+## Bench Press
+- 5 x 75%`);
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics.map((d) => [d.code, d.line])).toEqual([
+      ['INVALID_1RM', 2],
+      ['INVALID_1RM', 3],
+    ]);
+  });
+
+  it('warns on duplicate maxes and keeps the last one', () => {
+    const result = parseWorkout(`# Strength
+@1rm: Squat = 315
+@1rm: squat = 325
+## Squat
+- 5 x 75%`);
+
+    expect(result.data!.oneRepMaxes).toEqual([{ exerciseName: 'squat', weight: 325, unit: null }]);
+    expect(result.diagnostics).toEqual([expect.objectContaining({ code: 'DUPLICATE_1RM', line: 3 })]);
+  });
+});
+
+describe('Exercise Dictionary', () => {
+  const markdown = `# Pull Day
+## bb rdl
+- 135 x 8
+## Bench Pres
+- 135 x 8`;
+
+  it('leaves names untouched without a dictionary', () => {
+    const result = parseWorkout(markdown);
+
+    expect(result.data!.exercises.map((e) => e.exerciseName)).toEqual(['bb rdl', 'Bench Pres']);
+    expect(result.data!.exercises[0].canonicalId).toBeNull();
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('resolves aliases and attaches dictionary fields', () => {
+    const result = parseWorkout(markdown, { dictionary: exerciseDictionary });
+    const rdl = result.data!.exercises[0];
+
+    expect(rdl.exerciseName).toBe('Romanian Deadlift');
+    expect(rdl.canonicalId).toBe('romanian-deadlift');
+    expect(rdl.muscleGroups).toEqual(['hamstrings', 'glutes', 'back']);
+    expect(rdl.category).toBe('compound');
+  });
+
+  it('warns about unknown exercises with suggestions', () => {
+    const result = parseWorkout(markdown, { dictionary: exerciseDictionary });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.exercises[1].exerciseName).toBe('Bench Pres');
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'UNKNOWN_EXERCISE', line: 4, severity: 'warning' }),
+    ]);
+    expect(result.warnings[0]).toContain('Did you mean "Bench Press"');
+  });
+
+  it('does not look up superset group names', () => {
+    const result = parseWorkout(`# Arms
+## Superset: Arms
+### Hammer Curl
+- 25 x 10`, { dictionary: exerciseDictionary });
+
+    expect(result.diagnostics.filter((d) => d.code === 'UNKNOWN_EXERCISE').map((d) => d.line)).not.toContain(2);
+  });
+
+  it('applies to every day of a program', () => {
+    const result = parseProgram(`# Program
+## Day 1
+### bb rdl
+- 135 x 8`, { dictionary: exerciseDictionary });
+
+    expect(result.data!.workouts[0].exercises[0].exerciseName).toBe('Romanian Deadlift');
+  });
+});
+
+// MARK: - Deterministic IDs
+
+describe('Deterministic IDs', () => {
+  const markdown = `# Push Day
+## Bench Press
+- 135 x 8
+- 155 x 6
+## Superset: Arms
+### Bicep Curl
+- 25 x 10
+### Tricep Pushdown
+- 40 x 10
+## Bench Press
+- 95 x 12`;
+  const clock = () => new Date('2026-01-01T00:00:00.000Z');
+
+  it('gives the same result for the same markdown', () => {
+    const first = parseWorkout(markdown, { ids: 'deterministic', clock });
+    const second = parseWorkout(markdown, { ids: 'deterministic', clock });
+
+    expect(first).toEqual(second);
+    expect(first.data!.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(first.data!.createdAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(first.data!.updatedAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('keeps links between workout, exercises and sets', () => {
+    const plan = parseWorkout(markdown, { ids: 'deterministic' }).data!;
+    const superset = plan.exercises[1];
+
+    expect(plan.exercises.every((e) => e.workoutPlanId === plan.id)).toBe(true);
+    expect(plan.exercises[2].parentExerciseId).toBe(superset.id);
+    expect(plan.exercises[0].sets.every((s) => s.plannedExerciseId === plan.exercises[0].id)).toBe(true);
+    const ids = [plan.id, ...plan.exercises.flatMap((e) => [e.id, ...e.sets.map((s) => s.id)])];
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('keeps ids of untouched exercises when others change', () => {
+    const before = parseWorkout(markdown, { ids: 'deterministic' }).data!;
+    const after = parseWorkout(markdown.replace('- 25 x 10', '- 30 x 10\n- 30 x 8'), { ids: 'deterministic' }).data!;
+
+    expect(after.exercises.map((e) => e.id)).toEqual(before.exercises.map((e) => e.id));
+    expect(after.exercises[0].sets.map((s) => s.id)).toEqual(before.exercises[0].sets.map((s) => s.id));
+  });
+
+  it('passes paths to a custom generator', () => {
+    const calls: string[] = [];
+    const plan = parseWorkout(markdown, {
+      ids: (kind, path) => {
+        calls.push(`${kind}:${path.join('/')}`);
+        return `${kind}:${path.join('/')}`;
+      },
+    }).data!;
+
+    expect(plan.id).toBe('workout:Push Day');
+    expect(plan.exercises.map((e) => e.id)).toEqual([
+      'exercise:Push Day/Bench Press',
+      'exercise:Push Day/Superset: Arms',
+      'exercise:Push Day/Superset: Arms/Bicep Curl',
+      'exercise:Push Day/Superset: Arms/Tricep Pushdown',
+      'exercise:Push Day/Bench Press#2',
+    ]);
+    expect(plan.exercises[0].sets.map((s) => s.id)).toEqual(['set:Push Day/Bench Press/0', 'set:Push Day/Bench Press/1']);
+    expect(calls).toHaveLength(new Set(calls).size);
+  });
+
+  it('includes program and week names for program workouts', () => {
+    const program = parseProgram(`# Block
+## Week 1
+### Day 1
+#### Squat
+- 225 x 5
+## Week 2
+### Day 1
+#### Squat
+- 235 x 5`, { ids: (kind, path) => `${kind}:${path.join('/')}` }).data!;
+
+    expect(program.id).toBe('program:Block');
+    expect(program.workouts.map((w) => w.id)).toEqual(['workout:Block/Week 1/Day 1', 'workout:Block/Week 2/Day 1']);
+    expect(program.weeks.map((w) => w.workoutIds)).toEqual([['workout:Block/Week 1/Day 1'], ['workout:Block/Week 2/Day 1']]);
+    expect(program.workouts[1].exercises[0].id).toBe('exercise:Block/Week 2/Day 1/Squat');
+  });
+
+  it('uses random ids by default', () => {
+    expect(parseWorkout(markdown).data!.id).not.toBe(parseWorkout(markdown).data!.id);
+  });
+});
+
+describe('Lenient Parsing', () => {
+  const markdown = `# Mostly Good Workout
+## Bench Press
+- 135 x 5
+- 185 x 5
+- this set was amazing
+- 225 x 3`;
+
+  it('returns the workout without the sets that failed to parse', () => {
+    const result = parseWorkout(markdown, { lenient: true });
+
+    expect(result.success).toBe(false);
+    expect(result.partial).toBe(true);
+    expect(result.errors).toEqual([expect.stringContaining('Line 5: Invalid set format')]);
+    expect(result.data!.exercises[0].sets.map((s) => s.targetWeight)).toEqual([135, 185, 225]);
+  });
+
+  it('drops exercises and groups left without sets', () => {
+    const result = parseWorkout(`# Push
+## Superset: Arms
+### Bicep Curl
+- curls
+### Tricep Pushdown
+- pushdowns
+## Bench Press
+- heavy
+## Dips
+- bw x 10`, { lenient: true });
+
+    expect(result.data!.exercises.map((e) => [e.exerciseName, e.orderIndex])).toEqual([['Dips', 0]]);
+    expect(result.errors).toHaveLength(6);
+  });
+
+  it('keeps groups with exercises left', () => {
+    const plan = parseWorkout(`# Push
+## Superset: Arms
+### Bicep Curl
+- curls
+### Tricep Pushdown
+- 40 x 10`, { lenient: true }).data!;
+
+    expect(plan.exercises.map((e) => e.exerciseName)).toEqual(['Superset: Arms', 'Tricep Pushdown']);
+    expect(plan.exercises[1].parentExerciseId).toBe(plan.exercises[0].id);
+  });
+
+  it('returns no data when nothing parsed', () => {
+    const result = parseWorkout('# Push\n## Bench Press\n- heavy', { lenient: true });
+
+    expect(result.data).toBeNull();
+    expect(result.partial).toBe(false);
+  });
+
+  it('is not partial for valid workouts or without the option', () => {
+    expect(parseWorkout('# Push\n## Bench Press\n- 135 x 5', { lenient: true }).partial).toBe(false);
+    expect(parseWorkout(markdown).data).toBeNull();
+    expect(parseWorkout(markdown)).not.toHaveProperty('partial');
+  });
+
+  it('keeps the days of a program that parsed', () => {
+    const result = parseProgram(`# Block
+## Day 1
+### Squat
+- heavy
+## Day 2
+### Bench Press
+- 135 x 5`, { lenient: true });
+
+    expect(result.partial).toBe(true);
+    expect(result.data!.workouts.map((w) => w.name)).toEqual(['Day 2']);
+  });
+});
+
+describe('Source Maps', () => {
+  const markdown = `# Push Day
+
+## Bench Press
+@type: barbell
+Pause at the chest
+@progression: +5 lbs
+- 135 x 5
+  - 3 x 5 @ 185
+
+## Superset: Arms
+### Bicep Curl
+- 25 x 10  `;
+
+  it('locates exercise headers, metadata and set lines', () => {
+    const [bench, superset, curl] = parseWorkout(markdown, { sourceMap: true }).data!.exercises;
+
+    expect(bench.source).toEqual({
+      header: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 15 },
+      metadata: { startLine: 4, startColumn: 1, endLine: 6, endColumn: 21 },
+    });
+    expect(bench.sets[0].source).toEqual({ startLine: 7, startColumn: 1, endLine: 7, endColumn: 10 });
+    expect(superset.source).toEqual({ header: { startLine: 10, startColumn: 1, endLine: 10, endColumn: 18 }, metadata: null });
+    expect(curl.source!.metadata).toBeNull();
+    expect(curl.sets[0].source).toEqual({ startLine: 12, startColumn: 1, endLine: 12, endColumn: 10 });
+  });
+
+  it('gives every set written as shorthand the shorthand line, without its indentation', () => {
+    const sets = parseWorkout(markdown, { sourceMap: true }).data!.exercises[0].sets;
+
+    expect(sets.slice(1).map((s) => s.source)).toEqual(
+      Array(3).fill({ startLine: 8, startColumn: 3, endLine: 8, endColumn: 16 })
+    );
+  });
+
+  it('leaves locations out by default', () => {
+    const [bench] = parseWorkout(markdown).data!.exercises;
+
+    expect(bench).not.toHaveProperty('source');
+    expect(bench.sets[0]).not.toHaveProperty('source');
+  });
+
+  it('locates exercises in program days', () => {
+    const program = parseProgram('# Block\n## Day 1\n### Squat\n- 225 x 5', { sourceMap: true }).data!;
+
+    expect(program.workouts[0].exercises[0].source!.header.startLine).toBe(3);
+    expect(program.workouts[0].exercises[0].sets[0].source!.startLine).toBe(4);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { parseProgram } from '../src/parser/index.js';
+import type { TrainingProgram } from '../src/parser/index.js';
+import { periodizeWorkout } from '../src/periodization/index.js';
+import { parseOrThrow } from './helpers.js';
+
+/// Each workout's sets for one exercise as "weight×reps" strings, in program order.
+function loadsOf(program: TrainingProgram, exerciseName: string): string[][] {
+  return program.workouts.map((workout) =>
+    workout.exercises
+      .find((e) => e.exerciseName === exerciseName)!
+      .sets.map((set) => {
+        const reps = set.isAmrap
+          ? 'AMRAP'
+          : set.targetRepsMax != null ? `${set.targetRepsMin}-${set.targetRepsMax}` : `${set.targetReps}`;
+        const load = set.targetWeight ?? (set.targetPercentage != null ? `${set.targetPercentage}%` : 'bw');
+        return `${load}×${reps}`;
+      })
+  );
+}
+
+const LOWER = `# Lower
+@units: lbs
+
+## Squat
+- 225 x 5 @rest: 180s
+- 225 x 5 @rest: 180s
+
+## Leg Curl
+- 80 x 8-12
+- 80 x 8-12
+- 60 x 12 @dropset`;
+
+describe('periodizeWorkout', () => {
+  it('raises loads weekly under a linear scheme and ends with a deload', () => {
+    const { program } = periodizeWorkout(parseOrThrow(LOWER), { scheme: 'linear' });
+
+    expect(program.name).toBe('Lower (Linear)');
+    expect(program.weeks.map((w) => w.name)).toEqual(['Week 1', 'Week 2', 'Week 3', 'Week 4 (Deload)']);
+    expect(loadsOf(program, 'Squat')).toEqual([
+      ['225×5', '225×5'],
+      ['230×5', '230×5'],
+      ['235×5', '235×5'],
+      ['205×5'],
+    ]);
+    expect(loadsOf(program, 'Leg Curl')[3]).toEqual(['70×8-12', '70×8-12']);
+  });
+
+  it('varies load and reps across undulating days', () => {
+    const { program } = periodizeWorkout(parseOrThrow(LOWER), { scheme: 'undulating', weeks: 2, deloadEvery: 0 });
+
+    expect(program.workouts.map((w) => w.name)).toEqual([
+      'Lower - Heavy', 'Lower - Medium', 'Lower - Light',
+      'Lower - Heavy', 'Lower - Medium', 'Lower - Light',
+    ]);
+    expect(program.weeks[0].workoutIds).toEqual(program.workouts.slice(0, 3).map((w) => w.id));
+    expect(loadsOf(program, 'Squat').slice(0, 3)).toEqual([['240×3', '240×3'], ['225×5', '225×5'], ['205×8', '205×8']]);
+    expect(loadsOf(program, 'Leg Curl')[0]).toEqual(['85×5-7', '85×5-7', '65×7']);
+  });
+
+  it('splits training weeks into blocks', () => {
+    const { program } = periodizeWorkout(parseOrThrow(LOWER), { scheme: 'block', weeks: 7, deloadEvery: 7 });
+
+    expect(program.weeks.map((w) => w.name)).toEqual([
+      'Week 1 (Accumulation)', 'Week 2 (Accumulation)', 'Week 3 (Transmutation)', 'Week 4 (Transmutation)',
+      'Week 5 (Realization)', 'Week 6 (Realization)', 'Week 7 (Deload)',
+    ]);
+    expect(loadsOf(program, 'Squat').map((sets) => sets[0])).toEqual([
+      '205×8', '210×8', '225×5', '230×5', '240×3', '250×3', '205×5',
+    ]);
+  });
+
+  it('runs 5/3/1 waves from the training max for compound lifts', () => {
+    const plan = parseOrThrow(`# Lower
+@units: lbs
+@1rm: Squat = 400
+
+## Squat
+- 275 x 5
+
+## Leg Curl
+- 80 x 10
+- 80 x 10`);
+    const { program } = periodizeWorkout(plan, { scheme: '531', weeks: 5 });
+
+    expect(program.weeks.map((w) => w.name)).toEqual([
+      'Week 1 (5s)', 'Week 2 (3s)', 'Week 3 (5/3/1)', 'Week 4 (Deload)', 'Week 5 (5s)',
+    ]);
+    expect(loadsOf(program, 'Squat')).toEqual([
+      ['235×5', '270×5', '305×AMRAP'],
+      ['250×3', '290×3', '325×AMRAP'],
+      ['270×5', '305×3', '340×AMRAP'],
+      ['145×5', '180×5', '215×5'],
+      ['235×5', '275×5', '310×AMRAP'],
+    ]);
+    expect(loadsOf(program, 'Leg Curl')).toEqual([
+      ['80×10', '80×10'], ['80×10', '80×10'], ['80×10', '80×10'], ['70×10'], ['80×10', '80×10'],
+    ]);
+  });
+
+  it('estimates the training max from the heaviest set without a @1rm', () => {
+    const { program } = periodizeWorkout(parseOrThrow('# W\n@units: kg\n## Deadlift\n- 100 x 5\n- 150 x 3'), {
+      scheme: '531',
+      weeks: 1,
+    });
+
+    // 150 × (1 + 3/30) = 165; training max 148.5
+    expect(loadsOf(program, 'Deadlift')).toEqual([['97.5×5', '112.5×5', '125×AMRAP']]);
+  });
+
+  it('scales percentage loads and leaves bodyweight and timed sets alone', () => {
+    const { program } = periodizeWorkout(
+      parseOrThrow('# W\n@1rm: Squat = 300\n## Squat\n- 5 x 70%\n## Pull-up\n- 8\n## Plank\n- 60s'),
+      { scheme: 'linear', weeks: 3, deloadEvery: 0, weeklyIncrease: 0.05 }
+    );
+
+    expect(loadsOf(program, 'Squat')).toEqual([['70%×5'], ['74%×5'], ['77%×5']]);
+    expect(loadsOf(program, 'Pull-up')).toEqual([['bw×8'], ['bw×8'], ['bw×8']]);
+    expect(program.workouts.map((w) => w.exercises[2].sets[0].targetTime)).toEqual([60, 60, 60]);
+  });
+
+  it('returns markdown that parses to the returned program', () => {
+    const { program, markdown } = periodizeWorkout(parseOrThrow(LOWER), {
+      scheme: 'undulating',
+      name: 'Mesocycle',
+      ids: 'deterministic',
+      clock: () => new Date('2026-01-01T00:00:00Z'),
+    });
+
+    expect(markdown.startsWith('# Mesocycle\n@units: lbs\n\n## Week 1\n\n### Lower - Heavy\n')).toBe(true);
+    expect(parseProgram(markdown, { ids: 'deterministic', clock: () => new Date('2026-01-01T00:00:00Z') }).data)
+      .toEqual(program);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isBarbellExercise,
+  calculatePlates,
+  formatPlateBreakdown,
+  formatCompletePlateSetup,
+} from '../src/plates/index.js';
+
+describe('isBarbellExercise', () => {
+  it('follows the spec rules in order', () => {
+    expect(isBarbellExercise('Curl', 'barbell')).toBe(true);
+    expect(isBarbellExercise('Barbell Curl')).toBe(true);
+    expect(isBarbellExercise('Dumbbell Bench Press')).toBe(false);
+    expect(isBarbellExercise('Back Squat')).toBe(true);
+    expect(isBarbellExercise('RDL')).toBe(true);
+    expect(isBarbellExercise('Lat Pulldown')).toBe(false);
+  });
+});
+
+describe('calculatePlates', () => {
+  it('loads standard plates per side', () => {
+    const breakdown = calculatePlates(225);
+
+    expect(breakdown).toEqual({
+      weightPerSide: 90,
+      unit: 'lbs',
+      plates: [{ weight: 45, count: 2 }],
+      isAchievable: true,
+      barWeight: 45,
+    });
+  });
+
+  it('uses kilogram defaults', () => {
+    const breakdown = calculatePlates(102.5, { unit: 'kg' });
+
+    expect(breakdown.barWeight).toBe(20);
+    expect(breakdown.plates).toEqual([
+      { weight: 25, count: 1 },
+      { weight: 15, count: 1 },
+      { weight: 1.25, count: 1 },
+    ]);
+    expect(breakdown.isAchievable).toBe(true);
+  });
+
+  it('reports the bar alone', () => {
+    const breakdown = calculatePlates(45);
+
+    expect(breakdown.plates).toEqual([]);
+    expect(breakdown.isAchievable).toBe(true);
+    expect(formatPlateBreakdown(breakdown)).toBe('Bar only');
+  });
+
+  it('reports a negative remainder below the bar weight', () => {
+    const breakdown = calculatePlates(35);
+
+    expect(breakdown.isAchievable).toBe(false);
+    expect(breakdown.remainder).toBe(-5);
+    expect(breakdown.plates).toEqual([]);
+  });
+
+  it('reports what is missing when the target cannot be reached', () => {
+    const breakdown = calculatePlates(226);
+
+    expect(breakdown.isAchievable).toBe(false);
+    expect(breakdown.remainder).toBe(0.5);
+    expect(formatPlateBreakdown(breakdown)).toBe('2×45lbs (+0.5lbs short)');
+  });
+
+  it('honors a custom bar weight', () => {
+    expect(calculatePlates(135, { barWeight: 35 }).plates).toEqual([
+      { weight: 45, count: 1 },
+      { weight: 5, count: 1 },
+    ]);
+  });
+
+  it('finds combinations greedy filling misses', () => {
+    // 30 per side from 25s and 15s: greedy takes a 25 and gets stuck at 5 short
+    const breakdown = calculatePlates(80, { unit: 'kg', plates: [{ weight: 25 }, { weight: 15 }] });
+
+    expect(breakdown.plates).toEqual([{ weight: 15, count: 2 }]);
+    expect(breakdown.isAchievable).toBe(true);
+  });
+
+  it('respects limited plate counts', () => {
+    const breakdown = calculatePlates(315, { plates: [{ weight: 45, count: 2 }, { weight: 25, count: 4 }, { weight: 10 }] });
+
+    // 135 per side, with only two 45s available
+    expect(breakdown.plates).toEqual([
+      { weight: 45, count: 2 },
+      { weight: 25, count: 1 },
+      { weight: 10, count: 2 },
+    ]);
+    expect(breakdown.isAchievable).toBe(true);
+  });
+
+  it('gets as close as possible without going over', () => {
+    const breakdown = calculatePlates(145, { plates: [{ weight: 45, count: 1 }] });
+
+    expect(breakdown.plates).toEqual([{ weight: 45, count: 1 }]);
+    expect(breakdown.remainder).toBe(5);
+  });
+
+  it('falls back to greedy filling for very large searches', () => {
+    const breakdown = calculatePlates(1_000_045, { plates: [{ weight: 45 }, { weight: 0.37 }] });
+
+    expect(breakdown.plates[0]).toEqual({ weight: 45, count: 11111 });
+  });
+
+  it('falls back to greedy filling for long inventories of small plates', () => {
+    const plates = Array.from({ length: 60 }, (_, i) => ({ weight: 0.25 * (i + 1) }));
+    const start = Date.now();
+    const breakdown = calculatePlates(1045, { plates });
+
+    expect(Date.now() - start).toBeLessThan(100);
+    expect(breakdown.plates[0]).toEqual({ weight: 15, count: 33 });
+    expect(breakdown.isAchievable).toBe(true);
+  });
+});
+
+describe('formatting', () => {
+  it('formats per-side plates and the complete setup', () => {
+    const breakdown = calculatePlates(325);
+
+    expect(formatPlateBreakdown(breakdown)).toBe('3×45lbs + 5lbs');
+    expect(formatCompletePlateSetup(breakdown)).toBe('45lb bar + 140lbs per side');
+    expect(formatCompletePlateSetup(calculatePlates(20, { unit: 'kg' }))).toBe('20kg bar');
+  });
+});
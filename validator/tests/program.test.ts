@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { parseProgram, parseWorkout } from '../src/parser/index.js';
+
+// MARK: - Structure
+
+describe('Program Structure', () => {
+  it('parses weeks of days into ordered workouts', () => {
+    const markdown = `# 4-Week Strength
+Linear progression on the big lifts.
+
+## Week 1
+Intro week.
+
+### Day 1 - Squat
+#### Squat
+- 5 x 5 @ 225
+
+### Day 2 - Bench
+#### Bench Press
+- 5 x 5 @ 155
+
+## Week 2 - Deload
+### Day 1 - Squat
+#### Squat
+- 3 x 5 @ 185`;
+    const result = parseProgram(markdown);
+
+    expect(result.success).toBe(true);
+    const program = result.data!;
+    expect(program.name).toBe('4-Week Strength');
+    expect(program.description).toBe('Linear progression on the big lifts.');
+    expect(program.workouts.map((w) => w.name)).toEqual(['Day 1 - Squat', 'Day 2 - Bench', 'Day 1 - Squat']);
+    expect(program.weeks.map((w) => w.name)).toEqual(['Week 1', 'Week 2 - Deload']);
+    expect(program.weeks[0].workoutIds).toEqual([program.workouts[0].id, program.workouts[1].id]);
+    expect(program.weeks[1].workoutIds).toEqual([program.workouts[2].id]);
+    expect(program.workouts[0].exercises[0].sets).toHaveLength(5);
+  });
+
+  it('accepts days directly under the program header', () => {
+    const markdown = `## Push Pull
+### Push
+#### Bench Press
+- 135 x 5
+### Pull
+#### Row
+- 95 x 8`;
+    const result = parseProgram(markdown);
+
+    expect(result.data!.weeks).toEqual([]);
+    expect(result.data!.workouts.map((w) => w.name)).toEqual(['Push', 'Pull']);
+  });
+
+  it('scopes each workout source to its own day', () => {
+    const result = parseProgram(`# P\n## Day 1\n### Squat\n- 5\n\n## Day 2\n### Row\n- 8`);
+
+    expect(result.data!.workouts.map((w) => w.sourceMarkdown)).toEqual(['## Day 1\n### Squat\n- 5', '## Day 2\n### Row\n- 8']);
+  });
+});
+
+// MARK: - Inheritance
+
+describe('Program Inheritance', () => {
+  it('inherits tags, units and one-rep maxes, with workout metadata taking precedence', () => {
+    const markdown = `# Block
+@tags: strength
+@units: kg
+@1rm: Squat = 180
+@1rm: Bench Press = 120
+
+## Day 1
+@tags: legs
+@1rm: Squat = 185
+### Squat
+- 3 x 5 @ 140
+- 5 x 75%
+
+## Day 2
+@units: lbs
+### Bench Press
+- 5 x 185`;
+    const result = parseProgram(markdown);
+    const [day1, day2] = result.data!.workouts;
+
+    expect(day1.tags).toEqual(['strength', 'legs']);
+    expect(day1.defaultWeightUnit).toBe('kg');
+    expect(day1.exercises[0].sets[0].targetWeightUnit).toBe('kg');
+    expect(day1.oneRepMaxes).toEqual([
+      { exerciseName: 'Bench Press', weight: 120, unit: 'kg' },
+      { exerciseName: 'Squat', weight: 185, unit: 'kg' },
+    ]);
+
+    expect(day2.tags).toEqual(['strength']);
+    expect(day2.defaultWeightUnit).toBe('lbs');
+    expect(day2.exercises[0].sets[0].targetWeightUnit).toBe('lbs');
+  });
+});
+
+// MARK: - Errors
+
+describe('Program Errors', () => {
+  it('reports a missing program header', () => {
+    const result = parseProgram('just text');
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['NO_PROGRAM_HEADER']);
+  });
+
+  it('reports programs and weeks without workouts', () => {
+    expect(parseProgram('# Empty Program\nNothing here yet.').diagnostics.map((d) => d.code)).toEqual(['NO_WORKOUTS']);
+
+    const result = parseProgram(`# P\n## Week 1\n## Week 2\n### Day 1\n#### Squat\n- 5`);
+    expect(result.diagnostics).toEqual([expect.objectContaining({ code: 'NO_WORKOUTS', line: 2, text: 'Week 1' })]);
+  });
+
+  it('collects errors from every day with document line numbers', () => {
+    const markdown = `# P
+## Day 1
+### Squat
+- heavy
+## Day 2
+### Row
+- 95 x 8 @rest: soon`;
+    const result = parseProgram(markdown);
+
+    expect(result.success).toBe(false);
+    expect(result.data).toBeNull();
+    expect(result.diagnostics.map((d) => [d.code, d.line])).toEqual([
+      ['NO_SETS', 3],
+      ['INVALID_SET_FORMAT', 4],
+      ['INVALID_REST', 7],
+    ]);
+  });
+
+  it('leaves parseWorkout treating a program as one workout', () => {
+    const result = parseWorkout(`# P\n## Day 1\n### Squat\n- 5\n## Day 2\n### Row\n- 8`);
+
+    expect(result.data!.name).toBe('P');
+    expect(result.data!.exercises.filter((e) => e.sets.length > 0).map((e) => e.exerciseName)).toEqual(['Squat', 'Row']);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { parseWorkout } from '../src/parser/index.js';
+import type { ProgressionRule, WorkoutPlan } from '../src/parser/index.js';
+import { progressWorkout } from '../src/progression/index.js';
+import { parseOrThrow } from './helpers.js';
+
+/// Each exercise's sets as "weight×reps" strings, keyed by exercise name.
+function loads(plan: WorkoutPlan): Record<string, string[]> {
+  return Object.fromEntries(plan.exercises.filter((e) => e.sets.length > 0).map((exercise) => [
+    exercise.exerciseName,
+    exercise.sets.map((set) => set.targetTime != null
+      ? `${set.targetTime}s`
+      : `${set.targetWeight ?? 'bw'}×${set.isAmrap ? 'AMRAP' : set.targetReps}`),
+  ]));
+}
+
+const linear = (increment: number, unit: ProgressionRule['unit'] = null): ProgressionRule =>
+  ({ type: 'linear', increment, unit, repsMin: null, repsMax: null });
+
+describe('progressWorkout', () => {
+  it('adds the increment to every weighted set', () => {
+    const plan = parseOrThrow('# Legs\n@units: lbs\n## Squat\n- 225 x 5\n- 245 x 5\n## Plank\n- 60s');
+    const { plan: next } = progressWorkout(plan, { default: linear(5) });
+
+    expect(loads(next)).toEqual({ Squat: ['230×5', '250×5'], Plank: ['60s'] });
+    expect(next.exercises[0].id).toBe(plan.exercises[0].id);
+    expect(plan.exercises[0].sets[0].targetWeight).toBe(225);
+  });
+
+  it('applies category rules from the dictionary', () => {
+    const plan = parseOrThrow(`# Push
+@units: lbs
+@progression: compound +5 lbs
+@progression: accessory +2.5 lbs
+
+## Bench Press
+- 185 x 5
+
+## Lateral Raise
+- 20 x 12`);
+    const { plan: next } = progressWorkout(plan);
+
+    expect(loads(next)).toEqual({ 'Bench Press': ['190×5'], 'Lateral Raise': ['22.5×12'] });
+  });
+
+  it('adds reps under double progression, then weight once the top of the range is reached', () => {
+    const plan = parseOrThrow('# Arms\n@units: lbs\n## Bicep Curl\n@progression: double 8-10 +5 lbs\n- 30 x 9\n- 30 x 8');
+    const first = progressWorkout(plan).plan;
+    const second = progressWorkout(first).plan;
+    const third = progressWorkout(second).plan;
+
+    expect(loads(first)).toEqual({ 'Bicep Curl': ['30×10', '30×9'] });
+    expect(loads(second)).toEqual({ 'Bicep Curl': ['30×10', '30×10'] });
+    expect(loads(third)).toEqual({ 'Bicep Curl': ['35×8', '35×8'] });
+  });
+
+  it('keeps AMRAP reps and moves drop sets with the set before them', () => {
+    const plan = parseOrThrow(`# Legs
+@units: lbs
+@progression: +10 lbs
+
+## Squat
+- 225 x 5
+- 225 x AMRAP
+
+## Leg Extension
+- 100 x 10
+- 70 x 10 @dropset`);
+    const { plan: next } = progressWorkout(plan);
+
+    expect(loads(next)).toEqual({ Squat: ['235×5', '235×AMRAP'], 'Leg Extension': ['110×10', '80×10'] });
+    expect(next.exercises[1].sets[1].isDropset).toBe(true);
+  });
+
+  it('prefers per-exercise overrides, then inline rules, then categories', () => {
+    const plan = parseOrThrow(`# Push
+@units: lbs
+@progression: compound +5 lbs
+
+## Bench Press
+@progression: none
+- 185 x 5
+
+## Overhead Press
+- 95 x 5
+
+## Incline Bench Press
+- 135 x 8`);
+    const { plan: next } = progressWorkout(plan, {
+      exercises: { 'incline bench press': linear(10) },
+      categories: { compound: linear(2.5) },
+    });
+
+    expect(loads(next)).toEqual({ 'Bench Press': ['185×5'], 'Overhead Press': ['97.5×5'], 'Incline Bench Press': ['145×8'] });
+  });
+
+  it('converts increments to the set unit in plate-friendly steps', () => {
+    const plan = parseOrThrow('# Legs\n@units: kg\n## Squat\n- 100 x 5\n- 225 lbs x 5');
+    const { plan: next } = progressWorkout(plan, { default: linear(5, 'lbs') });
+
+    expect(loads(next)).toEqual({ Squat: ['102.5×5', '230×5'] });
+  });
+
+  it('returns markdown that parses back to the progressed plan', () => {
+    const plan = parseOrThrow(`# Push
+@units: lbs
+@progression: +5 lbs
+
+## Superset: Arms
+### Bicep Curl
+@progression: double 8-12 +5 lbs
+- 25 x 10
+### Tricep Pushdown
+- 40 x 10`);
+    const { plan: next, markdown } = progressWorkout(plan);
+
+    expect(markdown).toContain('@progression: +5 lbs');
+    expect(markdown).toContain('@progression: double 8-12 +5 lbs');
+    expect(loads(parseOrThrow(markdown))).toEqual(loads(next));
+    expect(loads(next)).toEqual({ 'Bicep Curl': ['25×11'], 'Tricep Pushdown': ['45×10'] });
+  });
+});
+
+describe('@progression metadata', () => {
+  it('rejects malformed rules', () => {
+    const result = parseWorkout('# W\n@progression: +5 stones\n## Squat\n@progression: double 12-8 +5\n- 225 x 5');
+
+    expect(result.diagnostics.filter((d) => d.code === 'INVALID_PROGRESSION').map((d) => d.line)).toEqual([2, 4]);
+  });
+
+  it('rejects categories on exercise rules and warns on repeated categories', () => {
+    const result = parseWorkout('# W\n@progression: +5\n@progression: +10\n## Squat\n@progression: compound +5\n- 225 x 5');
+
+    expect(result.errors.some((e) => e.startsWith('Line 5:'))).toBe(true);
+    expect(result.warnings.some((w) => w.startsWith('Line 3:'))).toBe(true);
+  });
+});
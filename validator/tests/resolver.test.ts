@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { WorkoutPlan } from '../src/parser/index.js';
+import { resolvePercentages } from '../src/resolver/index.js';
+import { parseOrThrow } from './helpers.js';
+
+function loads(plan: WorkoutPlan): Array<[number | null, string | null]> {
+  return plan.exercises.flatMap((e) => e.sets.map((s): [number | null, string | null] => [s.targetWeight, s.targetWeightUnit]));
+}
+
+// MARK: - Resolution
+
+describe('resolvePercentages', () => {
+  it('resolves percentages from @1rm metadata, rounding to 5 lbs', () => {
+    const plan = parseOrThrow(`# Bench Day
+@units: lbs
+@1rm: Bench Press = 275
+
+## Bench Press
+- 3 x 5 @ 75%
+- 1 @ 90%
+- 135 x 10`);
+
+    const { plan: resolved, unresolved } = resolvePercentages(plan);
+
+    // 206.25 -> 205, 247.5 -> 250
+    expect(loads(resolved)).toEqual([[205, 'lbs'], [205, 'lbs'], [205, 'lbs'], [250, 'lbs'], [135, 'lbs']]);
+    expect(resolved.exercises[0].sets[0].targetPercentage).toBe(75);
+    expect(unresolved).toEqual([]);
+  });
+
+  it('uses the reference lift and 2.5 kg increments', () => {
+    const plan = parseOrThrow(`# Squat Day
+@1rm: Back Squat = 180 kg
+
+## Pause Squat
+- 3 @ 65% of back squat`);
+
+    expect(loads(resolvePercentages(plan).plan)).toEqual([[117.5, 'kg']]);
+  });
+
+  it('prefers supplied maxes and honours a custom increment', () => {
+    const plan = parseOrThrow(`# Bench Day
+@1rm: Bench Press = 275 lbs
+
+## Bench Press
+- 5 x 72%`);
+
+    const { plan: resolved } = resolvePercentages(plan, { maxes: { 'bench press': 300 }, unit: 'lbs', increment: 2.5 });
+
+    // 216 -> 215
+    expect(loads(resolved)).toEqual([[215, 'lbs']]);
+  });
+
+  it('reports lifts without a max and leaves their sets unresolved', () => {
+    const plan = parseOrThrow(`# Day
+## Deadlift
+- 5 x 80%
+## Row
+- 3 @ 70% of Clean`);
+
+    const { plan: resolved, unresolved } = resolvePercentages(plan, { maxes: { Deadlift: { weight: 200, unit: 'kg' } } });
+
+    expect(loads(resolved)).toEqual([[160, 'kg'], [null, null]]);
+    expect(unresolved).toEqual(['Clean']);
+  });
+
+  it('does not modify the input plan', () => {
+    const plan = parseOrThrow(`# Day\n@1rm: Squat = 300\n## Squat\n- 5 x 70%`);
+
+    resolvePercentages(plan);
+
+    expect(plan.exercises[0].sets[0].targetWeight).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parseProgram, parseWorkout } from '../src/parser/index.js';
+import { parseRulesConfig, RULES } from '../src/rules/index.js';
+
+const WORKOUT = `# Push
+## Bench Press
+- 135 x 150
+- 135 x 5 @rest: 5s
+- 135 x 5 @rest: 15m
+- 80% x 5 @rpe: 8
+`;
+
+function codes(result: { diagnostics: Array<{ code: string; severity: string }> }): string[] {
+  return result.diagnostics.map((d) => `${d.severity} ${d.code}`);
+}
+
+describe('lint rules', () => {
+  it('report warnings by default', () => {
+    const result = parseWorkout(WORKOUT);
+
+    expect(result.success).toBe(true);
+    expect(codes(result)).toEqual([
+      'warning HIGH_REPS',
+      'warning SHORT_REST',
+      'warning LONG_REST',
+      'warning DEPRECATED_RPE',
+    ]);
+    expect(RULES.map((r) => r.id)).toEqual(expect.arrayContaining(['HIGH_REPS', 'SHORT_REST', 'LONG_REST', 'DEPRECATED_RPE']));
+  });
+
+  it('take thresholds from their options', () => {
+    const result = parseWorkout(WORKOUT, {
+      rules: {
+        HIGH_REPS: ['warning', { max: 200 }],
+        SHORT_REST: ['warning', { min: 5 }],
+        LONG_REST: ['warning', { max: 900 }],
+        HIGH_PERCENTAGE: ['warning', { max: 75 }],
+      },
+    });
+
+    expect(codes(result)).toEqual(['warning HIGH_PERCENTAGE', 'warning DEPRECATED_RPE']);
+    expect(result.warnings[0]).toBe('Line 6: Percentage above 75% of one-rep max (80%). Double-check for typos.');
+  });
+
+  it('can be turned off or made errors', () => {
+    const result = parseWorkout(WORKOUT, { rules: { DEPRECATED_RPE: 'off', HIGH_REPS: ['error'], SHORT_REST: 'error' } });
+
+    expect(result.success).toBe(false);
+    expect(result.data).toBeNull();
+    expect(codes(result)).toEqual(['error HIGH_REPS', 'error SHORT_REST', 'warning LONG_REST']);
+    expect(result.errors).toEqual([
+      'Line 3: Very high rep count (150). Double-check for typos.',
+      'Line 4: Very short rest period (5s). Double-check for typos.',
+    ]);
+  });
+
+  it('apply to every workout of a program', () => {
+    const program = '# Program\n## Day 1\n### Squat\n- 5 @rest: 5s\n## Day 2\n### Squat\n- 5 @rest: 5s';
+
+    expect(parseProgram(program).success).toBe(true);
+    expect(parseProgram(program, { rules: { SHORT_REST: 'error' } }).errors).toEqual([
+      'Line 4: Very short rest period (5s). Double-check for typos.',
+      'Line 7: Very short rest period (5s). Double-check for typos.',
+    ]);
+  });
+
+  it('are silenced by disable comments, which are not notes', () => {
+    const result = parseWorkout(`<!-- lmwf-disable DEPRECATED_RPE -->
+# Push
+Heavy day
+## Bench Press
+<!-- lmwf-disable-next-line HIGH_REPS, SHORT_REST -->
+- 135 x 150 @rest: 5s
+- 135 x 150 @rest: 5s @rpe: 8
+<!-- lmwf-disable-next-line -->
+- 135 x 5 @rest: 15m
+`);
+
+    expect(codes(result)).toEqual(['warning HIGH_REPS', 'warning SHORT_REST']);
+    expect(result.diagnostics.map((d) => d.line)).toEqual([7, 7]);
+    expect(result.data!.description).toBe('Heavy day');
+    expect(result.data!.exercises[0].notes).toBeNull();
+  });
+
+  it('do not silence errors', () => {
+    const result = parseWorkout('# Push\n## Bench Press\n- 5\n<!-- lmwf-disable-next-line -->\n- heavy');
+
+    expect(result.success).toBe(false);
+    expect(codes(result)).toEqual(['error INVALID_SET_FORMAT']);
+  });
+});
+
+describe('parseRulesConfig', () => {
+  it('accepts severities and options', () => {
+    const config = { HIGH_REPS: ['error', { max: 50 }], DEPRECATED_RPE: 'off', SHORT_REST: ['warning'] };
+    expect(parseRulesConfig(config)).toEqual(config);
+  });
+
+  it('explains malformed settings', () => {
+    expect(parseRulesConfig([])).toBe('rules must be an object keyed by rule');
+    expect(parseRulesConfig({ NO_SETS: 'off' })).toMatch(/^rules\.NO_SETS is not a rule; rules are HIGH_REPS, /);
+    expect(parseRulesConfig({ HIGH_REPS: 'loud' })).toBe('rules.HIGH_REPS must be "error", "warning" or "off", or [severity, options]');
+    expect(parseRulesConfig({ HIGH_REPS: ['warning', { min: 5 }] })).toBe('rules.HIGH_REPS has no option "min"; options are max');
+    expect(parseRulesConfig({ DEPRECATED_RPE: ['warning', { max: 5 }] })).toBe('rules.DEPRECATED_RPE has no option "max"');
+    expect(parseRulesConfig({ LONG_REST: ['warning', { max: '5m' }] })).toBe('rules.LONG_REST.max must be a number');
+  });
+});
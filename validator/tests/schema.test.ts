@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { handler } from '../src/handler.js';
+import { parseWorkout } from '../src/parser/index.js';
+import { validateJson } from '../src/schema/index.js';
+import type { JsonSchema } from '../src/schema/index.js';
+import { generateSchemas, SCHEMAS_DIR } from '../scripts/generate-schemas.js';
+import type { APIGatewayProxyEventV2 } from 'aws-lambda';
+
+const VALID_EXAMPLES_DIR = join(__dirname, '../../liftmark-workout-format/examples/valid');
+
+function loadSchema(fileName: string): JsonSchema {
+  return JSON.parse(readFileSync(join(SCHEMAS_DIR, fileName), 'utf-8'));
+}
+
+/// The valid examples as [file name, markdown] pairs.
+function validExamples(): Array<[string, string]> {
+  return readdirSync(VALID_EXAMPLES_DIR)
+    .filter((file) => file.endsWith('.md'))
+    .map((file) => [file, readFileSync(join(VALID_EXAMPLES_DIR, file), 'utf-8')]);
+}
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['name', 'sets'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string' },
+    date: { type: ['string', 'null'], format: 'date' },
+    unit: { enum: ['lbs', 'kg', null] },
+    sets: { type: 'array', items: { $ref: '#/$defs/set' } },
+  },
+  $defs: {
+    set: {
+      type: 'object',
+      required: ['reps'],
+      properties: { reps: { type: 'integer', minimum: 1 }, rpe: { type: 'number', maximum: 10 } },
+    },
+  },
+};
+
+describe('validateJson', () => {
+  it('accepts values that match', () => {
+    expect(validateJson({ name: 'W', date: null, unit: 'kg', sets: [{ reps: 5, rpe: 8.5 }] }, SCHEMA)).toEqual([]);
+  });
+
+  it('reports each problem with its path', () => {
+    expect(validateJson({ name: 5, date: '2026-02-30', unit: 'stone', sets: [{ reps: 0 }, { rpe: 11 }], extra: 1 }, SCHEMA))
+      .toEqual([
+        "name: 5 is not of type 'string'",
+        'date: "2026-02-30" is not a \'date\'',
+        'unit: "stone" is not one of "lbs", "kg", null',
+        'sets.0.reps: 0 is less than the minimum of 1',
+        "sets.1: 'reps' is a required property",
+        'sets.1.rpe: 11 is greater than the maximum of 10',
+        "(root): additional property 'extra' is not allowed",
+      ]);
+    expect(validateJson([], SCHEMA)).toEqual(["(root): [] is not of type 'object'"]);
+  });
+
+  it('checks date-time formats', () => {
+    const schema: JsonSchema = { type: 'string', format: 'date-time' };
+
+    expect(validateJson('2026-02-20T10:30:00.000Z', schema)).toEqual([]);
+    expect(validateJson('2026-02-20T10:30:00+01:00', schema)).toEqual([]);
+    expect(validateJson('2026-02-20', schema)).toHaveLength(1);
+  });
+});
+
+describe('Generated schemas', () => {
+  it('are up to date with the TypeScript types (npm run schemas)', () => {
+    for (const [fileName, schema] of generateSchemas()) {
+      expect(loadSchema(fileName), fileName).toEqual(schema);
+    }
+  }, 60_000);
+
+  it('match every parse of examples/valid', () => {
+    const planSchema = loadSchema('lmwf-workout-plan.schema.json');
+    const exerciseSchema = loadSchema('lmwf-planned-exercise.schema.json');
+    const setSchema = loadSchema('lmwf-planned-set.schema.json');
+
+    for (const [file, markdown] of validExamples()) {
+      const plan = JSON.parse(JSON.stringify(parseWorkout(markdown).data));
+      expect(validateJson(plan, planSchema), file).toEqual([]);
+      for (const exercise of plan.exercises) {
+        expect(validateJson(exercise, exerciseSchema), file).toEqual([]);
+        for (const set of exercise.sets) expect(validateJson(set, setSchema), file).toEqual([]);
+      }
+    }
+  });
+
+  it('match /validate responses for examples/valid and invalid input', async () => {
+    const responseSchema = loadSchema('lmwf-validate-response.schema.json');
+    const bodies = [
+      ...validExamples().map(([, markdown]) => ({ markdown, plates: true })),
+      { markdown: '# Push\n@units: kg\n## Bench Press\n- 100 x 5', targetUnits: { weight: 'lbs' } },
+      { markdown: '# Push\n## Bench Press\n- heavy' },
+    ];
+
+    for (const body of bodies) {
+      const event = { rawPath: '/validate', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) };
+      const result = await handler(event as unknown as APIGatewayProxyEventV2) as { body: string };
+      expect(validateJson(JSON.parse(result.body), responseSchema), body.markdown.split('\n')[0]).toEqual([]);
+    }
+  });
+
+  it('catch output that drifts from the types', () => {
+    const plan = JSON.parse(JSON.stringify(parseWorkout('# W\n## Squat\n- 225 x 5').data));
+    plan.exercises[0].sets[0].targetWeightUnit = 'stone';
+    delete plan.exercises[0].notes;
+
+    expect(validateJson(plan, loadSchema('lmwf-workout-plan.schema.json'))).toEqual([
+      "exercises.0: 'notes' is a required property",
+      'exercises.0.sets.0.targetWeightUnit: "stone" is not one of "lbs", "kg", null',
+    ]);
+  });
+});
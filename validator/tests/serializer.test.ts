@@ -0,0 +1,393 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseProgram } from '../src/parser/index.js';
+import type { WorkoutPlan } from '../src/parser/index.js';
+import { parseSession } from '../src/parser/session.js';
+import { serializeProgram, serializeSession, serializeWorkout } from '../src/serializer/index.js';
+import { parseOrThrow } from './helpers.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const VALID_EXAMPLES_DIR = resolve(__dirname, '../../liftmark-workout-format/examples/valid');
+
+/// Strips ids, timestamps and source text so two parses of equivalent markdown compare equal.
+function structureOf(plan: WorkoutPlan) {
+  const positions = new Map(plan.exercises.map((e, index) => [e.id, index]));
+  return {
+    name: plan.name,
+    description: plan.description,
+    tags: plan.tags,
+    defaultWeightUnit: plan.defaultWeightUnit,
+    isFavorite: plan.isFavorite,
+    progressionRules: plan.progressionRules,
+    exercises: plan.exercises.map(({ id, workoutPlanId, parentExerciseId, sets, ...exercise }) => ({
+      ...exercise,
+      parent: parentExerciseId != null ? positions.get(parentExerciseId) : null,
+      sets: sets.map(({ id: setId, plannedExerciseId, ...set }) => set),
+    })),
+  };
+}
+
+/// Small seeded PRNG so generated cases are reproducible across runs.
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function generateSetLine(random: () => number): string {
+  const target = pick(random, [
+    () => `${pick(random, [45, 95, 135, 27.5, 225])} x ${1 + Math.floor(random() * 20)}`,
+    () => `${pick(random, [20, 32.5, 100])} ${pick(random, ['lbs', 'kg'])} x ${1 + Math.floor(random() * 12)}`,
+    () => `${1 + Math.floor(random() * 30)}`,
+    () => `bw x ${1 + Math.floor(random() * 30)}`,
+    () => `${pick(random, [95, 135])} x ${pick(random, ['6-8', '8-12', '12-15'])}`,
+    () => `${pick(random, ['8-12', 'bw x 10-20'])}`,
+    () => `${2 + Math.floor(random() * 4)} x ${pick(random, ['5', '8-10', 'AMRAP'])} @ ${pick(random, ['225', '100 kg', 'bw'])}`,
+    () => `${pick(random, [65, 72.5, 80])}% x ${pick(random, ['5', '3-5', 'AMRAP', '30s'])}`,
+    () => `${1 + Math.floor(random() * 5)} x ${pick(random, ['3', '5'])} @ ${pick(random, ['75%', '70% of Back Squat', 'RPE 8'])}`,
+    () => `${pick(random, [30, 45, 60, 90])}s`,
+    () => `${pick(random, [25, 45])} lbs x ${pick(random, [30, 60])}s`,
+    () => `${pick(random, [135, 95])} x AMRAP`,
+    () => 'bw x AMRAP',
+    () => `${pick(random, [200, 400, 0.5, 1])} ${pick(random, ['meters', 'km', 'miles', 'feet', 'yards'])}`,
+  ])();
+  const modifiers = [
+    random() < 0.4 ? `@rest: ${pick(random, [30, 60, 90, 180])}s` : null,
+    random() < 0.15 ? '@dropset' : null,
+    random() < 0.15 ? '@perside' : null,
+    random() < 0.2 ? pick(random, ['slow eccentric', 'pause at bottom', 'focus on form']) : null,
+  ].filter((m): m is string => m != null);
+  return [target, ...modifiers].join(' ');
+}
+
+function generateWorkout(random: () => number): string {
+  const lines = [`# Generated ${Math.floor(random() * 1000)}`];
+  if (random() < 0.5) lines.push('@tags: strength, generated');
+  if (random() < 0.5) lines.push(`@units: ${pick(random, ['lbs', 'kg'])}`);
+  if (random() < 0.3) lines.push(`@1rm: Back Squat = ${pick(random, ['315', '140 kg'])}`);
+  if (random() < 0.3) lines.push('', 'Generated description.');
+
+  const exerciseCount = 1 + Math.floor(random() * 4);
+  for (let i = 0; i < exerciseCount; i++) {
+    const grouped = random() < 0.3;
+    if (grouped) {
+      lines.push('', `## ${pick(random, ['Superset: Arms', 'Warmup', 'Cooldown'])} ${i}`);
+    }
+    const childCount = grouped ? 2 : 1;
+    for (let c = 0; c < childCount; c++) {
+      lines.push('', `${grouped ? '###' : '##'} Exercise ${i}-${c}`);
+      if (random() < 0.3) lines.push('@type: barbell');
+      if (random() < 0.3) lines.push('Keep the core tight.');
+      const setCount = 1 + Math.floor(random() * 4);
+      for (let s = 0; s < setCount; s++) {
+        lines.push(`- ${generateSetLine(random)}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+// MARK: - Round Trip
+
+describe('Round-Trip Serialization', () => {
+  const files = readdirSync(VALID_EXAMPLES_DIR).filter((f) => f.endsWith('.md')).sort();
+
+  it('finds the valid examples', () => {
+    expect(files.length).toBeGreaterThan(0);
+  });
+
+  it.each(files)('round-trips examples/valid/%s', (file) => {
+    const original = parseOrThrow(readFileSync(resolve(VALID_EXAMPLES_DIR, file), 'utf-8'));
+    const serialized = serializeWorkout(original);
+    const reparsed = parseOrThrow(serialized);
+
+    expect(structureOf(reparsed)).toEqual(structureOf(original));
+    // Canonical output is a fixed point
+    expect(serializeWorkout(reparsed)).toBe(serialized);
+  });
+
+  it('round-trips generated workouts', () => {
+    const random = mulberry32(0x1f7);
+    for (let i = 0; i < 200; i++) {
+      const original = parseOrThrow(generateWorkout(random));
+      const reparsed = parseOrThrow(serializeWorkout(original));
+      expect(structureOf(reparsed)).toEqual(structureOf(original));
+    }
+  });
+
+  it('round-trips generated workouts with collapsed sets', () => {
+    const random = mulberry32(0x2c9);
+    for (let i = 0; i < 200; i++) {
+      const original = parseOrThrow(generateWorkout(random));
+      const reparsed = parseOrThrow(serializeWorkout(original, { collapseSets: true }));
+      expect(structureOf(reparsed)).toEqual(structureOf(original));
+    }
+  });
+});
+
+// MARK: - Canonical Output
+
+describe('Canonical Output', () => {
+  it('emits headers, metadata, notes and sets', () => {
+    const plan = parseOrThrow(`# Push Day
+@units: lbs
+@tags: push, strength
+
+Heavy day.
+
+## Bench Press
+@type: barbell
+Retract scapula.
+- 225 lbs x 5 reps @rest: 3m
+- 185 x 8 @dropset
+- 135 kg x AMRAP`);
+
+    expect(serializeWorkout(plan)).toBe(`# Push Day
+@tags: push, strength
+@units: lbs
+
+Heavy day.
+
+## Bench Press
+@type: barbell
+Retract scapula.
+- 225 x 5 @rest: 180s
+- 185 x 8 @dropset
+- 135 kg x AMRAP
+`);
+  });
+
+  it('emits bodyweight, time and distance sets', () => {
+    const plan = parseOrThrow(`# Conditioning
+## Circuit
+- 10
+- x AMRAP
+- 2m per side
+- 45 lbs for 30s
+- 0.5 km`);
+
+    expect(serializeWorkout(plan)).toBe(`# Conditioning
+
+## Circuit
+- 10
+- bw x AMRAP
+- 120s @perside
+- 45 lbs x 30s
+- 0.5 km
+`);
+  });
+
+  it('nests supersets inside sections', () => {
+    const plan = parseOrThrow(`# Workout
+## Main
+### Superset: Arms
+#### Curl
+- 20 x 10
+#### Pushdown
+- 30 x 10
+### Plank
+- 60s`);
+
+    expect(serializeWorkout(plan)).toBe(`# Workout
+
+## Main
+
+### Superset: Arms
+
+#### Curl
+- 20 x 10
+
+#### Pushdown
+- 30 x 10
+
+### Plank
+- 60s
+`);
+  });
+
+  it('emits rep ranges', () => {
+    const plan = parseOrThrow(`# Hypertrophy
+## Curl
+- 30 x 8-12
+- 10-15 @rest: 60s`);
+
+    expect(serializeWorkout(plan)).toBe(`# Hypertrophy
+
+## Curl
+- 30 x 8-12
+- 10-15 @rest: 60s
+`);
+  });
+
+  it('collapses runs of identical rep sets when asked', () => {
+    const plan = parseOrThrow(`# Strength
+@units: lbs
+## Squat
+- 135 x 5
+- 225 x 5 @rest: 180s
+- 225 x 5 @rest: 180s
+- 225 x 5 @rest: 180s
+- 60s
+- 60s
+## Pull-ups
+- 8-12
+- 8-12`);
+
+    expect(serializeWorkout(plan, { collapseSets: true })).toBe(`# Strength
+@units: lbs
+
+## Squat
+- 135 x 5
+- 3 x 5 @ 225 @rest: 180s
+- 60s
+- 60s
+
+## Pull-ups
+- 2 x 8-12 @ bw
+`);
+  });
+
+  it('emits one-rep maxes, percentages and RPE loads', () => {
+    const plan = parseOrThrow(`# Squat Day
+@units: lbs
+@1rm: Back Squat = 405
+@1rm: Front Squat = 150 kg
+
+## Back Squat
+- 5 x 75%
+- 3 @ 80% of Front Squat @ paused
+- 2 @ RPE 9 @rest: 180s`);
+
+    expect(serializeWorkout(plan)).toBe(`# Squat Day
+@units: lbs
+@1rm: Back Squat = 405
+@1rm: Front Squat = 150 kg
+
+## Back Squat
+- 75% x 5
+- 3 @ 80% of Front Squat @ paused
+- 2 @ RPE 9 @rest: 180s
+`);
+  });
+});
+
+describe('Programs', () => {
+  const PROGRAM = `# Block
+@tags: strength
+@units: kg
+@1rm: Squat = 180
+
+Four weeks to a squat single.
+
+## Warm-up
+### Bike
+- 300s
+
+## Week 1
+
+### Day 1
+@tags: legs
+@1rm: Squat = 185
+#### Squat
+- 5 x 75%
+
+### Day 2
+@units: lbs
+#### Bench Press
+- 185 x 5`;
+
+  it('round-trips a program document', () => {
+    const program = parseProgram(PROGRAM).data!;
+    const reparsed = parseProgram(serializeProgram(program)).data!;
+
+    expect(reparsed.weeks.map((w) => w.name)).toEqual(['Week 1']);
+    expect(reparsed.workouts.map(structureOf)).toEqual(program.workouts.map(structureOf));
+    expect(reparsed.workouts.map((w) => w.oneRepMaxes)).toEqual(program.workouts.map((w) => w.oneRepMaxes));
+  });
+
+  it('only repeats metadata that differs from the program', () => {
+    const program = parseProgram(PROGRAM).data!;
+
+    expect(serializeProgram(program)).toBe(`# Block
+@tags: strength
+@units: kg
+@1rm: Squat = 180
+
+Four weeks to a squat single.
+
+## Warm-up
+
+### Bike
+- 300s
+
+## Week 1
+
+### Day 1
+@tags: legs
+@1rm: Squat = 185
+
+#### Squat
+- 75% x 5
+
+### Day 2
+@units: lbs
+
+#### Bench Press
+- 185 x 5
+`);
+  });
+});
+
+describe('Sessions', () => {
+  const LOG = `# Push Day
+@units: lbs
+@date: 2026-02-20
+@duration: 1h 15m
+
+Felt strong
+
+## Superset: Arms
+
+### Bicep Curl
+- [x] 30 x 10
+- [!] 30 x 10 -> 30 x 7 @rpe 10
+
+### Tricep Pushdown
+- [-] 40 x 12
+- [ ] 40 x 12
+
+## Plank
+- [x] 60s -> 45s
+`;
+
+  it('writes a log that parses back to the same session', () => {
+    const session = parseSession(LOG).data!;
+    const markdown = serializeSession(session);
+    const reparsed = parseSession(markdown).data!;
+
+    const setsOf = (s: typeof session) => s.exercises.map((e) => e.sets.map(({ id, sessionExerciseId, ...set }) => set));
+
+    expect(markdown).toBe(LOG);
+    expect(setsOf(reparsed)).toEqual(setsOf(session));
+    expect(reparsed.exercises.map((e) => e.status)).toEqual(session.exercises.map((e) => e.status));
+  });
+
+  it('only writes results that differ from the plan', () => {
+    const session = parseSession('# W\n## Squat\n- 225 x 5\n- 225 x 5').data!;
+    const [first, second] = session.exercises[0].sets;
+    Object.assign(first, { status: 'completed', actualWeight: 225, actualReps: 5 });
+    Object.assign(second, { status: 'completed', actualReps: 3, actualRpe: 9.5 });
+
+    expect(serializeSession(session)).toContain('- [x] 225 x 5\n- [x] 225 x 5 -> 225 x 3 @rpe 9.5\n');
+  });
+});
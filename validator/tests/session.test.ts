@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { parseWorkout } from '../src/parser/index.js';
+import { parseSession } from '../src/parser/session.js';
+import type { SessionSet, WorkoutSession } from '../src/parser/index.js';
+
+function parseOrThrow(markdown: string): WorkoutSession {
+  const result = parseSession(markdown);
+  if (!result.data) throw new Error(result.errors.join('\n'));
+  return result.data;
+}
+
+/// A set's status and actual results, e.g. "completed 225×4 RPE 9".
+function outcome(set: SessionSet): string {
+  const amount = set.actualTime != null ? `${set.actualTime}s` : `${set.actualWeight ?? 'bw'}×${set.actualReps}`;
+  const done = set.status === 'completed' || set.status === 'failed';
+  return [set.status, ...(done ? [amount] : []), ...(set.actualRpe != null ? [`RPE ${set.actualRpe}`] : [])].join(' ');
+}
+
+const LOG = `# Push Day
+@units: lbs
+@date: 2026-02-20
+@duration: 1h 15m
+
+## Bench Press
+- [x] 185 x 5
+- [x] 205 x 5 -> 205 x 4 @rpe 9
+- [!] 225 x 5 -> 225 x 2
+- [-] 225 x 5
+
+## Superset: Arms
+### Bicep Curl
+- 25 x 10 -> 12
+### Plank
+- [ ] 60s`;
+
+describe('parseSession', () => {
+  it('reads checkboxes and results into planned and actual values', () => {
+    const session = parseOrThrow(LOG);
+
+    expect(session.exercises[0].sets.map(outcome)).toEqual([
+      'completed 185×5',
+      'completed 205×4 RPE 9',
+      'failed 225×2',
+      'skipped',
+    ]);
+    expect(session.exercises[0].sets[1]).toMatchObject({
+      targetWeight: 205,
+      targetReps: 5,
+      actualWeight: 205,
+      actualWeightUnit: 'lbs',
+      actualReps: 4,
+      actualRpe: 9,
+    });
+    expect(session.exercises.slice(2).map((e) => e.sets.map(outcome))).toEqual([['completed 25×12'], ['pending']]);
+  });
+
+  it('fills in session metadata and statuses', () => {
+    const session = parseOrThrow(LOG);
+
+    expect(session).toMatchObject({ name: 'Push Day', date: '2026-02-20', duration: 4500, workoutPlanId: null });
+    expect(session.status).toBe('in_progress');
+    expect(session.exercises.map((e) => [e.exerciseName, e.status])).toEqual([
+      ['Bench Press', 'completed'],
+      ['Superset: Arms', 'in_progress'],
+      ['Bicep Curl', 'completed'],
+      ['Plank', 'pending'],
+    ]);
+    expect(session.exercises[2].sets[0].sessionExerciseId).toBe(session.exercises[2].id);
+    expect(session.exercises[2].workoutSessionId).toBe(session.id);
+  });
+
+  it('completes the session once no set is pending', () => {
+    const session = parseOrThrow(LOG.replace('- [ ] 60s', '- [x] 60s -> 45s'));
+
+    expect(session.status).toBe('completed');
+    expect(session.exercises[3].sets[0]).toMatchObject({ targetTime: 60, actualTime: 45, status: 'completed' });
+  });
+
+  it('treats a plain workout as a session with every set pending', () => {
+    const session = parseOrThrow('# Legs\n## Squat\n- 5 x 5 @ 225');
+
+    expect(session.exercises[0].sets.map(outcome)).toEqual(Array(5).fill('pending'));
+    expect(session.exercises[0].status).toBe('pending');
+    expect(session.date).toBeNull();
+  });
+
+  it('applies a checkbox on a shorthand line to every set it expands to', () => {
+    const session = parseOrThrow('# Legs\n@units: kg\n## Squat\n- [x] 3 x 5 @ 100');
+
+    expect(session.exercises[0].sets.map(outcome)).toEqual(Array(3).fill('completed 100×5'));
+  });
+
+  it('keeps ids in step with parseWorkout', () => {
+    const markdown = '# Legs\n## Squat\n- [x] 225 x 5\n- [-] 225 x 5';
+    const session = parseSession(markdown, { ids: 'deterministic' }).data!;
+    const plan = parseWorkout('# Legs\n## Squat\n- 225 x 5\n- 225 x 5', { ids: 'deterministic' }).data!;
+
+    expect(session.id).toBe(plan.id);
+    expect(session.exercises[0].sets.map((s) => s.id)).toEqual(plan.exercises[0].sets.map((s) => s.id));
+  });
+});
+
+describe('Session Errors', () => {
+  it('rejects results on skipped sets and shorthand lines', () => {
+    const result = parseSession('# W\n## Squat\n- [-] 225 x 5 -> 225 x 5\n- 3 x 5 @ 225 -> 225 x 5');
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics.map((d) => [d.line, d.code])).toEqual([
+      [3, 'INVALID_LOG_RESULT'],
+      [4, 'INVALID_LOG_RESULT'],
+    ]);
+  });
+
+  it('rejects results that are not a single amount', () => {
+    const result = parseSession('# W\n## Squat\n- 225 x 5 -> 225 x 8-10\n- 225 x 5 -> 225 x 5 @rpe 11');
+
+    expect(result.diagnostics.map((d) => [d.line, d.code])).toEqual([
+      [3, 'INVALID_LOG_RESULT'],
+      [4, 'INVALID_RPE'],
+    ]);
+  });
+
+  it('rejects malformed @date and @duration', () => {
+    const result = parseSession('# W\n@date: 2026-02-30\n@duration: soon\n## Squat\n- 225 x 5');
+
+    expect(result.diagnostics.map((d) => [d.line, d.code, d.text])).toEqual([
+      [2, 'INVALID_DATE', '2026-02-30'],
+      [3, 'INVALID_DURATION', 'soon'],
+    ]);
+  });
+
+  it('warns about completed AMRAP sets without a result', () => {
+    const result = parseSession('# W\n## Push-up\n- [x] bw x AMRAP\n- [x] bw x AMRAP -> 22');
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(['Line 3: Completed AMRAP set has no result. Log the reps done, e.g. "-> 225 x 8"']);
+    expect(result.data!.exercises[0].sets.map((s) => s.actualReps)).toEqual([null, 22]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { WorkoutPlan } from '../src/parser/index.js';
+import { serializeWorkout } from '../src/serializer/index.js';
+import { convertWorkout, convertWeight, convertDistance } from '../src/units/index.js';
+import { parseOrThrow } from './helpers.js';
+
+function loads(plan: WorkoutPlan): Array<[number | null, string | null]> {
+  return plan.exercises.flatMap((e) => e.sets.map((s): [number | null, string | null] => [s.targetWeight, s.targetWeightUnit]));
+}
+
+describe('convertWorkout', () => {
+  it('converts mixed per-set units to kilograms', () => {
+    const markdown = readFileSync(resolve(__dirname, '../../liftmark-workout-format/examples/valid/tc-mixed-units-per-set.md'), 'utf-8');
+    const converted = convertWorkout(parseOrThrow(markdown), { weight: 'kg' });
+
+    expect(converted.defaultWeightUnit).toBe('kg');
+    expect(loads(converted)).toEqual([[22.5, 'kg'], [25, 'kg'], [25, 'kg'], [27.5, 'kg']]);
+  });
+
+  it('reads weights in the plan units', () => {
+    const converted = convertWorkout(parseOrThrow(`# W
+@units: kg
+## Squat
+- 100 x 5`), { weight: 'lbs' });
+
+    expect(converted.defaultWeightUnit).toBe('lbs');
+    expect(loads(converted)).toEqual([[220, 'lbs']]);
+  });
+
+  it('uses the requested rounding increment', () => {
+    const plan = parseOrThrow(`# W
+## Curl
+- 30 lbs x 10`);
+
+    expect(loads(convertWorkout(plan, { weight: 'kg' }))).toEqual([[12.5, 'kg']]);
+    expect(loads(convertWorkout(plan, { weight: 'kg', rounding: 1 }))).toEqual([[14, 'kg']]);
+  });
+
+  it('keeps light loads from rounding to zero', () => {
+    const converted = convertWorkout(parseOrThrow(`# W
+## Raise
+- 2 lbs x 15`), { weight: 'kg' });
+
+    expect(loads(converted)).toEqual([[2.5, 'kg']]);
+  });
+
+  it('converts one-rep maxes', () => {
+    const converted = convertWorkout(parseOrThrow(`# W
+@units: lbs
+@1rm: Bench Press = 225
+@1rm: Squat = 150 kg
+## Bench Press
+- 5 x 75%`), { weight: 'kg' });
+
+    expect(converted.oneRepMaxes).toEqual([
+      { exerciseName: 'Bench Press', weight: 102.5, unit: 'kg' },
+      { exerciseName: 'Squat', weight: 150, unit: 'kg' },
+    ]);
+  });
+
+  it('converts distances to two decimals', () => {
+    const converted = convertWorkout(parseOrThrow(`# Run
+## Intervals
+- 400 meters
+- 1 mile`), { distance: 'km' });
+
+    expect(converted.exercises[0].sets.map((s) => [s.targetDistance, s.targetDistanceUnit])).toEqual([
+      [0.4, 'km'],
+      [1.61, 'km'],
+    ]);
+  });
+
+  it('assumes weights with no unit at all are already in the target unit', () => {
+    const converted = convertWorkout(parseOrThrow(`# W
+## Squat
+- 100 x 5`), { weight: 'kg' });
+
+    expect(converted.defaultWeightUnit).toBe('kg');
+    expect(loads(converted)).toEqual([[100, null]]);
+  });
+
+  it('leaves units alone when no target is given and does not modify the input', () => {
+    const plan = parseOrThrow(`# W
+## Squat
+- 225 lbs x 5`);
+    const converted = convertWorkout(plan, {});
+
+    expect(converted).toEqual(plan);
+    convertWorkout(plan, { weight: 'kg' });
+    expect(loads(plan)).toEqual([[225, 'lbs']]);
+  });
+
+  it('produces markdown that parses back to the converted plan', () => {
+    const converted = convertWorkout(parseOrThrow(`# W
+@units: lbs
+## Squat
+- 225 x 5
+- 100 kg x 3`), { weight: 'kg' });
+
+    expect(loads(parseOrThrow(serializeWorkout(converted)))).toEqual(loads(converted));
+  });
+});
+
+describe('convertWeight and convertDistance', () => {
+  it('convert without rounding', () => {
+    expect(convertWeight(100, 'kg', 'lbs')).toBeCloseTo(220.462, 3);
+    expect(convertWeight(100, 'kg', 'kg')).toBe(100);
+    expect(convertDistance(1, 'miles', 'meters')).toBeCloseTo(1609.344, 3);
+    expect(convertDistance(3, 'feet', 'yards')).toBeCloseTo(1, 6);
+  });
+});
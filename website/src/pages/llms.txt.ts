@@ -8,6 +8,8 @@ LMWF is a markdown-based format for strength training workouts. It is human-writ
 
 - [Full spec](https://workoutformat.liftmark.app/spec.md): Complete LMWF format specification in markdown.
 - [Validator API](https://workoutformat.liftmark.app/validate): POST JSON \`{"markdown": "..."}\` to validate LMWF content. Returns \`{success, summary, errors, warnings}\`.
+- [Validate response schema](https://workoutformat.liftmark.app/schemas/lmwf-validate-response.schema.json): JSON Schema for the \`/validate\` response.
+- [Workout plan schema](https://workoutformat.liftmark.app/schemas/lmwf-workout-plan.schema.json): JSON Schema for a parsed workout (\`WorkoutPlan\`).
 
 ## Optional
 
@@ -0,0 +1,24 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+// Served verbatim from spec/data/schemas, the same files the validator tests
+// against. The generated lmwf-*.schema.json files use their URL here as $id.
+const schemas = import.meta.glob<string>('../../../../spec/data/schemas/*.schema.json', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+export const getStaticPaths: GetStaticPaths = () =>
+  Object.entries(schemas).map(([path, source]) => ({
+    params: { name: path.split('/').pop()!.replace(/\.json$/, '') },
+    props: { source },
+  }));
+
+export const GET: APIRoute = ({ props }) => {
+  return new Response(props.source as string, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/schema+json; charset=utf-8',
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+};